@@ -0,0 +1,56 @@
+// オフライン対応のService Worker
+// プリキャッシュ対象の一覧（self.__PRECACHE）はビルド時に precache-manifest.js として生成される
+importScripts('/precache-manifest.js')
+
+const CACHE_PREFIX = 'multi-qr-scanner-'
+const { version, urls } = self.__PRECACHE
+const CACHE_NAME = CACHE_PREFIX + version
+
+self.addEventListener('install', (event) => {
+  // HTTPキャッシュ（immutable指定）を経由せず、必ず今回のビルドの内容を取得する
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(urls.map((url) => new Request(url, { cache: 'reload' }))))
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  )
+})
+
+// 更新プロンプトで「更新」が押されたら待機中のワーカーを有効化する
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting()
+  }
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+  if (new URL(request.url).origin !== self.location.origin) return
+
+  // ページ遷移はキャッシュ済みのページ（embed.html 等）、それ以外のパスはアプリシェルを返す（SPA）
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.match(request, { cacheName: CACHE_NAME, ignoreSearch: true })
+        .then((cached) => cached || caches.match('/index.html', { cacheName: CACHE_NAME }))
+        .then((cached) => cached || fetch(request))
+    )
+    return
+  }
+
+  // zxing_reader.wasm もここでキャッシュから返るため、電波のない場所でもデコーダーを初期化できる
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE_NAME })
+      .then((cached) => cached || fetch(request))
+  )
+})
@@ -0,0 +1,50 @@
+// サーバー送信（転送）の動作確認用モックサーバー
+//
+//   pnpm mock:forward
+//   PORT=8787 FAIL_RATE=0.5 TOKEN=secret pnpm mock:forward
+//
+// FAIL_RATE の割合で 503 を返し、TOKEN を指定した場合は Authorization: Bearer <TOKEN> 以外を 401 にする。
+import { createServer } from 'node:http'
+
+const port = Number(process.env.PORT ?? 8787)
+const failRate = Number(process.env.FAIL_RATE ?? 0)
+const token = process.env.TOKEN
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': '*'
+}
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders).end()
+    return
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405, corsHeaders).end()
+    return
+  }
+
+  let body = ''
+  req.on('data', chunk => { body += chunk })
+  req.on('end', () => {
+    const time = new Date().toISOString()
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+      console.log(time, '401', req.headers.authorization ?? '(no authorization)')
+      res.writeHead(401, corsHeaders).end()
+      return
+    }
+    if (Math.random() < failRate) {
+      console.log(time, '503 (simulated failure)')
+      res.writeHead(503, corsHeaders).end()
+      return
+    }
+    console.log(time, '200', body)
+    res.writeHead(200, { ...corsHeaders, 'Content-Type': 'application/json' }).end('{"ok":true}')
+  })
+})
+
+server.listen(port, () => {
+  console.log(`Mock forward server listening on http://localhost:${port}`)
+})
@@ -0,0 +1,185 @@
+// 録画した動画の回帰テスト（ヘッドレスChromeで regression.html を開き、結果を受け取る）
+//
+//   pnpm build
+//   CHROME_PATH=/usr/bin/google-chrome pnpm regression ./clips
+//   PORT=4180 TIMEOUT=600 FPS=15 PRESET=qr pnpm regression ./clips
+//
+// clips フォルダの動画（.webm / .mp4）ごとに、同名の .expected.txt / .expected.csv があれば
+// 期待するコードとして比べる（ない場合は1つでも読めれば合格）。全件合格なら終了コード0、不合格があれば1。
+// Chromiumはライセンスの都合でMP4（H.264）を再生できないことがあるため、WebMでの録画を推奨。
+import { spawn } from 'node:child_process'
+import { createReadStream } from 'node:fs'
+import { mkdtemp, readdir, rm, stat } from 'node:fs/promises'
+import { createServer } from 'node:http'
+import { tmpdir } from 'node:os'
+import { extname, join, normalize, resolve, sep } from 'node:path'
+
+const clipsDir = resolve(process.argv[2] ?? 'clips')
+const distDir = resolve('dist')
+const port = Number(process.env.PORT ?? 4180)
+const timeout = Number(process.env.TIMEOUT ?? 600) * 1000
+const chromePath = process.env.CHROME_PATH ?? 'google-chrome'
+
+const MIME_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.wasm': 'application/wasm',
+  '.svg': 'image/svg+xml',
+  '.webmanifest': 'application/manifest+json',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.txt': 'text/plain; charset=utf-8',
+  '.csv': 'text/csv; charset=utf-8'
+}
+
+// Rangeヘッダーを開始・終了位置にする（単一の範囲のみ。解釈できない形式は null で全体を返す）
+function parseRange(header, size) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header ?? '')
+  if (!match || (!match[1] && !match[2])) return null
+  if (!match[1]) {
+    // 末尾から N バイト（bytes=-N）
+    const length = Number(match[2])
+    return length > 0 && size > 0 ? { start: Math.max(0, size - length), end: size - 1 } : 'unsatisfiable'
+  }
+  const start = Number(match[1])
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1
+  return start < size && start <= end ? { start, end } : 'unsatisfiable'
+}
+
+// シークにはRangeリクエストへの対応が必要
+async function serveFile(req, res, path) {
+  let info
+  try {
+    info = await stat(path)
+  } catch {
+    res.writeHead(404).end()
+    return
+  }
+  if (!info.isFile()) {
+    res.writeHead(404).end()
+    return
+  }
+  const headers = {
+    'Content-Type': MIME_TYPES[extname(path)] ?? 'application/octet-stream',
+    'Accept-Ranges': 'bytes'
+  }
+  const range = parseRange(req.headers.range, info.size)
+  if (range === 'unsatisfiable') {
+    res.writeHead(416, { 'Content-Range': `bytes */${info.size}` }).end()
+    return
+  }
+  if (range) {
+    const { start, end } = range
+    res.writeHead(206, { ...headers, 'Content-Range': `bytes ${start}-${end}/${info.size}`, 'Content-Length': end - start + 1 })
+    createReadStream(path, { start, end }).pipe(res)
+    return
+  }
+  res.writeHead(200, { ...headers, 'Content-Length': info.size })
+  createReadStream(path).pipe(res)
+}
+
+// ルート外へのパスを拒否する（urlPath はデコード済み）
+function within(root, urlPath) {
+  const path = normalize(join(root, urlPath))
+  return path.startsWith(root + sep) ? path : null
+}
+
+function printSummary(summary) {
+  for (const clip of summary.clips) {
+    console.log(`${clip.passed ? 'PASS' : 'FAIL'}  ${clip.source}`)
+    if (clip.error) console.log(`      error: ${clip.error}`)
+    if (clip.missing.length > 0) console.log(`      missing: ${clip.missing.join(', ')}`)
+    if (clip.unexpected.length > 0) console.log(`      unexpected: ${clip.unexpected.join(', ')}`)
+    if (clip.report) {
+      console.log(`      ${clip.report.framesWithCodes}/${clip.report.frames} frames with codes, ${clip.report.timeouts} timeouts`)
+    }
+  }
+  console.log(`\n${summary.passedCount} / ${summary.total} passed`)
+}
+
+const files = (await readdir(clipsDir)).sort()
+const profileDir = await mkdtemp(join(tmpdir(), 'qr-regression-'))
+let chrome = null
+
+const finish = async (code) => {
+  chrome?.kill()
+  server.close()
+  await rm(profileDir, { recursive: true, force: true }).catch(() => {})
+  process.exit(code)
+}
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url, `http://localhost:${port}`)
+
+  if (req.method === 'POST' && pathname === '/report') {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      let summary
+      try {
+        summary = JSON.parse(body)
+        if (!Array.isArray(summary?.clips)) throw new Error('clips is missing')
+      } catch {
+        // 壊れた報告では終了せず、タイムアウトまで正しい報告を待つ
+        console.error('Ignored a malformed report')
+        res.writeHead(400).end()
+        return
+      }
+      res.writeHead(204).end()
+      printSummary(summary)
+      finish(summary.passed ? 0 : 1)
+    })
+    return
+  }
+
+  if (pathname === '/clips/manifest.json') {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ files }))
+    return
+  }
+
+  let decodedPath
+  try {
+    decodedPath = decodeURIComponent(pathname)
+  } catch {
+    res.writeHead(400).end()
+    return
+  }
+  const path = decodedPath.startsWith('/clips/')
+    ? within(clipsDir, decodedPath.slice('/clips/'.length))
+    : within(distDir, decodedPath === '/' ? 'index.html' : decodedPath)
+  if (!path) {
+    res.writeHead(403).end()
+    return
+  }
+  serveFile(req, res, path)
+})
+
+server.listen(port, () => {
+  const query = new URLSearchParams({ manifest: '/clips/manifest.json', report: '/report' })
+  if (process.env.FPS) query.set('fps', process.env.FPS)
+  if (process.env.PRESET) query.set('preset', process.env.PRESET)
+  const url = `http://localhost:${port}/regression.html?${query}`
+  console.log(`Running ${files.length} files from ${clipsDir}`)
+
+  chrome = spawn(chromePath, [
+    '--headless=new',
+    '--disable-gpu',
+    '--no-first-run',
+    '--no-default-browser-check',
+    '--autoplay-policy=no-user-gesture-required',
+    `--user-data-dir=${profileDir}`,
+    url
+  ], { stdio: 'ignore' })
+  chrome.on('error', err => {
+    console.error(`Failed to start Chrome (${chromePath}): ${err.message}`)
+    finish(2)
+  })
+})
+
+setTimeout(() => {
+  console.error(`Timed out after ${timeout / 1000}s`)
+  finish(2)
+}, timeout).unref()
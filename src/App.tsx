@@ -1,57 +1,150 @@
 import { useState, useRef, useEffect, useCallback } from 'react'
-import { prepareZXingModule, readBarcodes, type ReadResult } from 'zxing-wasm/reader'
-import GuideFrame, { type GuideState, calculateGuideSize, isQRInGuide } from './GuideFrame'
+import GuideFrame from './GuideFrame'
+import { DecoderClient } from './decoderClient'
+import { useScanSession } from './useScanSession'
+import { captureVideoFrame } from './videoFrame'
+import SessionBar from './SessionBar'
+import ExportMenu from './ExportMenu'
+import ManifestPanel from './ManifestPanel'
+import UpdatePrompt from './UpdatePrompt'
+import LocaleSwitcher from './LocaleSwitcher'
+import SettingsPanel from './SettingsPanel'
+import SheetPanel from './SheetPanel'
+import DiagnosticsPanel from './DiagnosticsPanel'
+import FeedbackPanel from './FeedbackPanel'
+import {
+  FeedbackPlayer,
+  loadFeedbackSettings,
+  saveFeedbackSettings,
+  type FeedbackEvent,
+  type FeedbackSettings
+} from './feedback'
+import { FrameMetrics, loadDiagnosticsVisible, saveDiagnosticsVisible } from './diagnostics'
+import { logger } from './logger'
+import VideoReplayPanel from './VideoReplayPanel'
+import { loadVideo, scanVideoFrames, type VideoScanOptions } from './videoReplay'
+import DedupePolicyPanel from './DedupePolicyPanel'
+import { DEFAULT_DEDUPE_POLICY, type DedupePolicy } from './dedupeKey'
+import ValidationPanel from './ValidationPanel'
+import RejectedResults from './RejectedResults'
+import { DEFAULT_VALIDATION_RULES, type ValidationRules } from './validation'
+import ForwardingPanel from './ForwardingPanel'
+import DeliveryBadge from './DeliveryBadge'
+import {
+  ForwardQueue,
+  loadForwardingConfig,
+  saveForwardingConfig,
+  type ForwardingConfig
+} from './forwarding'
+import CameraControls from './CameraControls'
+import {
+  applyTorch,
+  applyZoom,
+  buildVideoConstraints,
+  getTrackFeatures,
+  listCameras,
+  loadCameraPreferences,
+  saveCameraPreferences,
+  type CameraPreferences,
+  type TrackFeatures
+} from './cameraControls'
+import ImageDropZone from './ImageDropZone'
+import FormatSelector from './FormatSelector'
+import PayloadCard from './PayloadCard'
+import GeneratedCode from './GeneratedCode'
+import ResultDetail from './ResultDetail'
+import { cropThumbnail } from './thumbnail'
+import ShareListPanel from './ShareListPanel'
+import { ShareImporter, type ShareImportProgress } from './listShare'
+import DetectionOverlay from './DetectionOverlay'
+import GuideLayoutSelector from './GuideLayoutSelector'
+import { loadGuideLayout, saveGuideLayout, type GuideLayout } from './guideGeometry'
+import { arrangeSheet, type SheetGrid } from './sheetLayout'
+import { positionToPoints } from './frameGeometry'
+import { DEFAULT_FORMAT_PRESET, formatLabel, getFormatPreset, type FormatPresetId } from './barcodeFormats'
+import {
+  clearResults,
+  createSession,
+  deleteSession,
+  getActiveSessionId,
+  listSessions,
+  loadDeliveries,
+  loadResults,
+  renameSession,
+  saveResults,
+  updateSession,
+  setActiveSessionId as persistActiveSessionId
+} from './scanStorage'
+import type { Delivery, SavedSession, UniqueQRResult } from './types'
+import { useI18n, type I18n } from './i18n'
+import { loadScanSettings, saveScanSettings, toDecodePlan, toScanSessionConfig, type ScanSettings } from './scanSettings'
+import type { DecodeStats } from './decodeStrategy'
 import './App.css'
 
 // 定数定義
-const SCAN_COOLDOWN_DURATION = 3000 // 同一QRコードのクールダウン時間（ミリ秒）
-const SCAN_HISTORY_TTL = 10000 // スキャン履歴の保持時間（ミリ秒）
-const MAX_RECENT_SCANS = 20 // 最近のスキャン履歴の最大件数
-const MAX_UNIQUE_RESULTS = 50 // ユニーク結果の最大件数
-const MEMORY_CLEANUP_INTERVAL = 30000 // メモリクリーンアップ間隔（ミリ秒）
-const SCAN_INTERVAL_MIN = 200 // 最小スキャン間隔（ミリ秒・iPhone最適化: 100→200）
-const SCAN_INTERVAL_MAX = 500 // 最大スキャン間隔（ミリ秒）
-const SCAN_INTERVAL_DEFAULT = 300 // デフォルトスキャン間隔（ミリ秒・iPhone最適化: 200→300）
-const CANVAS_SCALE = 0.5 // Canvas描画スケール（iPhone最適化: 0.4→0.5でエラー回避）
-const READBARCODES_TIMEOUT = 3000 // readBarcodesのタイムアウト（ミリ秒・iPhone最適化: 1000→3000）
-
-// 開発環境チェック
-const isDevelopment = import.meta.env.DEV
-
-interface UniqueQRResult {
-  id: string
-  text: string
-  firstSeen: Date
-  lastSeen: Date
-  count: number
-}
+const IMAGE_FILE_TIMEOUT = 15000 // 画像ファイル1枚あたりのデコードタイムアウト（ミリ秒）
+const IMAGE_FILE_MAX_SYMBOLS = 32 // 画像ファイルから読み取る最大コード数
+const SHEET_MAX_SYMBOLS = 32 // シート読み取り時に1フレームから読み取る最大コード数
+const DIAGNOSTICS_TAP_COUNT = 5 // 診断パネルを表示するフッターのタップ回数
+const DIAGNOSTICS_TAP_WINDOW = 3000 // タップを数える期間（ミリ秒）
+
+// 新規セッションのデフォルト名
+const defaultSessionName = ({ messages, formatDateTime }: I18n) =>
+  messages.app.defaultSessionName(formatDateTime(new Date()))
+
+const toResultMap = (results: UniqueQRResult[]) =>
+  new Map(results.map(result => [result.id, result]))
 
 function App() {
   const [isScanning, setIsScanning] = useState(false)
-  const [uniqueResults, setUniqueResults] = useState<Map<string, UniqueQRResult>>(new Map())
+  const i18n = useI18n()
+  const { messages, formatScanTime } = i18n
   const [error, setError] = useState<string | null>(null)
   const [isInitialized, setIsInitialized] = useState(false)
   const [permissionStatus, setPermissionStatus] = useState<'prompt' | 'granted' | 'denied' | null>(null)
-  const [guideState, setGuideState] = useState<GuideState>('waiting')
-  const [lastScanTime, setLastScanTime] = useState<number>(0)
-  const [scanInterval, setScanInterval] = useState<number>(SCAN_INTERVAL_DEFAULT) // 動的スキャン間隔
   const [focusGuideOnly, setFocusGuideOnly] = useState<boolean>(false) // ガイド領域のみスキャン
-  const [recentScans, setRecentScans] = useState<Map<string, number>>(new Map()) // 最近のスキャン履歴（クールダウン用）
+  const [cameraPreferences, setCameraPreferences] = useState<CameraPreferences>(loadCameraPreferences) // 保存済みのカメラ設定
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([])
+  const [trackFeatures, setTrackFeatures] = useState<TrackFeatures | null>(null) // ライト・ズーム対応状況
+  const [torchOn, setTorchOn] = useState(false)
+  const [zoom, setZoom] = useState<number | null>(null)
+  const [formatPreset, setFormatPreset] = useState<FormatPresetId>(DEFAULT_FORMAT_PRESET) // 読み取り対象フォーマット
+  const [sessions, setSessions] = useState<SavedSession[]>([])
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null)
+  const [forwardingConfig, setForwardingConfig] = useState<ForwardingConfig>(loadForwardingConfig) // サーバー送信設定
+  const [scanSettings, setScanSettings] = useState<ScanSettings>(loadScanSettings) // スキャンの調整値
+  const [decodeStats, setDecodeStats] = useState<DecodeStats | null>(null) // デコード段階ごとの統計
+  const [guideLayout, setGuideLayout] = useState<GuideLayout>(loadGuideLayout) // ガイドの種類と枠の並び
+  const [sheetMode, setSheetMode] = useState(false) // シート読み取り（行・列に整列）
+  const [sheet, setSheet] = useState<SheetGrid | null>(null)
+  const [diagnosticsVisible, setDiagnosticsVisible] = useState(loadDiagnosticsVisible) // 隠し診断パネル
+  const [frameMetrics] = useState(() => new FrameMetrics())
+  const [feedbackSettings, setFeedbackSettings] = useState<FeedbackSettings>(loadFeedbackSettings) // 音と振動
+  const [feedbackPlayer] = useState(() => new FeedbackPlayer())
+  const [replayFileName, setReplayFileName] = useState<string | null>(null) // カメラの代わりに再生中の動画ファイル
+  const [shareImporter] = useState(() => new ShareImporter())
+  const [shareImport, setShareImport] = useState<ShareImportProgress | null>(null) // 共有された一覧の読み取り状況
+  const [forwardQueue] = useState(() => new ForwardQueue())
+  const [deliveries, setDeliveries] = useState<Map<string, Delivery>>(new Map()) // 表示中セッションの送信状況（結果ID別）
 
   const videoRef = useRef<HTMLVideoElement>(null)
   const streamRef = useRef<MediaStream | null>(null)
-  const animationFrameRef = useRef<number | null>(null)
   const canvasRef = useRef<HTMLCanvasElement>(document.createElement('canvas'))
   const videoWrapperRef = useRef<HTMLDivElement>(null)
-  const performanceRef = useRef<{ lastFrameTime: number; frameCount: number }>({
-    lastFrameTime: 0,
-    frameCount: 0
-  })
+  const focusGuideOnlyRef = useRef(focusGuideOnly) // フレーム取得時に最新値を参照
+  const i18nRef = useRef(i18n) // 初回のみ実行する処理から最新の言語を参照
+  const scanSettingsRef = useRef(scanSettings) // フレーム取得時に最新値を参照
+  const guideLayoutRef = useRef(guideLayout)
+  const decoderRef = useRef<DecoderClient | null>(null)
+  const persistedResultsRef = useRef<Map<string, UniqueQRResult>>(new Map()) // IndexedDBへ保存済みの結果
+  const sessionsRestoredRef = useRef(false)
+  const footerTapsRef = useRef<number[]>([])
+  const releaseReplayRef = useRef<(() => void) | null>(null) // 動画ファイルの読み込み解除
 
   // WebAssembly対応チェック
   useEffect(() => {
     if (!WebAssembly) {
-      setError('WebAssemblyがサポートされていません')
+      setError(i18nRef.current.messages.errors.wasmUnsupported)
       return
     }
   }, [])
@@ -60,48 +153,31 @@ function App() {
   const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent)
   const isSafari = /^((?!chrome|android).)*safari/i.test(navigator.userAgent)
 
-  // zxing-wasm初期化
+  // デコーダーワーカー初期化（zxing-wasmはワーカー側で保持）
   useEffect(() => {
-    const initializeZXing = async () => {
-      try {
-        if (isDevelopment) {
-          console.log('[QR-Scanner]', {
-            timestamp: new Date().toISOString(),
-            event: 'init_start',
-            userAgent: navigator.userAgent
-          })
-        }
+    logger.info('init_start', { userAgent: navigator.userAgent })
 
-        console.log('[INIT] ZXing初期化開始...')
-        await prepareZXingModule({
-          overrides: {
-            locateFile: (path: string, prefix: string) => {
-              if (path.endsWith('.wasm')) {
-                // ローカルのpublicディレクトリから読み込み
-                const localPath = '/' + path
-                console.log('[INIT] WASM読み込み（ローカル）:', localPath)
-                return localPath
-              }
-              return prefix + path
-            }
-          }
-        })
+    const decoder = new DecoderClient(scanSettingsRef.current.decodeTimeout)
+    decoderRef.current = decoder
 
-        console.log('[INIT] ZXing初期化完了!')
+    decoder.ready()
+      .then(() => {
+        if (decoderRef.current !== decoder) return
         setIsInitialized(true)
-        if (isDevelopment) {
-          console.log('[QR-Scanner]', {
-            timestamp: new Date().toISOString(),
-            event: 'init_success'
-          })
-        }
-      } catch (err) {
-        console.error('[QR-Scanner] Initialization error:', err)
-        setError('QRスキャナーの初期化に失敗しました')
+        logger.info('init_success')
+      })
+      .catch((err) => {
+        if (decoderRef.current !== decoder) return
+        logger.error('init_error', { error: err })
+        setError(i18nRef.current.messages.errors.initFailed)
+      })
+
+    return () => {
+      decoder.terminate()
+      if (decoderRef.current === decoder) {
+        decoderRef.current = null
       }
     }
-
-    initializeZXing()
   }, [])
 
   // カメラ権限チェック
@@ -113,41 +189,29 @@ function App() {
         return result.state
       }
     } catch (err) {
-      if (isDevelopment) {
-        console.log('[QR-Scanner] Permission API not available:', err)
-      }
+      logger.debug('permission_check', { available: false, error: err })
     }
     return 'prompt'
   }, [])
 
   // カメラストリーム取得（リトライ付き）
-  const requestCameraWithRetry = useCallback(async (maxRetries = 2) => {
-    const constraints: MediaStreamConstraints = {
-      video: {
-        facingMode: 'environment',
-        width: { ideal: 1280 },
-        height: { ideal: 720 }
-      }
-    }
+  const requestCameraWithRetry = useCallback(async (preferences: CameraPreferences, maxRetries = 2) => {
+    let constraints: MediaStreamConstraints = { video: buildVideoConstraints(preferences) }
 
     for (let i = 0; i <= maxRetries; i++) {
       try {
-        if (isDevelopment) {
-          console.log('[QR-Scanner]', {
-            timestamp: new Date().toISOString(),
-            event: 'camera_request',
-            attempt: i + 1,
-            isIOS,
-            isSafari
-          })
-        }
+        logger.info('camera_request', {
+          attempt: i + 1,
+          deviceId: preferences.deviceId,
+          resolution: preferences.resolution,
+          isIOS,
+          isSafari
+        })
 
         const stream = await navigator.mediaDevices.getUserMedia(constraints)
         return stream
       } catch (error: unknown) {
-        if (isDevelopment) {
-          console.error('[QR-Scanner] Camera error:', error)
-        }
+        logger.error('camera_error', { attempt: i + 1, error })
         const err = error as { name?: string; message?: string }
 
         // iOS SafariのAbortError対策
@@ -156,330 +220,391 @@ function App() {
           continue
         }
 
+        // 保存済みのカメラが外された等で見つからない場合は背面カメラに戻す
+        if (preferences.deviceId && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError')) {
+          preferences = { ...preferences, deviceId: null }
+          setCameraPreferences(preferences)
+          saveCameraPreferences(preferences)
+          constraints = { video: buildVideoConstraints(preferences) }
+          i-- // フォールバックはリトライ回数に含めない
+          continue
+        }
+
         if (err.name === 'NotAllowedError') {
-          setError('カメラのアクセス許可が必要です')
+          setError(messages.errors.cameraPermissionRequired)
           setPermissionStatus('denied')
         } else if (err.name === 'NotFoundError') {
-          setError('カメラが見つかりません')
+          setError(messages.errors.cameraNotFound)
         } else if (err.name === 'NotReadableError') {
-          setError('カメラは他のアプリで使用中です')
+          setError(messages.errors.cameraInUse)
         } else {
-          setError(`カメラエラー: ${err.message || '不明なエラー'}`)
+          setError(messages.errors.camera(err.message || messages.errors.unknown))
         }
 
         throw error
       }
     }
     return null
-  }, [isIOS, isSafari])
+  }, [isIOS, isSafari, messages])
 
-  // QRコードを追加（重複排除とクールダウン）
-  const addQRCode = useCallback((text: string) => {
-    const hash = btoa(encodeURIComponent(text)).replace(/=/g, '') // 簡易ハッシュ
-    const now = Date.now()
+  // 取得したストリームをビデオに接続し、ライト・ズームの対応状況を反映
+  const attachStream = useCallback(async (stream: MediaStream) => {
+    streamRef.current = stream
 
-    // 同一QRコードのクールダウンチェック
-    const lastScanTime = recentScans.get(hash)
-    if (lastScanTime && now - lastScanTime < SCAN_COOLDOWN_DURATION) {
-      return false // クールダウン中はスキップ
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream
+      await videoRef.current.play()
     }
 
-    // 最近のスキャン履歴を更新
-    setRecentScans(prev => {
-      const newMap = new Map(prev)
+    const [track] = stream.getVideoTracks()
+    const settings = track?.getSettings()
+    logger.info('camera_ready', { label: track?.label, width: settings?.width, height: settings?.height })
+    const features = track ? getTrackFeatures(track) : null
+    setTrackFeatures(features)
+    setTorchOn(false)
+    setZoom(features?.zoom?.value ?? null)
 
-      // 古いエントリを削除
-      for (const [key, time] of newMap.entries()) {
-        if (now - time > SCAN_HISTORY_TTL) {
-          newMap.delete(key)
-        }
+    // 権限取得後はカメラ名が取得できるため一覧を更新
+    listCameras().then(setCameras).catch(() => {})
+  }, [])
+
+  // カメラ・解像度の変更（スキャン中はストリームを取り直す）
+  const changeCameraPreferences = useCallback(async (preferences: CameraPreferences) => {
+    setCameraPreferences(preferences)
+    saveCameraPreferences(preferences)
+
+    if (!streamRef.current) return
+    streamRef.current.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+    try {
+      const stream = await requestCameraWithRetry(preferences)
+      if (stream) {
+        await attachStream(stream)
       }
+    } catch (err) {
+      logger.error('camera_error', { action: 'switch', error: err })
+    }
+  }, [requestCameraWithRetry, attachStream])
+
+  const changeTorch = useCallback(async (enabled: boolean) => {
+    const [track] = streamRef.current?.getVideoTracks() ?? []
+    if (!track) return
+    try {
+      await applyTorch(track, enabled)
+      setTorchOn(enabled)
+    } catch (err) {
+      logger.error('camera_control_error', { control: 'torch', error: err })
+    }
+  }, [])
 
-      // 新しいスキャンを記録
-      newMap.set(hash, now)
+  const changeZoom = useCallback(async (value: number) => {
+    const [track] = streamRef.current?.getVideoTracks() ?? []
+    if (!track) return
+    setZoom(value)
+    try {
+      await applyZoom(track, value)
+    } catch (err) {
+      logger.error('camera_control_error', { control: 'zoom', error: err })
+    }
+  }, [])
+
+  // カメラ一覧の取得と接続・切断の監視
+  useEffect(() => {
+    if (!navigator.mediaDevices) return
+    const updateCameras = () => {
+      listCameras().then(setCameras).catch(() => {})
+    }
+    updateCameras()
+    navigator.mediaDevices.addEventListener('devicechange', updateCameras)
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', updateCameras)
+    }
+  }, [])
+
+  // 照合リスト（チェックリストモード）
+  const activeSession = sessions.find(session => session.id === activeSessionId)
+
+  // ライブスキャンのデコード（ワーカーが処理中のフレームは破棄）
+  // 共有された一覧のQRコードは結果にせず、取り込み用に集める
+  const decodeFrame = useCallback(async (image: ImageData) => {
+    const decoder = decoderRef.current
+    if (!decoder) return null
+    const reads = await decoder.decode(image, {
+      formats: getFormatPreset(formatPreset).formats,
+      maxNumberOfSymbols: sheetMode ? SHEET_MAX_SYMBOLS : scanSettings.maxNumberOfSymbols,
+      tryHarder: scanSettings.tryHarder
+    }, toDecodePlan(scanSettings).strategy)
+    return reads && reads.filter(read => !shareImporter.receive(read.text))
+  }, [formatPreset, scanSettings, sheetMode, shareImporter])
+
+  const {
+    session: scanSession,
+    results: uniqueResults,
+    rejected: rejectedScans,
+    guideState,
+    detections,
+    start: startScanLoop,
+    stop: stopScanLoop,
+    loadResults: loadScanResults,
+    resetResults: resetScanResults,
+    setDedupePolicy: applyDedupePolicy,
+    attachThumbnail,
+    clearRejected
+  } = useScanSession(decodeFrame)
 
-      // メモリ制限
-      if (newMap.size > MAX_RECENT_SCANS) {
-        const oldestKey = Array.from(newMap.entries())
-          .sort((a, b) => a[1] - b[1])[0][0]
-        newMap.delete(oldestKey)
+  useEffect(() => {
+    focusGuideOnlyRef.current = focusGuideOnly
+  }, [focusGuideOnly])
+
+  useEffect(() => {
+    i18nRef.current = i18n
+  }, [i18n])
+
+  useEffect(() => {
+    guideLayoutRef.current = guideLayout
+  }, [guideLayout])
+
+  // 設定の変更はカメラを再起動せずに反映する
+  useEffect(() => {
+    scanSettingsRef.current = scanSettings
+    scanSession.updateConfig(toScanSessionConfig(scanSettings))
+    decoderRef.current?.setFrameTimeout(scanSettings.decodeTimeout)
+  }, [scanSession, scanSettings])
+
+  useEffect(() => {
+    return scanSession.onFrame(outcome => {
+      if (outcome.status !== 'dropped') {
+        setDecodeStats(decoderRef.current?.getStats() ?? null)
       }
+    })
+  }, [scanSession])
 
-      return newMap
+  // シート読み取り: 最も多くのコードが写ったフレームの並びを残す
+  useEffect(() => {
+    if (!sheetMode) return
+    return scanSession.onFrame(outcome => {
+      if (outcome.status !== 'detected') return
+      const grid = arrangeSheet(outcome.detections.map(detection => ({
+        text: detection.read.text,
+        format: detection.read.format,
+        points: detection.points
+      })))
+      setSheet(prev => (!prev || grid.cells.length > prev.cells.length ? grid : prev))
     })
+  }, [scanSession, sheetMode])
 
-    setUniqueResults(prev => {
-      const newMap = new Map(prev)
-      const nowDate = new Date()
-
-      if (newMap.has(hash)) {
-        // 既存の場合は更新（カウントの増加を抑制）
-        const existing = newMap.get(hash)!
-        newMap.set(hash, {
-          ...existing,
-          lastSeen: nowDate,
-          count: existing.count + 1
+  // 新しいコードを読み取ったフレームから周辺を切り抜いて結果に残す（読み取りの誤りを後から確認するため）
+  // デコード中は次のフレームを描画しないため、検出の通知時点ではCanvasに同じフレームが残っている
+  // 画像ファイルの結果はCanvasに描画していない・共有された一覧からの取り込みは位置がないため対象外
+  useEffect(() => {
+    return scanSession.onDetect(({ result, isNew }) => {
+      if (!isNew || !result.points || result.sourceFile !== undefined) return
+      cropThumbnail(canvasRef.current, result.points)
+        .then(thumbnail => {
+          if (thumbnail) attachThumbnail(result.id, thumbnail)
         })
-      } else {
-        // 新規追加
-        newMap.set(hash, {
-          id: hash,
-          text,
-          firstSeen: nowDate,
-          lastSeen: nowDate,
-          count: 1
+        .catch(err => {
+          logger.error('frame_capture', { action: 'thumbnail', error: err })
         })
-      }
-
-      // メモリ制限
-      if (newMap.size > MAX_UNIQUE_RESULTS) {
-        const entries = Array.from(newMap.entries())
-          .sort((a, b) => b[1].lastSeen.getTime() - a[1].lastSeen.getTime())
-        const limitedMap = new Map(entries.slice(0, MAX_UNIQUE_RESULTS))
-        return limitedMap
-      }
-
-      return newMap
     })
+  }, [scanSession, attachThumbnail])
 
-    return true // 追加成功
-  }, [recentScans])
+  // 検出・エラーを音と振動で知らせる
+  useEffect(() => {
+    const play = (event: FeedbackEvent) => feedbackPlayer.play(event, feedbackSettings)
+    const unsubscribes = [
+      scanSession.onDetect(({ isNew, unexpected }) => {
+        play(unexpected ? 'unexpected' : isNew ? 'new' : 'duplicate')
+      }),
+      scanSession.onDuplicate(() => play('duplicate')),
+      scanSession.onReject(() => play('error')),
+      scanSession.onFrame(outcome => {
+        if (outcome.status === 'error') play('error')
+      })
+    ]
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe())
+  }, [scanSession, feedbackPlayer, feedbackSettings])
 
-  // スキャン処理
-  const scanQRCodes = useCallback(async () => {
-    if (!videoRef.current || !isInitialized || !isScanning) {
-      return
+  // iOS Safariはユーザー操作の中でしか音声を有効にできないため、タップのたびに解除を試みる
+  // （着信などで中断された場合も次のタップで再開する）
+  useEffect(() => {
+    const unlock = () => feedbackPlayer.unlock()
+    document.addEventListener('touchend', unlock)
+    document.addEventListener('click', unlock)
+    return () => {
+      document.removeEventListener('touchend', unlock)
+      document.removeEventListener('click', unlock)
+      feedbackPlayer.close()
     }
+  }, [feedbackPlayer])
 
-    const video = videoRef.current
-    const canvas = canvasRef.current
-    const ctx = canvas.getContext('2d')
-
-    if (!ctx || video.readyState !== video.HAVE_ENOUGH_DATA) {
-      if (isScanning) {
-        animationFrameRef.current = requestAnimationFrame(scanQRCodes)
+  // 別の端末から共有された一覧がそろったら結果に取り込む
+  useEffect(() => {
+    return shareImporter.onProgress(progress => {
+      setShareImport(progress)
+      if (progress.status !== 'completed') return
+      for (const item of progress.items) {
+        scanSession.addResult(item, { imported: true })
       }
-      return
-    }
+      logger.info('list_import', { id: progress.id, items: progress.items.length, codes: progress.total })
+    })
+  }, [shareImporter, scanSession])
 
-    // Canvas設定（解像度を下げてパフォーマンス向上）
-    canvas.width = Math.floor(video.videoWidth * CANVAS_SCALE)
-    canvas.height = Math.floor(video.videoHeight * CANVAS_SCALE)
+  useEffect(() => {
+    scanSession.setExpectedCodes(activeSession?.manifest ?? null)
+  }, [scanSession, activeSession?.manifest])
 
-    if (canvas.width === 0 || canvas.height === 0) {
-      console.warn('[QR-Scanner] Canvas size is 0')
-      if (isScanning) {
-        animationFrameRef.current = requestAnimationFrame(scanQRCodes)
-      }
-      return
-    }
+  useEffect(() => {
+    scanSession.setValidationRules(activeSession?.validation ?? DEFAULT_VALIDATION_RULES)
+  }, [scanSession, activeSession?.validation])
 
+  // 新しく検出した結果をサーバーへ転送
+  const activeSessionName = activeSession?.name
+  useEffect(() => {
+    if (!activeSessionId) return
+    return scanSession.onDetect(({ result, isNew }) => {
+      if (!isNew) return
+      forwardQueue.enqueue(activeSessionId, result, activeSessionName).catch(err => {
+        logger.error('forward_error', { action: 'enqueue', error: err })
+      })
+    })
+  }, [scanSession, forwardQueue, activeSessionId, activeSessionName])
 
-    // パフォーマンス測定（Safari対応）
-    const startTime = typeof performance !== 'undefined' && performance.now
-      ? performance.now()
-      : Date.now()
+  useEffect(() => {
+    forwardQueue.setConfig(forwardingConfig)
+  }, [forwardQueue, forwardingConfig])
 
-    // ガイド領域のみスキャンする場合の最適化
-    if (focusGuideOnly && videoWrapperRef.current) {
-      const guideRegion = calculateGuideSize(
-        videoWrapperRef.current.clientWidth,
-        videoWrapperRef.current.clientHeight
-      )
+  useEffect(() => {
+    forwardQueue.start()
+    return () => forwardQueue.stop()
+  }, [forwardQueue])
 
-      // ビデオ座標系に変換
-      const videoScale = {
-        x: video.videoWidth / videoWrapperRef.current.clientWidth,
-        y: video.videoHeight / videoWrapperRef.current.clientHeight
-      }
+  useEffect(() => {
+    return forwardQueue.onChange(delivery => {
+      if (delivery.sessionId !== activeSessionId) return
+      setDeliveries(prev => new Map(prev).set(delivery.resultId, delivery))
+    })
+  }, [forwardQueue, activeSessionId])
 
-      // ガイド領域のみを描画
-      ctx.drawImage(
-        video,
-        guideRegion.left * videoScale.x,
-        guideRegion.top * videoScale.y,
-        guideRegion.width * videoScale.x,
-        guideRegion.height * videoScale.y,
-        0, 0, canvas.width, canvas.height
-      )
-    } else {
-      // videoWrapperRefがない場合のフォールバックとログ
-      if (focusGuideOnly && !videoWrapperRef.current && isDevelopment) {
-        console.warn('[QR-Scanner] Guide-only mode requires videoWrapperRef')
-      }
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
-    }
+  const changeForwardingConfig = useCallback((config: ForwardingConfig) => {
+    setForwardingConfig(config)
+    saveForwardingConfig(config)
+  }, [])
 
-    try {
-      // ImageDataのサイズ検証
-      if (canvas.width <= 0 || canvas.height <= 0) {
-        if (isScanning) {
-          animationFrameRef.current = requestAnimationFrame(scanQRCodes)
-        }
-        return
-      }
+  const changeScanSettings = useCallback((settings: ScanSettings) => {
+    setScanSettings(settings)
+    saveScanSettings(settings)
+  }, [])
 
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  const changeGuideLayout = useCallback((layout: GuideLayout) => {
+    setGuideLayout(layout)
+    saveGuideLayout(layout)
+  }, [])
 
-      // 複数QRコード読み取り（タイムアウト付き）
-      const scanPromise = readBarcodes(imageData, {
-        formats: ['QRCode'],
-        maxNumberOfSymbols: 1,  // iPhone最適化: 2→1に削減
-        tryHarder: false        // true→falseで処理速度優先
-      })
+  const changeFeedbackSettings = useCallback((settings: FeedbackSettings) => {
+    setFeedbackSettings(settings)
+    saveFeedbackSettings(settings)
+  }, [])
 
-      // タイムアウト処理
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('readBarcodes timeout')), READBARCODES_TIMEOUT)
-      })
+  const testFeedback = useCallback((event: FeedbackEvent) => {
+    feedbackPlayer.unlock()
+    feedbackPlayer.play(event, feedbackSettings)
+  }, [feedbackPlayer, feedbackSettings])
 
-      const scanResults = await Promise.race([scanPromise, timeoutPromise]) as ReadResult[]
-
-      if (scanResults.length > 0) {
-        // ガイド領域の計算
-        const guideRegion = videoWrapperRef.current
-          ? calculateGuideSize(
-              videoWrapperRef.current.clientWidth,
-              videoWrapperRef.current.clientHeight
-            )
-          : null
-
-        // QRコードを領域内外で分類
-        const inGuideResults: ReadResult[] = []
-        const outGuideResults: ReadResult[] = []
-
-        scanResults.forEach((result: ReadResult) => {
-          if (guideRegion && result.position) {
-            // Calculate QR bounds in video coordinates
-            const videoScale = {
-              x: video.videoWidth / videoWrapperRef.current!.clientWidth,
-              y: video.videoHeight / videoWrapperRef.current!.clientHeight
-            }
-
-            // Get QR center position
-            const points = result.position
-            const centerX = (points.topLeft.x + points.topRight.x + points.bottomLeft.x + points.bottomRight.x) / 4
-            const centerY = (points.topLeft.y + points.topRight.y + points.bottomLeft.y + points.bottomRight.y) / 4
-
-            // Convert to display coordinates
-            const displayBounds = {
-              x: centerX / videoScale.x,
-              y: centerY / videoScale.y,
-              width: Math.abs(points.topRight.x - points.topLeft.x) / videoScale.x,
-              height: Math.abs(points.bottomLeft.y - points.topLeft.y) / videoScale.y
-            }
-
-            if (isQRInGuide(displayBounds, guideRegion)) {
-              inGuideResults.push(result)
-            } else {
-              outGuideResults.push(result)
-            }
-          } else {
-            outGuideResults.push(result)
-          }
-        })
+  const resetDecodeStats = useCallback(() => {
+    decoderRef.current?.resetStats()
+    setDecodeStats(null)
+  }, [])
 
-        // 領域内を優先して処理
-        const now = Date.now()
-        let hasNewDetection = false
-
-        if (inGuideResults.length > 0) {
-          // 新規検出があるかチェック
-          console.log('[DEBUG] ガイド内QR検出:', inGuideResults.length, '個')
-          for (const result of inGuideResults) {
-            console.log('[DEBUG] QRコード内容:', result.text.substring(0, 50))
-            const added = addQRCode(result.text)
-            console.log('[DEBUG] addQRCode結果:', added ? '追加成功' : 'クールダウン中')
-            if (added) {
-              hasNewDetection = true
-            }
-          }
-
-          if (hasNewDetection) {
-            console.log('[DEBUG] 新規検出あり - success状態へ')
-            setGuideState('success')
-            setTimeout(() => setGuideState('scanning'), 300)
-            setLastScanTime(now)
-
-            // 成功時はスキャン間隔を長くする
-            setScanInterval(SCAN_INTERVAL_MAX)
-            setTimeout(() => setScanInterval(SCAN_INTERVAL_DEFAULT), 2000) // 2秒後に戻す
-          } else {
-            console.log('[DEBUG] 新規検出なし（全てクールダウン中）')
-          }
-        } else if (outGuideResults.length > 0 && now - lastScanTime > 1000) {
-          // 領域外は1秒のクールダウン後に処理
-          console.log('[DEBUG] ガイド外QR検出:', outGuideResults.length, '個')
-          for (const result of outGuideResults) {
-            addQRCode(result.text)
-          }
-        } else if (outGuideResults.length > 0) {
-        }
+  const retryDelivery = useCallback((delivery: Delivery) => {
+    forwardQueue.retry(delivery).catch(err => {
+      logger.error('forward_error', { action: 'retry', error: err })
+    })
+  }, [forwardQueue])
 
-        console.log('[QR-Scanner]', {
-          timestamp: new Date().toISOString(),
-          event: 'scan_result',
-          inGuide: inGuideResults.length,
-          outGuide: outGuideResults.length,
-          data: scanResults.map(r => r.text.substring(0, 30))
-        })
-      } else {
-        // QRコードが見つからない場合
-        if (guideState === 'success') {
-          setGuideState('scanning')
-        }
-      }
-    } catch (err) {
-      console.error('[QR-Scanner] Scan error:', err)
-      const errorMsg = err instanceof Error ? err.message : String(err)
-
-      // タイムアウトエラーの場合は特別な処理
-      if (err instanceof Error && err.message === 'readBarcodes timeout') {
-        console.warn('[QR-Scanner] readBarcodes timeout - モジュール初期化を確認')
-        // タイムアウトの場合はエラー状態にしない
-      } else {
-        console.error('[QR-Scanner] 予期しないエラー:', errorMsg)
-        setGuideState('error')
-        setTimeout(() => setGuideState('scanning'), 1000)
-      }
+  const retryFailedDeliveries = useCallback(() => {
+    for (const delivery of deliveries.values()) {
+      if (delivery.status === 'failed') retryDelivery(delivery)
     }
+  }, [deliveries, retryDelivery])
 
-    // パフォーマンス計測（Safari対応）
-    const endTime = typeof performance !== 'undefined' && performance.now
-      ? performance.now()
-      : Date.now()
-    const processingTime = endTime - startTime
-
-    // FPS計算
-    performanceRef.current.frameCount++
-    if (endTime - performanceRef.current.lastFrameTime > 1000) {
-      if (isDevelopment) {
-        console.log('[QR-Scanner Performance]', {
-          fps: performanceRef.current.frameCount,
-          avgProcessingTime: `${processingTime.toFixed(2)}ms`,
-          scanInterval: `${scanInterval}ms`
-        })
+  // フレームごとの計測（診断パネルとdebugログ用）
+  useEffect(() => {
+    let lastLogTime = 0
+    return scanSession.onFrame(outcome => {
+      const now = performance.now()
+      frameMetrics.record(outcome, now)
+      if (now - lastLogTime > 1000) {
+        logger.debug('performance', { ...frameMetrics.snapshot(now, scanSession.scanInterval) })
+        lastLogTime = now
       }
-      performanceRef.current.frameCount = 0
-      performanceRef.current.lastFrameTime = endTime
-    }
+    })
+  }, [scanSession, frameMetrics])
+
+  const getDiagnosticsMetrics = useCallback(
+    () => frameMetrics.snapshot(performance.now(), scanSession.scanInterval),
+    [frameMetrics, scanSession]
+  )
 
-    // 処理時間に応じて動的にスキャン間隔を調整
-    if (processingTime > 100) {
-      setScanInterval(prev => Math.min(prev + 50, SCAN_INTERVAL_MAX))
-    } else if (processingTime < 50) {
-      setScanInterval(prev => Math.max(prev - 25, SCAN_INTERVAL_MIN))
+  // フッターを続けてタップすると診断パネルを表示（現場での不具合調査用）
+  const tapFooter = useCallback(() => {
+    const now = Date.now()
+    const taps = footerTapsRef.current.filter(time => now - time < DIAGNOSTICS_TAP_WINDOW)
+    taps.push(now)
+    footerTapsRef.current = taps
+    if (taps.length >= DIAGNOSTICS_TAP_COUNT) {
+      footerTapsRef.current = []
+      setDiagnosticsVisible(true)
+      saveDiagnosticsVisible(true)
     }
+  }, [])
+
+  const closeDiagnostics = useCallback(() => {
+    setDiagnosticsVisible(false)
+    saveDiagnosticsVisible(false)
+  }, [])
+
+  // 画像ファイルからのデコード（ラベルシートの写真・スクリーンショット）
+  const decodeImageFiles = useCallback(async (files: File[]) => {
+    const decoder = decoderRef.current
+    if (!decoder) return 0
 
-    if (isScanning) {
-      // 動的スキャン間隔を使用
-      setTimeout(() => {
-        if (isScanning) {
-          animationFrameRef.current = requestAnimationFrame(scanQRCodes)
+    let detected = 0
+    for (const file of files) {
+      try {
+        const results = (await decoder.decodeFile(file, {
+          formats: getFormatPreset(formatPreset).formats,
+          maxNumberOfSymbols: IMAGE_FILE_MAX_SYMBOLS,
+          tryHarder: true
+        }, IMAGE_FILE_TIMEOUT)).filter(result => !shareImporter.receive(result.text))
+
+        for (const result of results) {
+          scanSession.addResult(result, { sourceFile: file.name })
+        }
+        if (sheetMode && results.length > 0) {
+          setSheet(arrangeSheet(results.map(result => ({
+            text: result.text,
+            format: result.format,
+            points: positionToPoints(result.position)
+          }))))
         }
-      }, scanInterval)
+        detected += results.length
+      } catch (err) {
+        logger.error('image_decode_error', { file: file.name, error: err })
+      }
     }
-  }, [isInitialized, isScanning, addQRCode, guideState, lastScanTime, scanInterval, focusGuideOnly, recentScans])
+    return detected
+  }, [scanSession, formatPreset, sheetMode, shareImporter])
+
+  // ビデオの現在フレームをCanvasに描画し、デコード用の入力を作る
+  const captureFrame = useCallback(() => captureVideoFrame({
+    video: videoRef.current,
+    canvas: canvasRef.current,
+    container: videoWrapperRef.current,
+    focusGuideOnly: focusGuideOnlyRef.current,
+    scale: toDecodePlan(scanSettingsRef.current).captureScale,
+    guideLayout: guideLayoutRef.current
+  }), [])
 
   // スキャン開始
   const startScanning = useCallback(async () => {
@@ -489,103 +614,251 @@ function App() {
       // カメラ権限チェック
       const permission = await checkCameraPermission()
       if (permission === 'denied') {
-        setError('カメラのアクセス許可が拒否されています。ブラウザの設定から許可してください。')
+        setError(messages.errors.cameraPermissionDenied)
         return
       }
 
       // カメラストリーム取得
-      const stream = await requestCameraWithRetry()
+      const stream = await requestCameraWithRetry(cameraPreferences)
       if (!stream) {
-        throw new Error('カメラストリームの取得に失敗しました')
-      }
-      streamRef.current = stream
-
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream
-        await videoRef.current.play()
+        throw new Error(messages.errors.cameraStreamFailed)
       }
+      await attachStream(stream)
 
       setIsScanning(true)
-      setGuideState('scanning')
-      if (isDevelopment) {
-        console.log('[QR-Scanner] Starting scan loop')
-      }
+      logger.info('scan_start')
 
       // 少し遅延してからスキャン開始
-      setTimeout(() => {
-        scanQRCodes()
-      }, 500)
+      startScanLoop(captureFrame, 500)
     } catch (err) {
-      if (isDevelopment) {
-        console.error('[QR-Scanner] Start error:', err)
-      }
+      logger.error('camera_error', { action: 'start', error: err })
       setIsScanning(false)
     }
-  }, [checkCameraPermission, requestCameraWithRetry, scanQRCodes])
+  }, [checkCameraPermission, requestCameraWithRetry, attachStream, cameraPreferences, startScanLoop, captureFrame, messages])
 
   // スキャン停止（狩猟モード）
   const stopScanning = useCallback(() => {
     setIsScanning(false)
-    setGuideState('waiting')
-
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current)
-      animationFrameRef.current = null
-    }
+    stopScanLoop()
+    setTrackFeatures(null)
+    setTorchOn(false)
 
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop())
       streamRef.current = null
     }
 
+    if (releaseReplayRef.current) {
+      releaseReplayRef.current()
+      releaseReplayRef.current = null
+      setReplayFileName(null)
+    }
+
     if (videoRef.current) {
       videoRef.current.srcObject = null
     }
 
-    if (isDevelopment) {
-      console.log('[QR-Scanner]', {
-        timestamp: new Date().toISOString(),
-        event: 'scan_stop (hunting mode)'
-      })
+    logger.info('scan_stop')
+  }, [stopScanLoop])
+
+  // 動画ファイルをカメラの代わりに再生し、同じスキャンループで読み取る
+  const startVideoReplay = useCallback(async (file: File) => {
+    const video = videoRef.current
+    if (!video) return
+    stopScanning()
+    setError(null)
+
+    try {
+      releaseReplayRef.current = await loadVideo(video, file)
+    } catch (err) {
+      logger.error('video_replay', { action: 'open', file: file.name, error: err })
+      setError(messages.errors.videoLoadFailed)
+      return
     }
-  }, [])
+    setReplayFileName(file.name)
+    setIsScanning(true)
+    logger.info('video_replay', {
+      action: 'open',
+      file: file.name,
+      duration: video.duration,
+      width: video.videoWidth,
+      height: video.videoHeight
+    })
 
-  // リストリセット
-  const resetList = useCallback(() => {
-    setUniqueResults(new Map())
-    setRecentScans(new Map())
-    if (isDevelopment) {
-      console.log('[QR-Scanner] List reset')
+    startScanLoop(captureFrame)
+    video.play().catch(err => {
+      logger.error('video_replay', { action: 'play', error: err })
+    })
+  }, [stopScanning, startScanLoop, captureFrame, messages])
+
+  // 再生中の動画を先頭から1フレームずつデコードする（その間はスキャンループを止める）
+  const scanAllVideoFrames = useCallback(async (options: VideoScanOptions) => {
+    const video = videoRef.current
+    const decoder = decoderRef.current
+    if (!video || !decoder || !replayFileName) {
+      throw new Error('No video file is loaded')
     }
-  }, [])
 
-  // クリーンアップとメモリ管理
-  useEffect(() => {
-    // 定期的なメモリクリーンアップ
-    const cleanupInterval = setInterval(() => {
-      const now = Date.now()
-
-      // 古いスキャン履歴を削除
-      setRecentScans(prev => {
-        const newMap = new Map()
-        for (const [key, time] of prev.entries()) {
-          if (now - time < SCAN_HISTORY_TTL) { // TTL以内のものだけ保持
-            newMap.set(key, time)
-          }
+    const readerOptions = {
+      formats: getFormatPreset(formatPreset).formats,
+      maxNumberOfSymbols: IMAGE_FILE_MAX_SYMBOLS,
+      tryHarder: true
+    }
+    stopScanLoop()
+    try {
+      const report = await scanVideoFrames(video, document.createElement('canvas'), replayFileName, async image => {
+        for (;;) {
+          const reads = await decoder.decode(image, readerOptions)
+          if (reads !== null) return reads
+          // スキャンループの最後のフレームがまだ処理中
+          await new Promise(resolve => setTimeout(resolve, 50))
         }
-        return newMap
+      }, options)
+      logger.info('video_replay', {
+        action: 'scanAllFrames',
+        file: replayFileName,
+        frames: report.frames,
+        framesWithCodes: report.framesWithCodes,
+        codes: report.codes.length,
+        timeouts: report.timeouts
       })
+      return report
+    } finally {
+      // 解析中に停止された場合は再開しない
+      if (releaseReplayRef.current) startScanLoop(captureFrame)
+    }
+  }, [replayFileName, formatPreset, stopScanLoop, startScanLoop, captureFrame])
+
+  // セッションの結果を読み込んで表示を切り替え
+  const activateSession = useCallback(async (session: SavedSession) => {
+    const results = toResultMap(await loadResults(session.id))
+    const sessionDeliveries = await loadDeliveries(session.id)
+    persistedResultsRef.current = results
+    // 保存時と異なるキーの結果（旧形式のキーなど）は読み込み時に付け直される
+    scanSession.setDedupePolicy(session.dedupePolicy ?? DEFAULT_DEDUPE_POLICY)
+    loadScanResults(results.values())
+    setDeliveries(new Map(sessionDeliveries.map(delivery => [delivery.resultId, delivery])))
+    setActiveSessionId(session.id)
+    persistActiveSessionId(session.id)
+  }, [scanSession, loadScanResults])
+
+  // 起動時に前回のセッションを復元
+  useEffect(() => {
+    // StrictModeの二重実行で初期セッションが重複作成されないようにする
+    if (sessionsRestoredRef.current) return
+    sessionsRestoredRef.current = true
+
+    const restoreSessions = async () => {
+      try {
+        let saved = await listSessions()
+        if (saved.length === 0) {
+          saved = [await createSession(defaultSessionName(i18nRef.current))]
+        }
+        setSessions(saved)
 
-      if (isDevelopment) {
-        console.log('[QR-Scanner] Memory cleanup performed')
+        const lastId = getActiveSessionId()
+        const target = saved.find(session => session.id === lastId) ?? saved[0]
+        await activateSession(target)
+      } catch (err) {
+        logger.error('session_restore', { error: err })
+        setError(i18nRef.current.messages.errors.restoreFailed)
       }
-    }, MEMORY_CLEANUP_INTERVAL)
+    }
+
+    restoreSessions()
+  }, [activateSession])
+
+  // 変更された結果のみIndexedDBへ書き込む
+  useEffect(() => {
+    if (!activeSessionId) return
+
+    const persisted = persistedResultsRef.current
+    const changed = Array.from(uniqueResults.values())
+      .filter(result => persisted.get(result.id) !== result)
+    persistedResultsRef.current = uniqueResults
+
+    // 重複判定ルールの変更でキーが付け直された場合は全件を書き直す
+    const rekeyed = Array.from(persisted.keys()).some(id => !uniqueResults.has(id))
+    const save = rekeyed
+      ? clearResults(activeSessionId).then(() => saveResults(activeSessionId, Array.from(uniqueResults.values())))
+      : saveResults(activeSessionId, changed)
 
+    save.catch(err => {
+      logger.error('storage_error', { action: 'save', error: err })
+    })
+  }, [uniqueResults, activeSessionId])
+
+  const selectSession = useCallback((sessionId: string) => {
+    const session = sessions.find(session => session.id === sessionId)
+    if (!session) return
+    activateSession(session).catch(err => {
+      logger.error('storage_error', { action: 'load', error: err })
+    })
+  }, [sessions, activateSession])
+
+  const createNewSession = useCallback(async () => {
+    const session = await createSession(defaultSessionName(i18n))
+    setSessions(prev => [session, ...prev])
+    await activateSession(session)
+  }, [activateSession, i18n])
+
+  const renameActiveSession = useCallback(async (sessionId: string, name: string) => {
+    await renameSession(sessionId, name)
+    setSessions(prev => prev.map(session =>
+      session.id === sessionId ? { ...session, name } : session
+    ))
+  }, [])
+
+  const setSessionManifest = useCallback(async (manifest: string[] | undefined) => {
+    if (!activeSessionId) return
+    await updateSession(activeSessionId, { manifest })
+    setSessions(prev => prev.map(session =>
+      session.id === activeSessionId ? { ...session, manifest } : session
+    ))
+  }, [activeSessionId])
+
+  const setSessionDedupePolicy = useCallback(async (dedupePolicy: DedupePolicy) => {
+    if (!activeSessionId) return
+    applyDedupePolicy(dedupePolicy)
+    await updateSession(activeSessionId, { dedupePolicy })
+    setSessions(prev => prev.map(session =>
+      session.id === activeSessionId ? { ...session, dedupePolicy } : session
+    ))
+  }, [activeSessionId, applyDedupePolicy])
+
+  const setSessionValidationRules = useCallback(async (validation: ValidationRules) => {
+    if (!activeSessionId) return
+    await updateSession(activeSessionId, { validation })
+    setSessions(prev => prev.map(session =>
+      session.id === activeSessionId ? { ...session, validation } : session
+    ))
+  }, [activeSessionId])
+
+  const deleteActiveSession = useCallback(async (sessionId: string) => {
+    await deleteSession(sessionId)
+    let remaining = sessions.filter(session => session.id !== sessionId)
+    if (remaining.length === 0) {
+      remaining = [await createSession(defaultSessionName(i18n))]
+    }
+    setSessions(remaining)
+    await activateSession(remaining[0])
+  }, [sessions, activateSession, i18n])
+
+  // リストリセット（現在のセッションの結果を削除）
+  const resetList = useCallback(() => {
+    persistedResultsRef.current = new Map()
+    resetScanResults()
+    if (activeSessionId) {
+      clearResults(activeSessionId).catch(err => {
+        logger.error('storage_error', { action: 'clear', error: err })
+      })
+    }
+    logger.info('list_reset')
+  }, [activeSessionId, resetScanResults])
+
+  // アンマウント時にカメラを解放
+  useEffect(() => {
     return () => {
-      clearInterval(cleanupInterval)
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current)
-      }
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop())
       }
@@ -595,30 +868,29 @@ function App() {
   // HTTPS警告
   useEffect(() => {
     if (window.location.protocol !== 'https:' && window.location.hostname !== 'localhost') {
-      setError('HTTPS接続が必要です。カメラAPIを使用するにはHTTPS経由でアクセスしてください。')
+      setError(i18nRef.current.messages.errors.httpsRequired)
     }
   }, [])
 
-  // スキャン状態が変更されたらスキャンループを開始
-  useEffect(() => {
-    if (isScanning && isInitialized) {
-      scanQRCodes()
-    }
-  }, [isScanning, isInitialized, scanQRCodes])
-
   // リストをArrayに変換
   const resultsList = Array.from(uniqueResults.values()).sort((a, b) =>
     b.lastSeen.getTime() - a.lastSeen.getTime()
   )
+  const displayedResults = resultsList.slice(0, scanSettings.maxDisplayedResults)
+  const isMultiSlot = guideLayout.rows * guideLayout.columns > 1
+  const deliveryList = Array.from(deliveries.values())
+  const pendingDeliveryCount = deliveryList.filter(delivery => delivery.status === 'pending').length
+  const failedDeliveryCount = deliveryList.filter(delivery => delivery.status === 'failed').length
 
   return (
     <div className="app">
       <div className="header">
-        <h1>QRコードスキャナー</h1>
+        <h1>{messages.app.title}</h1>
         <p className="subtitle">
-          {isScanning ? 'スキャン中' : 'スキャン停止中'} |
-          収集済み: {uniqueResults.size}個
+          {isScanning ? messages.app.scanning : messages.app.stopped} |
+          {' '}{messages.app.collected(uniqueResults.size)}
         </p>
+        <LocaleSwitcher />
       </div>
 
       {error && (
@@ -627,14 +899,26 @@ function App() {
         </div>
       )}
 
+      <UpdatePrompt />
+
       {permissionStatus === 'denied' && (
         <div className="permission-denied">
-          <p>カメラへのアクセスが拒否されています</p>
-          <p>ブラウザの設定からカメラの権限を許可してください</p>
+          <p>{messages.app.permissionDenied}</p>
+          <p>{messages.app.permissionHint}</p>
         </div>
       )}
 
       <div className="scanner-container">
+        <SessionBar
+          sessions={sessions}
+          activeSessionId={activeSessionId}
+          disabled={isScanning}
+          onSelect={selectSession}
+          onCreate={createNewSession}
+          onRename={renameActiveSession}
+          onDelete={deleteActiveSession}
+        />
+
         <div className="video-wrapper" ref={videoWrapperRef}>
           <video
             ref={videoRef}
@@ -648,21 +932,60 @@ function App() {
           {!isScanning && !streamRef.current && (
             <div className="placeholder">
               <div className="placeholder-icon">📷</div>
-              <p>「開始」をタップしてスキャンを開始</p>
+              <p>{messages.app.placeholder}</p>
             </div>
           )}
 
           {isScanning && (
             <>
-              <GuideFrame state={guideState} containerRef={videoWrapperRef} />
+              <GuideFrame
+                state={guideState}
+                containerRef={videoWrapperRef}
+                layout={guideLayout}
+                filledSlots={detections.flatMap(detection => (detection.slot !== null ? [detection.slot] : []))}
+              />
+              <DetectionOverlay
+                detections={detections.map(detection => ({
+                  points: detection.points,
+                  text: detection.read.text,
+                  state: detection.state,
+                  slot: isMultiSlot ? detection.slot : null
+                }))}
+                containerRef={videoWrapperRef}
+              />
               <div className="scanning-indicator">
                 <span className="scanning-dot"></span>
-                <span>スキャン中...</span>
+                <span>{messages.app.scanningIndicator}</span>
               </div>
             </>
           )}
         </div>
 
+        <CameraControls
+          cameras={cameras}
+          preferences={cameraPreferences}
+          features={isScanning ? trackFeatures : null}
+          torchOn={torchOn}
+          zoom={zoom}
+          onPreferencesChange={changeCameraPreferences}
+          onTorchChange={changeTorch}
+          onZoomChange={changeZoom}
+        />
+
+        <FormatSelector value={formatPreset} onChange={setFormatPreset} />
+
+        <GuideLayoutSelector value={guideLayout} onChange={changeGuideLayout} />
+
+        <ImageDropZone disabled={!isInitialized} onFiles={decodeImageFiles} />
+
+        <VideoReplayPanel
+          videoRef={videoRef}
+          fileName={replayFileName}
+          disabled={!isInitialized}
+          onOpen={startVideoReplay}
+          onScanAllFrames={scanAllVideoFrames}
+        />
+
         <div className="controls">
           {!isScanning ? (
             <button
@@ -670,14 +993,14 @@ function App() {
               disabled={!isInitialized}
               className="scan-button start"
             >
-              {!isInitialized ? '初期化中...' : '開始'}
+              {!isInitialized ? messages.app.initializing : messages.app.start}
             </button>
           ) : (
             <button
               onClick={stopScanning}
               className="scan-button hunting"
             >
-              停止
+              {messages.app.stop}
             </button>
           )}
 
@@ -686,48 +1009,145 @@ function App() {
             className="scan-button reset"
             disabled={uniqueResults.size === 0}
           >
-            リセット
+            {messages.app.reset}
           </button>
 
           <button
             onClick={() => setFocusGuideOnly(!focusGuideOnly)}
             className={`scan-button ${focusGuideOnly ? 'guide-only' : 'full-scan'}`}
-            title="ガイド領域のみスキャン/全画面スキャン切り替え"
+            title={messages.app.guideOnlyToggle}
           >
-            {focusGuideOnly ? 'ガイドのみ' : '全画面'}
+            {focusGuideOnly ? messages.app.guideOnly : messages.app.fullScreen}
           </button>
         </div>
 
+        <DedupePolicyPanel
+          key={`dedupe-${activeSessionId}`} // セッション切り替え時は編集中の内容を破棄
+          policy={activeSession?.dedupePolicy ?? DEFAULT_DEDUPE_POLICY}
+          hasResults={resultsList.length > 0}
+          onApply={setSessionDedupePolicy}
+        />
+
+        <ValidationPanel
+          key={`validation-${activeSessionId}`} // セッション切り替え時は編集中の内容を破棄
+          rules={activeSession?.validation ?? DEFAULT_VALIDATION_RULES}
+          onApply={setSessionValidationRules}
+        />
+
+        <SettingsPanel
+          settings={scanSettings}
+          stats={decodeStats}
+          onApply={changeScanSettings}
+          onResetStats={resetDecodeStats}
+        />
+
+        <FeedbackPanel
+          settings={feedbackSettings}
+          onChange={changeFeedbackSettings}
+          onTest={testFeedback}
+        />
+
+        {diagnosticsVisible && (
+          <DiagnosticsPanel
+            getMetrics={getDiagnosticsMetrics}
+            context={{
+              isScanning,
+              locale: i18n.locale,
+              scanSettings,
+              cameraPreferences,
+              formatPreset,
+              guideLayout,
+              focusGuideOnly,
+              sheetMode,
+              resultCount: uniqueResults.size
+            }}
+            onClose={closeDiagnostics}
+          />
+        )}
+
+        <SheetPanel
+          enabled={sheetMode}
+          sheet={sheet}
+          sessionName={activeSession?.name}
+          onToggle={setSheetMode}
+          onClear={() => setSheet(null)}
+        />
+
+        <ForwardingPanel
+          config={forwardingConfig}
+          pendingCount={pendingDeliveryCount}
+          failedCount={failedDeliveryCount}
+          onChange={changeForwardingConfig}
+          onRetryFailed={retryFailedDeliveries}
+        />
+
+        <ManifestPanel
+          manifest={activeSession?.manifest}
+          results={resultsList}
+          policy={activeSession?.dedupePolicy ?? DEFAULT_DEDUPE_POLICY}
+          sessionName={activeSession?.name}
+          onLoad={setSessionManifest}
+          onClear={() => setSessionManifest(undefined)}
+        />
+
+        <ShareListPanel
+          results={resultsList}
+          importProgress={shareImport}
+          onClearImport={() => setShareImport(null)}
+        />
+
         {resultsList.length > 0 && (
           <div className="results">
-            <h2>収集したQRコード（{resultsList.length}個）</h2>
+            <h2>{messages.app.resultsTitle(resultsList.length)}</h2>
+            <ExportMenu results={resultsList} sessionName={activeSession?.name} />
             <div className="results-list">
-              {resultsList.map((result) => (
+              {displayedResults.map((result, index) => (
                 <div key={result.id} className="result-item">
                   <div className="result-header">
                     <span className="result-index">
-                      QR #{resultsList.indexOf(result) + 1}
+                      {formatLabel(result.format)} #{index + 1}
                     </span>
                     {result.count > 1 && (
                       <span className="result-count">×{result.count}</span>
                     )}
+                    <DeliveryBadge
+                      delivery={deliveries.get(result.id)}
+                      onRetry={retryDelivery}
+                    />
                     <span className="result-time">
-                      {result.lastSeen.toLocaleTimeString()}
+                      {formatScanTime(result.lastSeen)}
                     </span>
                   </div>
-                  <div className="result-content">{result.text}</div>
+                  <PayloadCard text={result.text} />
+                  <ResultDetail result={result} />
+                  <GeneratedCode text={result.text} format={result.format} />
+                  {result.identity !== undefined && (
+                    <div className="result-source">🔑 {result.identity}</div>
+                  )}
+                  {result.sourceFile && (
+                    <div className="result-source">📄 {result.sourceFile}</div>
+                  )}
                 </div>
               ))}
             </div>
+            {resultsList.length > displayedResults.length && (
+              <p className="results-more">
+                {messages.app.moreResults(resultsList.length - displayedResults.length)}
+              </p>
+            )}
           </div>
         )}
+
+        {rejectedScans.length > 0 && (
+          <RejectedResults rejected={rejectedScans} onClear={clearRejected} />
+        )}
       </div>
 
       <div className="footer">
-        <div className="status">
+        <div className="status" onClick={tapFooter}>
           <span className={`status-dot ${isInitialized ? 'ready' : 'loading'}`}></span>
           <span>
-            {isInitialized ? '準備完了' : '初期化中'} |
+            {isInitialized ? messages.app.ready : messages.app.loading} |
             {isIOS ? ' iOS' : ''} {isSafari ? ' Safari' : ''}
           </span>
         </div>
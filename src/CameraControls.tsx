@@ -0,0 +1,91 @@
+import {
+  RESOLUTION_PRESETS,
+  type CameraPreferences,
+  type ResolutionId,
+  type TrackFeatures
+} from './cameraControls'
+import { useI18n } from './i18n'
+import './CameraControls.css'
+
+interface CameraControlsProps {
+  cameras: MediaDeviceInfo[]
+  preferences: CameraPreferences
+  features: TrackFeatures | null // スキャン中のトラックで使える機能
+  torchOn: boolean
+  zoom: number | null
+  onPreferencesChange: (preferences: CameraPreferences) => void
+  onTorchChange: (enabled: boolean) => void
+  onZoomChange: (zoom: number) => void
+}
+
+function CameraControls({
+  cameras,
+  preferences,
+  features,
+  torchOn,
+  zoom,
+  onPreferencesChange,
+  onTorchChange,
+  onZoomChange
+}: CameraControlsProps) {
+  const { messages } = useI18n()
+
+  return (
+    <div className="camera-controls">
+      <label className="camera-control">
+        <span>{messages.camera.camera}</span>
+        <select
+          value={preferences.deviceId ?? ''}
+          onChange={(e) => onPreferencesChange({ ...preferences, deviceId: e.target.value || null })}
+        >
+          <option value="">{messages.camera.rearAuto}</option>
+          {cameras.map((camera, index) => (
+            <option key={camera.deviceId} value={camera.deviceId}>
+              {camera.label || messages.camera.cameraNumber(index + 1)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="camera-control">
+        <span>{messages.camera.resolution}</span>
+        <select
+          value={preferences.resolution}
+          onChange={(e) => onPreferencesChange({ ...preferences, resolution: e.target.value as ResolutionId })}
+        >
+          {RESOLUTION_PRESETS.map(preset => (
+            <option key={preset.id} value={preset.id}>
+              {messages.camera.resolutions[preset.id]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {features?.torch && (
+        <button
+          className={`camera-torch ${torchOn ? 'on' : ''}`}
+          onClick={() => onTorchChange(!torchOn)}
+          aria-pressed={torchOn}
+        >
+          {torchOn ? messages.camera.torchOn : messages.camera.torchOff}
+        </button>
+      )}
+
+      {features?.zoom && zoom !== null && (
+        <label className="camera-control camera-zoom">
+          <span>{messages.camera.zoom(zoom.toFixed(1))}</span>
+          <input
+            type="range"
+            min={features.zoom.min}
+            max={features.zoom.max}
+            step={features.zoom.step}
+            value={zoom}
+            onChange={(e) => onZoomChange(Number(e.target.value))}
+          />
+        </label>
+      )}
+    </div>
+  )
+}
+
+export default CameraControls
@@ -0,0 +1,112 @@
+import { useState } from 'react'
+import {
+  compileCapturePattern,
+  DEFAULT_DEDUPE_POLICY,
+  normalizeForDedupe,
+  type DedupePolicy
+} from './dedupeKey'
+import { useI18n } from './i18n'
+import type { Messages } from './messages'
+import './DedupePolicyPanel.css'
+
+interface DedupePolicyPanelProps {
+  policy: DedupePolicy
+  hasResults: boolean
+  onApply: (policy: DedupePolicy) => void
+}
+
+type RuleKey = keyof Messages['dedupe']['rules']
+
+const RULE_KEYS: RuleKey[] = ['trim', 'collapseWhitespace', 'caseFold', 'stripUrlQuery', 'stripUrlFragment']
+
+// 画面表示用のポリシー説明
+function describeDedupePolicy(policy: DedupePolicy, messages: Messages['dedupe']): string {
+  const rules = RULE_KEYS.filter(key => policy[key]).map(key => messages.rules[key])
+  if (policy.capturePattern) rules.push(messages.capture(policy.capturePattern, policy.captureGroup))
+  return rules.length > 0 ? rules.join(messages.separator) : messages.exactMatch
+}
+
+function DedupePolicyPanel({ policy, hasResults, onApply }: DedupePolicyPanelProps) {
+  const [draft, setDraft] = useState<DedupePolicy>(policy)
+  const [sample, setSample] = useState('')
+  const { messages } = useI18n()
+
+  const pattern = compileCapturePattern(draft.capturePattern)
+  const patternError = typeof pattern === 'string' ? pattern : null
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(policy)
+
+  const apply = () => {
+    // 既存の結果は新しいルールで統合されるため、元に戻せないことを確認する
+    if (hasResults && !window.confirm(messages.dedupe.applyConfirm)) {
+      return
+    }
+    onApply(draft)
+  }
+
+  return (
+    <details className="dedupe-panel">
+      <summary>
+        {messages.dedupe.title}: <span className="dedupe-summary">{describeDedupePolicy(policy, messages.dedupe)}</span>
+      </summary>
+
+      <div className="dedupe-rules">
+        {RULE_KEYS.map(key => (
+          <label key={key} className="dedupe-rule">
+            <input
+              type="checkbox"
+              checked={draft[key]}
+              onChange={(e) => setDraft({ ...draft, [key]: e.target.checked })}
+            />
+            {messages.dedupe.rules[key]}
+          </label>
+        ))}
+
+        <label className="dedupe-field">
+          <span>{messages.dedupe.pattern}</span>
+          <input
+            type="text"
+            value={draft.capturePattern}
+            onChange={(e) => setDraft({ ...draft, capturePattern: e.target.value })}
+            placeholder={messages.dedupe.patternPlaceholder}
+            spellCheck={false}
+          />
+        </label>
+        <label className="dedupe-field dedupe-field--narrow">
+          <span>{messages.dedupe.group}</span>
+          <input
+            type="number"
+            min={0}
+            value={draft.captureGroup}
+            onChange={(e) => setDraft({ ...draft, captureGroup: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+          />
+        </label>
+        {patternError && <p className="dedupe-error">{messages.dedupe.invalidPattern(patternError)}</p>}
+
+        <label className="dedupe-field">
+          <span>{messages.dedupe.sample}</span>
+          <input
+            type="text"
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            placeholder={messages.dedupe.samplePlaceholder}
+            spellCheck={false}
+          />
+        </label>
+        {sample && !patternError && (
+          <p className="dedupe-preview">{messages.dedupe.identity}: <code>{normalizeForDedupe(sample, draft)}</code></p>
+        )}
+      </div>
+
+      <div className="dedupe-actions">
+        <button className="dedupe-button" onClick={() => setDraft(DEFAULT_DEDUPE_POLICY)}>
+          {messages.dedupe.resetToExact}
+        </button>
+        <button className="dedupe-button primary" onClick={apply} disabled={!isDirty || patternError !== null}>
+          {messages.dedupe.apply}
+        </button>
+      </div>
+    </details>
+  )
+}
+
+export default DedupePolicyPanel
@@ -0,0 +1,31 @@
+import type { Delivery } from './types'
+import { useI18n } from './i18n'
+
+interface DeliveryBadgeProps {
+  delivery: Delivery | undefined
+  onRetry: (delivery: Delivery) => void
+}
+
+// 結果ごとのサーバー送信状況
+function DeliveryBadge({ delivery, onRetry }: DeliveryBadgeProps) {
+  const { messages, formatDateTime } = useI18n()
+  if (!delivery) return null
+
+  if (delivery.status === 'failed') {
+    return (
+      <button
+        className="result-delivery failed"
+        onClick={() => onRetry(delivery)}
+        title={`${delivery.lastError ?? ''}${messages.delivery.retryHint}`}
+      >
+        {messages.delivery.failed}
+      </button>
+    )
+  }
+
+  return delivery.status === 'sent'
+    ? <span className="result-delivery sent" title={delivery.sentAt && formatDateTime(delivery.sentAt)}>{messages.delivery.sent}</span>
+    : <span className="result-delivery pending" title={delivery.lastError}>{messages.delivery.pending}</span>
+}
+
+export default DeliveryBadge
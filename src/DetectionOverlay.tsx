@@ -0,0 +1,88 @@
+import { useEffect, useRef } from 'react'
+import type { Point } from 'zxing-wasm/reader'
+import type { DetectionState } from './scanSession'
+import './DetectionOverlay.css'
+
+export interface OverlayDetection {
+  points: Point[] // 表示座標の四隅
+  text: string
+  state: DetectionState
+  slot?: number | null // 複数枠のガイドで検出した枠の番号
+}
+
+interface DetectionOverlayProps {
+  detections: OverlayDetection[]
+  containerRef: React.RefObject<HTMLDivElement | null>
+}
+
+const STATE_COLORS: Record<DetectionState, string> = {
+  new: '#4caf50',
+  cooldown: '#ff9800',
+  outside: 'rgba(255, 255, 255, 0.6)',
+  rejected: '#f44336'
+}
+
+const LABEL_MAX_LENGTH = 24
+
+function DetectionOverlay({ detections, containerRef }: DetectionOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const container = containerRef.current
+    if (!canvas || !container) return
+
+    // 高DPI端末でもぼやけないようにピクセル比を反映
+    const dpr = window.devicePixelRatio || 1
+    const width = container.clientWidth
+    const height = container.clientHeight
+    if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+      canvas.width = Math.round(width * dpr)
+      canvas.height = Math.round(height * dpr)
+    }
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.clearRect(0, 0, width, height)
+
+    for (const detection of detections) {
+      const color = STATE_COLORS[detection.state]
+
+      // 検出コードの輪郭
+      ctx.beginPath()
+      detection.points.forEach((point, i) => {
+        if (i === 0) ctx.moveTo(point.x, point.y)
+        else ctx.lineTo(point.x, point.y)
+      })
+      ctx.closePath()
+      ctx.lineWidth = 3
+      ctx.strokeStyle = color
+      ctx.stroke()
+      ctx.fillStyle = color
+      ctx.globalAlpha = 0.15
+      ctx.fill()
+      ctx.globalAlpha = 1
+
+      // デコード内容の抜粋
+      const excerpt = detection.text.length > LABEL_MAX_LENGTH
+        ? detection.text.substring(0, LABEL_MAX_LENGTH) + '…'
+        : detection.text
+      const label = detection.slot != null ? `[${detection.slot + 1}] ${excerpt}` : excerpt
+      const anchor = detection.points.reduce((top, p) => (p.y < top.y ? p : top))
+      ctx.font = '12px -apple-system, BlinkMacSystemFont, sans-serif'
+      const labelWidth = ctx.measureText(label).width + 8
+      const labelX = Math.min(Math.max(0, anchor.x), width - labelWidth)
+      const labelY = Math.max(0, anchor.y - 20)
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)'
+      ctx.fillRect(labelX, labelY, labelWidth, 18)
+      ctx.fillStyle = color
+      ctx.fillText(label, labelX + 4, labelY + 13)
+    }
+  }, [detections, containerRef])
+
+  return <canvas ref={canvasRef} className="detection-overlay" />
+}
+
+export default DetectionOverlay
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react'
+import { createDiagnosticsBundle, type DiagnosticsMetrics } from './diagnostics'
+import { logger, type LogEntry } from './logger'
+import { downloadBlob, exportFilename } from './exportResults'
+import { useI18n } from './i18n'
+import './DiagnosticsPanel.css'
+
+interface DiagnosticsPanelProps {
+  getMetrics: () => DiagnosticsMetrics
+  context: Record<string, unknown> // 書き出すログに含める設定など
+  onClose: () => void
+}
+
+const REFRESH_INTERVAL = 500 // 計測値の表示更新間隔（ミリ秒）
+const RECENT_ENTRIES = 20
+
+function DiagnosticsPanel({ getMetrics, context, onClose }: DiagnosticsPanelProps) {
+  const [metrics, setMetrics] = useState(getMetrics)
+  const [recent, setRecent] = useState<LogEntry[]>(() => logger.entries().slice(-RECENT_ENTRIES))
+  const [debugEnabled, setDebugEnabled] = useState(() => logger.getLevel() === 'debug')
+  const { messages, formatTime } = useI18n()
+  const labels = messages.diagnostics
+
+  useEffect(() => {
+    const timer = setInterval(() => setMetrics(getMetrics()), REFRESH_INTERVAL)
+    return () => clearInterval(timer)
+  }, [getMetrics])
+
+  useEffect(() => {
+    return logger.onEntry(entry => {
+      setRecent(prev => [...prev.slice(-(RECENT_ENTRIES - 1)), entry])
+    })
+  }, [])
+
+  const changeDebug = (enabled: boolean) => {
+    logger.setLevel(enabled ? 'debug' : 'info')
+    setDebugEnabled(enabled)
+  }
+
+  const download = () => {
+    const bundle = createDiagnosticsBundle(getMetrics(), context, logger.entries())
+    downloadBlob(
+      new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }),
+      exportFilename('diagnostics', 'json')
+    )
+  }
+
+  const clear = () => {
+    logger.clear()
+    setRecent([])
+  }
+
+  const rows: [string, string][] = [
+    [labels.fps, String(metrics.fps)],
+    [labels.decodeTime, `${metrics.decodeTime.toFixed(1)} ms`],
+    [labels.scanInterval, `${metrics.scanInterval} ms`],
+    [labels.timeouts, String(metrics.timeouts)],
+    [labels.errors, String(metrics.errors)],
+    [labels.frames, `${metrics.frames} / ${metrics.dropped}`]
+  ]
+
+  return (
+    <div className="diagnostics-panel">
+      <div className="diagnostics-header">
+        <span className="diagnostics-title">{labels.title}</span>
+        <button className="diagnostics-close" onClick={onClose} aria-label={labels.close}>
+          ✕
+        </button>
+      </div>
+
+      <dl className="diagnostics-metrics">
+        {rows.map(([label, value]) => (
+          <div key={label}>
+            <dt>{label}</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="diagnostics-log">
+        {recent.length === 0 ? (
+          <div className="diagnostics-empty">{labels.empty}</div>
+        ) : (
+          recent.map((entry, index) => (
+            <div key={`${entry.time}-${index}`} className={`diagnostics-entry ${entry.level}`}>
+              <span>{formatTime(new Date(entry.time))}</span>
+              <span>{entry.event}</span>
+            </div>
+          ))
+        )}
+      </div>
+
+      <label className="diagnostics-toggle">
+        <input type="checkbox" checked={debugEnabled} onChange={(e) => changeDebug(e.target.checked)} />
+        {labels.debug}
+      </label>
+
+      <div className="diagnostics-actions">
+        <button className="diagnostics-button primary" onClick={download}>
+          {labels.download}
+        </button>
+        <button className="diagnostics-button" onClick={clear}>
+          {labels.clear}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default DiagnosticsPanel
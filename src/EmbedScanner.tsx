@@ -0,0 +1,240 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { ReadInputBarcodeFormat } from 'zxing-wasm/reader'
+import GuideFrame from './GuideFrame'
+import { DecoderClient } from './decoderClient'
+import { useScanSession } from './useScanSession'
+import { captureVideoFrame } from './videoFrame'
+import { buildVideoConstraints, loadCameraPreferences } from './cameraControls'
+import { DEFAULT_FORMAT_PRESET, getFormatPreset } from './barcodeFormats'
+import { EMBED_MESSAGE_SOURCE, isEmbedCommand, type EmbedEvent } from './embedProtocol'
+import { useI18n } from './i18n'
+import { loadScanSettings, toDecodePlan, toScanSessionConfig } from './scanSettings'
+import { loadGuideLayout } from './guideGeometry'
+import './EmbedScanner.css'
+
+// 埋め込みを許可する親ページのオリジン（ビルド時の環境変数、カンマ区切り）
+const ALLOWED_ORIGINS = (import.meta.env.VITE_EMBED_ALLOWED_ORIGINS ?? '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean)
+
+// 親ページのオリジン（?origin= で指定され、許可リストに含まれる場合のみ）
+function resolveParentOrigin(): string | null {
+  if (window.parent === window) return null
+  const origin = new URLSearchParams(window.location.search).get('origin')
+  return origin && ALLOWED_ORIGINS.includes(origin) ? origin : null
+}
+
+function EmbedScanner() {
+  const { messages } = useI18n()
+  const [parentOrigin] = useState(resolveParentOrigin)
+  const [scanSettings] = useState(loadScanSettings) // 設定画面はないため、本体で保存された設定を使う
+  const [guideLayout] = useState(loadGuideLayout)
+  const [isInitialized, setIsInitialized] = useState(false)
+  const [isScanning, setIsScanning] = useState(false)
+  const [error, setError] = useState<string | null>(
+    parentOrigin ? null : messages.embed.notAllowed
+  )
+  const [formats, setFormats] = useState<ReadInputBarcodeFormat[]>(getFormatPreset(DEFAULT_FORMAT_PRESET).formats)
+
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(document.createElement('canvas'))
+  const containerRef = useRef<HTMLDivElement>(null)
+  const decoderRef = useRef<DecoderClient | null>(null)
+  const startingRef = useRef(false)
+  const messagesRef = useRef(messages) // 初期化処理から最新の言語を参照
+
+  useEffect(() => {
+    messagesRef.current = messages
+  }, [messages])
+
+  // 許可された親ページにのみイベントを送る
+  const post = useCallback((event: EmbedEvent) => {
+    if (!parentOrigin) return
+    window.parent.postMessage({ ...event, source: EMBED_MESSAGE_SOURCE }, parentOrigin)
+  }, [parentOrigin])
+
+  const reportError = useCallback((message: string) => {
+    setError(message)
+    post({ type: 'error', message })
+  }, [post])
+
+  // デコーダーワーカー初期化
+  useEffect(() => {
+    if (!parentOrigin) return
+
+    const decoder = new DecoderClient(scanSettings.decodeTimeout)
+    decoderRef.current = decoder
+    decoder.ready()
+      .then(() => {
+        if (decoderRef.current !== decoder) return
+        setIsInitialized(true)
+        post({ type: 'ready' })
+      })
+      .catch(err => {
+        if (decoderRef.current !== decoder) return
+        reportError(messagesRef.current.embed.initFailed(err instanceof Error ? err.message : String(err)))
+      })
+
+    return () => {
+      decoderRef.current = null
+      decoder.terminate()
+    }
+  }, [parentOrigin, post, reportError, scanSettings])
+
+  const decodeFrame = useCallback((image: ImageData) => {
+    const decoder = decoderRef.current
+    if (!decoder) return Promise.resolve(null)
+    return decoder.decode(image, {
+      formats,
+      maxNumberOfSymbols: scanSettings.maxNumberOfSymbols,
+      tryHarder: scanSettings.tryHarder
+    }, toDecodePlan(scanSettings).strategy)
+  }, [formats, scanSettings])
+
+  const {
+    session: scanSession,
+    guideState,
+    start: startScanLoop,
+    stop: stopScanLoop,
+    resetResults
+  } = useScanSession(decodeFrame, toScanSessionConfig(scanSettings))
+
+  useEffect(() => {
+    return scanSession.onDetect(({ result, isNew, slot }) => {
+      post({
+        type: 'detect',
+        isNew,
+        slot,
+        result: {
+          id: result.id,
+          text: result.text,
+          format: result.format ?? null,
+          count: result.count,
+          firstSeen: result.firstSeen.toISOString(),
+          lastSeen: result.lastSeen.toISOString()
+        }
+      })
+    })
+  }, [scanSession, post])
+
+  useEffect(() => {
+    return scanSession.onFrame(outcome => {
+      if (outcome.status === 'error') {
+        post({ type: 'error', message: messages.embed.decodeFailed })
+      }
+    })
+  }, [scanSession, post, messages])
+
+  const captureFrame = useCallback(() => captureVideoFrame({
+    video: videoRef.current,
+    canvas: canvasRef.current,
+    container: containerRef.current,
+    focusGuideOnly: false,
+    scale: toDecodePlan(scanSettings).captureScale,
+    guideLayout
+  }), [scanSettings, guideLayout])
+
+  const stop = useCallback(() => {
+    if (!streamRef.current) return
+    stopScanLoop()
+    streamRef.current.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+    if (videoRef.current) {
+      videoRef.current.srcObject = null
+    }
+    setIsScanning(false)
+    post({ type: 'stopped' })
+  }, [stopScanLoop, post])
+
+  const start = useCallback(async () => {
+    if (!isInitialized || streamRef.current || startingRef.current) return
+    startingRef.current = true
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: buildVideoConstraints(loadCameraPreferences()),
+        audio: false
+      })
+      streamRef.current = stream
+      // 他のアプリにカメラを奪われた場合など
+      stream.getVideoTracks()[0]?.addEventListener('ended', stop)
+
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream
+        await videoRef.current.play()
+      }
+      setError(null)
+      setIsScanning(true)
+      startScanLoop(captureFrame, 500)
+    } catch (err) {
+      reportError(messages.embed.cameraFailed(err instanceof Error ? err.message : String(err)))
+    } finally {
+      startingRef.current = false
+    }
+  }, [isInitialized, stop, startScanLoop, captureFrame, reportError, messages])
+
+  // 親ページからのコマンド
+  useEffect(() => {
+    if (!parentOrigin) return
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || event.origin !== parentOrigin) return
+      if (!isEmbedCommand(event.data)) return
+
+      const command = event.data
+      switch (command.type) {
+        case 'start':
+          start()
+          break
+        case 'stop':
+          stop()
+          break
+        case 'reset':
+          resetResults()
+          break
+        case 'setFormats':
+          // 不正なフォーマット名はデコード時のエラーとして通知される
+          setFormats(command.formats as ReadInputBarcodeFormat[])
+          break
+      }
+    }
+
+    window.addEventListener('message', handleMessage)
+    return () => window.removeEventListener('message', handleMessage)
+  }, [parentOrigin, start, stop, resetResults])
+
+  // アンマウント時にカメラを解放
+  useEffect(() => {
+    return () => {
+      streamRef.current?.getTracks().forEach(track => track.stop())
+    }
+  }, [])
+
+  return (
+    <div className="embed-scanner">
+      <div className="embed-video" ref={containerRef}>
+        <video ref={videoRef} autoPlay muted playsInline className="embed-video-preview" />
+        {isScanning ? (
+          <GuideFrame state={guideState} containerRef={containerRef} layout={guideLayout} />
+        ) : (
+          <div className="embed-placeholder">📷</div>
+        )}
+      </div>
+
+      {error && <p className="embed-error">⚠️ {error}</p>}
+
+      {parentOrigin && (
+        <button
+          className={`embed-button ${isScanning ? 'active' : ''}`}
+          onClick={isScanning ? stop : start}
+          disabled={!isInitialized}
+        >
+          {!isInitialized ? messages.embed.preparing : isScanning ? messages.embed.stop : messages.embed.start}
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default EmbedScanner
@@ -0,0 +1,78 @@
+import { useState } from 'react'
+import type { UniqueQRResult } from './types'
+import {
+  downloadBlob,
+  exportFilename,
+  toClipboardText,
+  toCsv,
+  toExportRecords,
+  toJson,
+  toZip
+} from './exportResults'
+import { useI18n } from './i18n'
+import { logger } from './logger'
+import './ExportMenu.css'
+
+interface ExportMenuProps {
+  results: UniqueQRResult[]
+  sessionName?: string
+}
+
+function ExportMenu({ results, sessionName }: ExportMenuProps) {
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle')
+  const [isZipping, setIsZipping] = useState(false)
+  const disabled = results.length === 0
+  const { messages } = useI18n()
+
+  const exportCsv = () => {
+    const csv = toCsv(toExportRecords(results, sessionName))
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), exportFilename(sessionName, 'csv'))
+  }
+
+  const exportJson = () => {
+    const json = toJson(toExportRecords(results, sessionName))
+    downloadBlob(new Blob([json], { type: 'application/json' }), exportFilename(sessionName, 'json'))
+  }
+
+  // サムネイル画像の読み出しに時間がかかるため、完了までボタンを無効にする
+  const exportZip = async () => {
+    setIsZipping(true)
+    try {
+      downloadBlob(await toZip(results, sessionName), exportFilename(sessionName, 'zip'))
+    } catch (err) {
+      logger.error('export_error', { format: 'zip', error: err })
+    } finally {
+      setIsZipping(false)
+    }
+  }
+
+  const copyText = async () => {
+    try {
+      await navigator.clipboard.writeText(toClipboardText(toExportRecords(results, sessionName)))
+      setCopyStatus('copied')
+    } catch (err) {
+      logger.error('clipboard_error', { error: err })
+      setCopyStatus('failed')
+    }
+    setTimeout(() => setCopyStatus('idle'), 2000)
+  }
+
+  return (
+    <div className="export-menu">
+      <button className="export-button" onClick={exportCsv} disabled={disabled}>
+        CSV
+      </button>
+      <button className="export-button" onClick={exportJson} disabled={disabled}>
+        JSON
+      </button>
+      <button className="export-button" onClick={exportZip} disabled={disabled || isZipping} title={messages.export.zip}>
+        ZIP
+      </button>
+      <button className="export-button" onClick={copyText} disabled={disabled}>
+        {copyStatus === 'copied' ? messages.export.copied : copyStatus === 'failed' ? messages.export.copyFailed : messages.export.copy}
+      </button>
+    </div>
+  )
+}
+
+export default ExportMenu
@@ -0,0 +1,75 @@
+import { FEEDBACK_EVENTS, isVibrationSupported, type EventFeedback, type FeedbackEvent, type FeedbackSettings } from './feedback'
+import { useI18n } from './i18n'
+import './FeedbackPanel.css'
+
+interface FeedbackPanelProps {
+  settings: FeedbackSettings
+  onChange: (settings: FeedbackSettings) => void
+  onTest: (event: FeedbackEvent) => void
+}
+
+function FeedbackPanel({ settings, onChange, onTest }: FeedbackPanelProps) {
+  const { messages } = useI18n()
+  const labels = messages.feedback
+  const canVibrate = isVibrationSupported()
+
+  const update = (event: FeedbackEvent, changes: Partial<EventFeedback>) => {
+    onChange({ ...settings, [event]: { ...settings[event], ...changes } })
+  }
+
+  const allMuted = FEEDBACK_EVENTS.every(event => !settings[event].sound)
+
+  return (
+    <details className="feedback-panel">
+      <summary>
+        {labels.title}: <span className="feedback-summary">{allMuted ? labels.muted : labels.on}</span>
+      </summary>
+
+      <div className="feedback-events">
+        {FEEDBACK_EVENTS.map(event => (
+          <div key={event} className="feedback-event">
+            <div className="feedback-event-header">
+              <span className="feedback-event-name">{labels.events[event]}</span>
+              <button className="feedback-test" onClick={() => onTest(event)}>
+                {labels.test}
+              </button>
+            </div>
+            <div className="feedback-controls">
+              <label className="feedback-toggle">
+                <input
+                  type="checkbox"
+                  checked={settings[event].sound}
+                  onChange={(e) => update(event, { sound: e.target.checked })}
+                />
+                {labels.sound}
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings[event].volume}
+                disabled={!settings[event].sound}
+                onChange={(e) => update(event, { volume: Number(e.target.value) })}
+                aria-label={labels.volume}
+              />
+              <label className="feedback-toggle">
+                <input
+                  type="checkbox"
+                  checked={settings[event].vibrate}
+                  disabled={!canVibrate}
+                  onChange={(e) => update(event, { vibrate: e.target.checked })}
+                />
+                {labels.vibrate}
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {!canVibrate && <p className="feedback-note">{labels.vibrationUnsupported}</p>}
+    </details>
+  )
+}
+
+export default FeedbackPanel
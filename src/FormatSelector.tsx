@@ -0,0 +1,26 @@
+import { FORMAT_PRESETS, type FormatPresetId } from './barcodeFormats'
+import { useI18n } from './i18n'
+
+interface FormatSelectorProps {
+  value: FormatPresetId
+  onChange: (id: FormatPresetId) => void
+}
+
+function FormatSelector({ value, onChange }: FormatSelectorProps) {
+  const { messages } = useI18n()
+
+  return (
+    <label className="format-selector">
+      <span>{messages.formats.label}</span>
+      <select value={value} onChange={(e) => onChange(e.target.value as FormatPresetId)}>
+        {FORMAT_PRESETS.map(preset => (
+          <option key={preset.id} value={preset.id}>
+            {messages.formats.presets[preset.id]}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+export default FormatSelector
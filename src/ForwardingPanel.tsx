@@ -0,0 +1,97 @@
+import type { ForwardingConfig, ForwardHeader } from './forwarding'
+import { useI18n } from './i18n'
+import './ForwardingPanel.css'
+
+interface ForwardingPanelProps {
+  config: ForwardingConfig
+  pendingCount: number
+  failedCount: number
+  onChange: (config: ForwardingConfig) => void
+  onRetryFailed: () => void
+}
+
+function ForwardingPanel({ config, pendingCount, failedCount, onChange, onRetryFailed }: ForwardingPanelProps) {
+  const { messages } = useI18n()
+
+  const updateHeader = (index: number, changes: Partial<ForwardHeader>) => {
+    onChange({
+      ...config,
+      headers: config.headers.map((header, i) => (i === index ? { ...header, ...changes } : header))
+    })
+  }
+
+  return (
+    <details className="forwarding-panel">
+      <summary>
+        {messages.forwarding.title}: {config.enabled && config.endpoint ? messages.forwarding.enabled : messages.forwarding.disabled}
+        {pendingCount > 0 && <span className="forwarding-badge">{messages.forwarding.pending(pendingCount)}</span>}
+        {failedCount > 0 && <span className="forwarding-badge failed">{messages.forwarding.failed(failedCount)}</span>}
+      </summary>
+
+      <label className="forwarding-toggle">
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(e) => onChange({ ...config, enabled: e.target.checked })}
+        />
+        {messages.forwarding.enable}
+      </label>
+
+      <label className="forwarding-field">
+        <span>{messages.forwarding.endpoint}</span>
+        <input
+          type="url"
+          value={config.endpoint}
+          onChange={(e) => onChange({ ...config, endpoint: e.target.value })}
+          placeholder="https://example.com/api/scans"
+          spellCheck={false}
+        />
+      </label>
+
+      <div className="forwarding-field">
+        <span>{messages.forwarding.headers}</span>
+        {config.headers.map((header, index) => (
+          <div key={index} className="forwarding-header">
+            <input
+              type="text"
+              value={header.name}
+              onChange={(e) => updateHeader(index, { name: e.target.value })}
+              placeholder="Authorization"
+              spellCheck={false}
+            />
+            <input
+              type="text"
+              value={header.value}
+              onChange={(e) => updateHeader(index, { value: e.target.value })}
+              placeholder="Bearer ..."
+              spellCheck={false}
+            />
+            <button
+              className="forwarding-button"
+              onClick={() => onChange({ ...config, headers: config.headers.filter((_, i) => i !== index) })}
+              aria-label={messages.forwarding.removeHeader}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          className="forwarding-button"
+          onClick={() => onChange({ ...config, headers: [...config.headers, { name: '', value: '' }] })}
+        >
+          {messages.forwarding.addHeader}
+        </button>
+      </div>
+
+      {failedCount > 0 && (
+        <div className="forwarding-actions">
+          <button className="forwarding-button" onClick={onRetryFailed}>
+            {messages.forwarding.retryFailed(failedCount)}
+          </button>
+        </div>
+      )}
+    </details>
+  )
+}
+
+export default ForwardingPanel
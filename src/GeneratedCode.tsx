@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { generateCode, svgDataUrl, type GeneratedCode as Code } from './codeWriter'
+import { downloadBlob, exportFilename } from './exportResults'
+import { formatLabel } from './barcodeFormats'
+import { useI18n } from './i18n'
+import { logger } from './logger'
+import './GeneratedCode.css'
+
+interface GeneratedCodeProps {
+  text: string
+  format?: string
+}
+
+// 読み取った内容からコードを作り直す（破損したラベルの再印刷用）
+function GeneratedCode({ text, format }: GeneratedCodeProps) {
+  const { messages } = useI18n()
+  const labels = messages.codeWriter
+  const [isOpen, setIsOpen] = useState(false)
+  const [code, setCode] = useState<Code | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  const toggle = () => {
+    setIsOpen(!isOpen)
+    if (isOpen || code) return
+    setFailed(false)
+    generateCode(text, format)
+      .then(setCode)
+      .catch(err => {
+        logger.error('code_generate_error', { format, error: err })
+        setFailed(true)
+      })
+  }
+
+  const name = formatLabel(format).replace(/\s+/g, '')
+
+  return (
+    <div className="generated-code">
+      <button className="generated-code-toggle" onClick={toggle}>
+        {isOpen ? labels.hide : labels.show}
+      </button>
+      {isOpen && (
+        failed ? (
+          <div className="generated-code-error">⚠️ {labels.failed}</div>
+        ) : !code ? (
+          <div className="generated-code-loading">{labels.generating}</div>
+        ) : (
+          <div className="generated-code-body">
+            <img className="generated-code-image" src={svgDataUrl(code.svg)} alt={text} />
+            <div className="generated-code-actions">
+              <button
+                className="generated-code-button"
+                onClick={() => downloadBlob(new Blob([code.svg], { type: 'image/svg+xml' }), exportFilename(name, 'svg'))}
+              >
+                {labels.downloadSvg}
+              </button>
+              <button
+                className="generated-code-button"
+                onClick={() => downloadBlob(code.png, exportFilename(name, 'png'))}
+              >
+                {labels.downloadPng}
+              </button>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
+
+export default GeneratedCode
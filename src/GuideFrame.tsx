@@ -1,88 +1,25 @@
 import { useEffect, useState, useRef } from 'react'
+import {
+  calculateGuideSize,
+  DEFAULT_GUIDE_LAYOUT,
+  type GuideLayout,
+  type GuideRegion,
+  type GuideState
+} from './guideGeometry'
+import { useI18n } from './i18n'
 import './GuideFrame.css'
 
-export type GuideState = 'waiting' | 'scanning' | 'success' | 'error'
-
 interface GuideFrameProps {
   state: GuideState
   containerRef: React.RefObject<HTMLDivElement | null>
+  layout?: GuideLayout
+  filledSlots?: number[] // コードを検出している枠の番号
 }
 
-interface GuideFrameConfig {
-  baseRatio: { width: number; height: number }
-  screenCoverage: number
-  minWidth: number
-  maxWidth: number
-  padding: number
-}
-
-interface GuideRegion {
-  top: number
-  left: number
-  width: number
-  height: number
-  center: { x: number; y: number }
-}
-
-const config: GuideFrameConfig = {
-  baseRatio: { width: 252, height: 352 },
-  screenCoverage: 0.6,
-  minWidth: 200,
-  maxWidth: 400,
-  padding: 20
-}
-
-export function calculateGuideSize(containerWidth: number, containerHeight: number): GuideRegion {
-  const ratio = config.baseRatio.height / config.baseRatio.width
-
-  // Calculate size based on screen coverage
-  let width = containerWidth * config.screenCoverage
-  let height = width * ratio
-
-  // Check if height exceeds container
-  if (height > containerHeight * config.screenCoverage) {
-    height = containerHeight * config.screenCoverage
-    width = height / ratio
-  }
-
-  // Apply min/max constraints
-  width = Math.max(config.minWidth, Math.min(config.maxWidth, width))
-  height = width * ratio
-
-  // Calculate position (centered)
-  const left = (containerWidth - width) / 2
-  const top = (containerHeight - height) / 2
-
-  return {
-    top,
-    left,
-    width,
-    height,
-    center: { x: left + width / 2, y: top + height / 2 }
-  }
-}
-
-export function isQRInGuide(
-  qrBounds: { x: number; y: number; width: number; height: number },
-  guide: GuideRegion
-): boolean {
-  const qrCenter = {
-    x: qrBounds.x + qrBounds.width / 2,
-    y: qrBounds.y + qrBounds.height / 2
-  }
-
-  const tolerance = guide.width * 0.1
-  return (
-    qrCenter.x >= guide.left - tolerance &&
-    qrCenter.x <= guide.left + guide.width + tolerance &&
-    qrCenter.y >= guide.top - tolerance &&
-    qrCenter.y <= guide.top + guide.height + tolerance
-  )
-}
-
-function GuideFrame({ state, containerRef }: GuideFrameProps) {
+function GuideFrame({ state, containerRef, layout = DEFAULT_GUIDE_LAYOUT, filledSlots = [] }: GuideFrameProps) {
   const [dimensions, setDimensions] = useState<GuideRegion | null>(null)
   const frameRef = useRef<HTMLDivElement>(null)
+  const { messages } = useI18n()
 
   // Calculate dimensions on mount and resize
   useEffect(() => {
@@ -90,38 +27,27 @@ function GuideFrame({ state, containerRef }: GuideFrameProps) {
       if (!containerRef.current) return
 
       const rect = containerRef.current.getBoundingClientRect()
-      const newDimensions = calculateGuideSize(rect.width, rect.height)
+      const newDimensions = calculateGuideSize(rect.width, rect.height, layout)
       setDimensions(newDimensions)
     }
 
+    // Handle orientation change for mobile devices
+    let orientationTimer: ReturnType<typeof setTimeout> | undefined
+    const handleOrientationChange = () => {
+      clearTimeout(orientationTimer)
+      orientationTimer = setTimeout(updateDimensions, 100)
+    }
+
     updateDimensions()
     window.addEventListener('resize', updateDimensions)
-
-    // Handle orientation change for mobile devices
-    window.addEventListener('orientationchange', () => {
-      setTimeout(updateDimensions, 100)
-    })
+    window.addEventListener('orientationchange', handleOrientationChange)
 
     return () => {
       window.removeEventListener('resize', updateDimensions)
-      window.removeEventListener('orientationchange', updateDimensions)
+      window.removeEventListener('orientationchange', handleOrientationChange)
+      clearTimeout(orientationTimer)
     }
-  }, [containerRef])
-
-  const getStateMessage = () => {
-    switch (state) {
-      case 'waiting':
-        return 'カードをここに合わせる'
-      case 'scanning':
-        return 'スキャン中...'
-      case 'success':
-        return '認識しました！'
-      case 'error':
-        return '認識できません'
-      default:
-        return ''
-    }
-  }
+  }, [containerRef, layout])
 
   if (!dimensions) return null
 
@@ -136,6 +62,22 @@ function GuideFrame({ state, containerRef }: GuideFrameProps) {
         height: dimensions.height
       }}
     >
+      {/* Slot grid（複数枠の場合のみ） */}
+      {dimensions.slots.length > 1 && dimensions.slots.map(slot => (
+        <div
+          key={slot.index}
+          className={`guide-slot ${filledSlots.includes(slot.index) ? 'guide-slot--filled' : ''}`}
+          style={{
+            top: slot.top - dimensions.top,
+            left: slot.left - dimensions.left,
+            width: slot.width,
+            height: slot.height
+          }}
+        >
+          <span className="guide-slot-number">{slot.index + 1}</span>
+        </div>
+      ))}
+
       {/* Corner markers */}
       <div className="corner-marker corner-tl" />
       <div className="corner-marker corner-tr" />
@@ -144,7 +86,7 @@ function GuideFrame({ state, containerRef }: GuideFrameProps) {
 
       {/* Center message */}
       <div className="guide-message">
-        <span>{getStateMessage()}</span>
+        <span>{messages.guide[state]}</span>
       </div>
     </div>
   )
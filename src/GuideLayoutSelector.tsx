@@ -0,0 +1,48 @@
+import { GUIDE_PROFILES, MAX_GUIDE_GRID, type GuideLayout, type GuideProfileId } from './guideGeometry'
+import { useI18n } from './i18n'
+
+interface GuideLayoutSelectorProps {
+  value: GuideLayout
+  onChange: (layout: GuideLayout) => void
+}
+
+const GRID_SIZES = Array.from({ length: MAX_GUIDE_GRID }, (_, i) => i + 1)
+
+function GuideLayoutSelector({ value, onChange }: GuideLayoutSelectorProps) {
+  const { messages } = useI18n()
+
+  return (
+    <div className="guide-layout-selector">
+      <label>
+        <span>{messages.guideLayout.label}</span>
+        <select
+          value={value.profile}
+          onChange={(e) => onChange({ ...value, profile: e.target.value as GuideProfileId })}
+        >
+          {GUIDE_PROFILES.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {messages.guideLayout.profiles[profile.id]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <select
+        value={value.rows}
+        onChange={(e) => onChange({ ...value, rows: Number(e.target.value) })}
+        aria-label={messages.guideLayout.rows}
+      >
+        {GRID_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+      </select>
+      <span>×</span>
+      <select
+        value={value.columns}
+        onChange={(e) => onChange({ ...value, columns: Number(e.target.value) })}
+        aria-label={messages.guideLayout.columns}
+      >
+        {GRID_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+      </select>
+    </div>
+  )
+}
+
+export default GuideLayoutSelector
@@ -0,0 +1,76 @@
+import { useRef, useState } from 'react'
+import { useI18n } from './i18n'
+import './ImageDropZone.css'
+
+interface ImageDropZoneProps {
+  disabled?: boolean
+  /** 画像ファイルをデコードし、検出したコードの件数を返す */
+  onFiles: (files: File[]) => Promise<number>
+}
+
+type DropZoneStatus =
+  | { kind: 'idle' }
+  | { kind: 'processing'; fileCount: number }
+  | { kind: 'done'; fileCount: number; detected: number }
+
+function ImageDropZone({ disabled, onFiles }: ImageDropZoneProps) {
+  const [status, setStatus] = useState<DropZoneStatus>({ kind: 'idle' })
+  const [isDragging, setIsDragging] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const { messages } = useI18n()
+
+  const isBusy = disabled || status.kind === 'processing'
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []).filter(file => file.type.startsWith('image/'))
+    if (files.length === 0 || isBusy) return
+
+    setStatus({ kind: 'processing', fileCount: files.length })
+    const detected = await onFiles(files)
+    setStatus({ kind: 'done', fileCount: files.length, detected })
+  }
+
+  const getStatusMessage = () => {
+    switch (status.kind) {
+      case 'processing':
+        return messages.imageDrop.processing(status.fileCount)
+      case 'done':
+        return messages.imageDrop.done(status.fileCount, status.detected)
+      default:
+        return messages.imageDrop.idle
+    }
+  }
+
+  return (
+    <div
+      className={`image-drop-zone ${isDragging ? 'dragging' : ''} ${isBusy ? 'busy' : ''}`}
+      onClick={() => !isBusy && inputRef.current?.click()}
+      onDragOver={(e) => {
+        e.preventDefault()
+        setIsDragging(true)
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault()
+        setIsDragging(false)
+        handleFiles(e.dataTransfer.files)
+      }}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        hidden
+        onChange={(e) => {
+          handleFiles(e.target.files)
+          e.target.value = ''
+        }}
+      />
+      <span className="image-drop-icon">🖼️</span>
+      <span>{getStatusMessage()}</span>
+    </div>
+  )
+}
+
+export default ImageDropZone
@@ -0,0 +1,21 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { createI18n, I18nContext, loadLocale, saveLocale, type Locale } from './i18n'
+
+function LocaleProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale)
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next)
+    saveLocale(next)
+  }, [])
+
+  const i18n = useMemo(() => createI18n(locale, setLocale), [locale, setLocale])
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>
+}
+
+export default LocaleProvider
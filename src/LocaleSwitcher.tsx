@@ -0,0 +1,22 @@
+import { LOCALES, useI18n, type Locale } from './i18n'
+
+function LocaleSwitcher() {
+  const { locale, messages, setLocale } = useI18n()
+
+  return (
+    <select
+      className="locale-switcher"
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      aria-label={messages.locale.label}
+    >
+      {LOCALES.map(option => (
+        <option key={option.id} value={option.id}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+export default LocaleSwitcher
@@ -0,0 +1,146 @@
+import { useMemo, useRef, useState } from 'react'
+import type { UniqueQRResult } from './types'
+import { computeManifestProgress, parseManifest, toManifestCsv } from './manifest'
+import type { DedupePolicy } from './dedupeKey'
+import { downloadBlob, exportFilename } from './exportResults'
+import { useI18n } from './i18n'
+import './ManifestPanel.css'
+
+interface ManifestPanelProps {
+  manifest: string[] | undefined
+  results: UniqueQRResult[]
+  policy: DedupePolicy // 照合にも結果と同じ重複判定ルールを使う
+  sessionName?: string
+  onLoad: (codes: string[]) => void
+  onClear: () => void
+}
+
+function ManifestPanel({ manifest, results, policy, sessionName, onLoad, onClear }: ManifestPanelProps) {
+  const [isPasting, setIsPasting] = useState(false)
+  const [pastedText, setPastedText] = useState('')
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const { messages } = useI18n()
+
+  const progress = useMemo(
+    () => (manifest ? computeManifestProgress(manifest, results, policy) : null),
+    [manifest, results, policy]
+  )
+
+  const load = (source: string) => {
+    const codes = parseManifest(source)
+    if (codes.length === 0) {
+      setLoadError(messages.manifest.empty)
+      return
+    }
+    setLoadError(null)
+    setIsPasting(false)
+    setPastedText('')
+    onLoad(codes)
+  }
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      load(await file.text())
+    } catch {
+      setLoadError(messages.manifest.readFailed)
+    }
+  }
+
+  const exportProgress = () => {
+    if (!manifest) return
+    const csv = toManifestCsv(manifest, results, policy)
+    downloadBlob(
+      new Blob([csv], { type: 'text/csv;charset=utf-8' }),
+      exportFilename(sessionName ? `${sessionName}_checklist` : 'checklist', 'csv')
+    )
+  }
+
+  if (!manifest || !progress) {
+    return (
+      <div className="manifest-panel">
+        <div className="manifest-actions">
+          <button className="manifest-button" onClick={() => inputRef.current?.click()}>
+            {messages.manifest.load}
+          </button>
+          <button className="manifest-button" onClick={() => setIsPasting(!isPasting)}>
+            {messages.manifest.paste}
+          </button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv,text/plain"
+            hidden
+            onChange={(e) => {
+              loadFile(e.target.files?.[0])
+              e.target.value = ''
+            }}
+          />
+        </div>
+        {isPasting && (
+          <div className="manifest-paste">
+            <textarea
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              placeholder={messages.manifest.pastePlaceholder}
+              rows={5}
+            />
+            <button className="manifest-button" onClick={() => load(pastedText)} disabled={!pastedText.trim()}>
+              {messages.manifest.loadPasted}
+            </button>
+          </div>
+        )}
+        {loadError && <p className="manifest-error">{loadError}</p>}
+      </div>
+    )
+  }
+
+  const ratio = progress.expected > 0 ? progress.seen.length / progress.expected : 0
+
+  return (
+    <div className="manifest-panel">
+      <div className="manifest-progress">
+        <div className="manifest-progress-label">
+          {messages.manifest.progress(progress.seen.length, progress.expected)}
+          {progress.missing.length === 0 && ' ✅'}
+        </div>
+        <div className="manifest-progress-bar">
+          <div className="manifest-progress-fill" style={{ width: `${ratio * 100}%` }} />
+        </div>
+      </div>
+
+      {progress.missing.length > 0 && (
+        <details className="manifest-list" open={progress.missing.length <= 10}>
+          <summary>{messages.manifest.missing(progress.missing.length)}</summary>
+          <ul>
+            {progress.missing.map(code => <li key={code}>{code}</li>)}
+          </ul>
+        </details>
+      )}
+
+      {progress.unexpected.length > 0 && (
+        <details className="manifest-list manifest-list--unexpected" open>
+          <summary>{messages.manifest.unexpected(progress.unexpected.length)}</summary>
+          <ul>
+            {progress.unexpected.map(result => <li key={result.id}>{result.text}</li>)}
+          </ul>
+        </details>
+      )}
+
+      <div className="manifest-actions">
+        <button className="manifest-button" onClick={exportProgress}>
+          {messages.manifest.exportProgress}
+        </button>
+        <button
+          className="manifest-button"
+          onClick={() => window.confirm(messages.manifest.clearConfirm) && onClear()}
+        >
+          {messages.manifest.clear}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ManifestPanel
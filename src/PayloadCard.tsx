@@ -0,0 +1,191 @@
+import { useMemo, useState } from 'react'
+import { parsePayload, toVCard } from './payload'
+import { downloadBlob } from './exportResults'
+import { useI18n } from './i18n'
+import { logger } from './logger'
+import './PayloadCard.css'
+
+interface PayloadCardProps {
+  text: string
+}
+
+function Field({ label, value }: { label: string; value: string | null | undefined }) {
+  if (!value) return null
+  return (
+    <div className="payload-field">
+      <span className="payload-field-label">{label}</span>
+      <span className="payload-field-value">{value}</span>
+    </div>
+  )
+}
+
+function ActionLink({ href, children }: { href: string; children: React.ReactNode }) {
+  const isWeb = /^https?:/i.test(href)
+  return (
+    <a
+      className="payload-action"
+      href={href}
+      target={isWeb ? '_blank' : undefined}
+      rel={isWeb ? 'noopener noreferrer' : undefined}
+    >
+      {children}
+    </a>
+  )
+}
+
+function PayloadCard({ text }: PayloadCardProps) {
+  const payload = useMemo(() => parsePayload(text), [text])
+  const [copied, setCopied] = useState(false)
+  const { messages, formatDateTime } = useI18n()
+  const labels = messages.payload
+
+  const copy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      logger.error('clipboard_error', { error: err })
+    }
+  }
+
+  const renderBody = () => {
+    switch (payload.kind) {
+      case 'url':
+        return (
+          <>
+            <div className="result-content">{payload.url}</div>
+            <div className="payload-actions">
+              <ActionLink href={payload.url}>{labels.open}</ActionLink>
+            </div>
+          </>
+        )
+      case 'wifi':
+        return (
+          <>
+            <Field label="SSID" value={payload.ssid} />
+            <Field label={labels.security} value={payload.security} />
+            <Field label={labels.hidden} value={payload.hidden ? labels.yes : null} />
+            {payload.password && (
+              <div className="payload-actions">
+                <button className="payload-action" onClick={() => copy(payload.password!)}>
+                  {copied ? labels.copied : labels.copyPassword}
+                </button>
+              </div>
+            )}
+          </>
+        )
+      case 'contact':
+        return (
+          <>
+            <Field label={labels.name} value={payload.name} />
+            <Field label={labels.organization} value={payload.organization} />
+            {payload.phones.map(phone => <Field key={phone} label={labels.phone} value={phone} />)}
+            {payload.emails.map(email => <Field key={email} label={labels.email} value={email} />)}
+            <Field label={labels.address} value={payload.address} />
+            <Field label="URL" value={payload.url} />
+            <Field label={labels.note} value={payload.note} />
+            <div className="payload-actions">
+              <button
+                className="payload-action"
+                onClick={() => downloadBlob(
+                  new Blob([toVCard(payload)], { type: 'text/vcard;charset=utf-8' }),
+                  `${payload.name ?? 'contact'}.vcf`
+                )}
+              >
+                {labels.saveVCard}
+              </button>
+            </div>
+          </>
+        )
+      case 'geo': {
+        const coords = `${payload.latitude},${payload.longitude}`
+        return (
+          <>
+            <Field label={labels.coordinates} value={coords} />
+            <Field label={labels.altitude} value={payload.altitude !== null ? `${payload.altitude}m` : null} />
+            <Field label={labels.query} value={payload.query} />
+            <div className="payload-actions">
+              <ActionLink href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(coords)}`}>
+                {labels.openMap}
+              </ActionLink>
+            </div>
+          </>
+        )
+      }
+      case 'email': {
+        const params = new URLSearchParams()
+        if (payload.subject) params.set('subject', payload.subject)
+        if (payload.body) params.set('body', payload.body)
+        const query = params.toString().replace(/\+/g, '%20')
+        return (
+          <>
+            <Field label={labels.to} value={payload.to} />
+            <Field label={labels.subject} value={payload.subject} />
+            <Field label={labels.body} value={payload.body} />
+            <div className="payload-actions">
+              <ActionLink href={`mailto:${payload.to}${query ? `?${query}` : ''}`}>{labels.composeEmail}</ActionLink>
+            </div>
+          </>
+        )
+      }
+      case 'phone':
+        return (
+          <>
+            <Field label={labels.number} value={payload.number} />
+            <div className="payload-actions">
+              <ActionLink href={`tel:${payload.number}`}>{labels.call}</ActionLink>
+            </div>
+          </>
+        )
+      case 'sms':
+        return (
+          <>
+            <Field label={labels.number} value={payload.number} />
+            <Field label={labels.body} value={payload.message} />
+            <div className="payload-actions">
+              <ActionLink
+                href={`sms:${payload.number}${payload.message ? `?body=${encodeURIComponent(payload.message)}` : ''}`}
+              >
+                {labels.composeSms}
+              </ActionLink>
+            </div>
+          </>
+        )
+      case 'event':
+        return (
+          <>
+            <Field label={labels.subject} value={payload.summary} />
+            <Field label={labels.start} value={payload.start && formatDateTime(payload.start)} />
+            <Field label={labels.end} value={payload.end && formatDateTime(payload.end)} />
+            <Field label={labels.location} value={payload.location} />
+            <Field label={labels.description} value={payload.description} />
+            <div className="payload-actions">
+              <button
+                className="payload-action"
+                onClick={() => downloadBlob(
+                  new Blob([payload.ics], { type: 'text/calendar;charset=utf-8' }),
+                  `${payload.summary ?? 'event'}.ics`
+                )}
+              >
+                {labels.addToCalendar}
+              </button>
+            </div>
+          </>
+        )
+      default:
+        return <div className="result-content">{payload.text}</div>
+    }
+  }
+
+  return (
+    <div className={`payload-card payload-card--${payload.kind}`}>
+      {payload.kind !== 'text' && (
+        <span className="payload-kind">{labels.kinds[payload.kind]}</span>
+      )}
+      {renderBody()}
+    </div>
+  )
+}
+
+export default PayloadCard
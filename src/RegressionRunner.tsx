@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { DecoderClient } from './decoderClient'
+import { DEFAULT_FORMAT_PRESET, getFormatPreset, type FormatPresetId } from './barcodeFormats'
+import { parseManifest } from './manifest'
+import {
+  checkVideoReport,
+  DEFAULT_FRAME_RATE,
+  loadVideo,
+  pairRegressionClips,
+  scanVideoFrames,
+  summarizeRegression,
+  type RegressionResult,
+  type RegressionSummary
+} from './videoReplay'
+import { downloadBlob, exportFilename } from './exportResults'
+import { useI18n } from './i18n'
+import { logger } from './logger'
+import './RegressionRunner.css'
+
+// 録画した動画をまとめて全フレーム解析し、期待するコードと比べる回帰テスト画面
+//
+//   regression.html                                 … フォルダを選んで実行
+//   regression.html?manifest=/clips/manifest.json   … 一覧のファイルを自動で実行（scripts/run-regression.js から使う）
+//   &report=/report                                 … 結果のJSONをPOSTする送り先
+//   &preset=qr&fps=30                               … 読み取り形式とフレームレート
+//
+// manifest.json は { "files": ["clip.webm", "clip.expected.txt", ...] }（manifest.json からの相対パス）
+
+const REGRESSION_DECODE_TIMEOUT = 5000 // 1フレームあたりのデコードタイムアウト（ミリ秒）
+const REGRESSION_MAX_SYMBOLS = 32
+
+declare global {
+  interface Window {
+    regressionReport?: RegressionSummary // ヘッドレスブラウザから結果を取り出すため
+  }
+}
+
+interface ClipSource {
+  name: string
+  video: Blob | string
+  loadExpected: (() => Promise<string>) | null
+}
+
+const params = new URLSearchParams(window.location.search)
+const manifestUrl = params.get('manifest')
+const reportUrl = params.get('report')
+const frameRate = Number(params.get('fps')) || DEFAULT_FRAME_RATE
+const formats = getFormatPreset((params.get('preset') ?? DEFAULT_FORMAT_PRESET) as FormatPresetId).formats
+
+async function loadManifestClips(url: string): Promise<ClipSource[]> {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`HTTP ${response.status}`)
+  const { files } = await response.json() as { files: string[] }
+  const resolve = (name: string) => new URL(name, new URL(url, window.location.href)).href
+  return pairRegressionClips(files, name => name).map(clip => ({
+    name: clip.name,
+    video: resolve(clip.video),
+    loadExpected: clip.expected
+      ? async () => (await fetch(resolve(clip.expected!))).text()
+      : null
+  }))
+}
+
+function fileClips(files: File[]): ClipSource[] {
+  return pairRegressionClips(files, file => file.name).map(clip => ({
+    name: clip.name,
+    video: clip.video,
+    loadExpected: clip.expected ? () => clip.expected!.text() : null
+  }))
+}
+
+// 結果をヘッドレスブラウザ・実行スクリプトから取り出せるようにする
+async function publishReport(summary: RegressionSummary) {
+  window.regressionReport = summary
+  document.title = summary.passed ? 'PASS' : 'FAIL'
+  if (!reportUrl) return
+  await fetch(reportUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(summary)
+  }).catch(err => logger.error('regression', { action: 'report', error: err }))
+}
+
+function RegressionRunner() {
+  const { messages } = useI18n()
+  const labels = messages.regression
+  const [isReady, setIsReady] = useState(false)
+  const [progress, setProgress] = useState<{ current: number; total: number; name: string } | null>(null)
+  const [summary, setSummary] = useState<RegressionSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(document.createElement('canvas'))
+  const decoderRef = useRef<DecoderClient | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const startedRef = useRef(false)
+  const messagesRef = useRef(messages) // 初期化処理から最新の言語を参照
+
+  useEffect(() => {
+    messagesRef.current = messages
+  }, [messages])
+
+  useEffect(() => {
+    const decoder = new DecoderClient(REGRESSION_DECODE_TIMEOUT)
+    decoderRef.current = decoder
+    decoder.ready()
+      .then(() => {
+        if (decoderRef.current === decoder) setIsReady(true)
+      })
+      .catch(err => {
+        logger.error('init_error', { error: err })
+        setError(messagesRef.current.errors.initFailed)
+      })
+    return () => {
+      decoder.terminate()
+      if (decoderRef.current === decoder) decoderRef.current = null
+    }
+  }, [])
+
+  // フォルダ選択（webkitdirectory はReactの型にないため属性で指定）
+  useEffect(() => {
+    inputRef.current?.setAttribute('webkitdirectory', '')
+  }, [])
+
+  const run = useCallback(async (clips: ClipSource[]) => {
+    const video = videoRef.current
+    const decoder = decoderRef.current
+    if (!video || !decoder) return
+    if (clips.length === 0) {
+      setError(labels.noClips)
+      await publishReport(summarizeRegression([]))
+      return
+    }
+
+    setError(null)
+    setSummary(null)
+    const results: RegressionResult[] = []
+    for (const [index, clip] of clips.entries()) {
+      setProgress({ current: index + 1, total: clips.length, name: clip.name })
+      let release: (() => void) | null = null
+      try {
+        release = await loadVideo(video, clip.video)
+        const report = await scanVideoFrames(video, canvasRef.current, clip.name, async image => (
+          await decoder.decode(image, { formats, maxNumberOfSymbols: REGRESSION_MAX_SYMBOLS, tryHarder: true }) ?? []
+        ), { frameRate })
+        const expected = clip.loadExpected ? parseManifest(await clip.loadExpected()) : null
+        results.push(checkVideoReport(report, expected))
+      } catch (err) {
+        logger.error('regression', { clip: clip.name, error: err })
+        results.push({
+          source: clip.name,
+          passed: false,
+          expected: 0,
+          missing: [],
+          unexpected: [],
+          report: null,
+          error: err instanceof Error ? err.message : String(err)
+        })
+      } finally {
+        release?.()
+      }
+    }
+
+    const result = summarizeRegression(results)
+    setProgress(null)
+    setSummary(result)
+    logger.info('regression', { total: result.total, passed: result.passedCount })
+    await publishReport(result)
+  }, [labels])
+
+  // manifest が指定されていれば初期化後に自動で実行
+  useEffect(() => {
+    if (!isReady || !manifestUrl || startedRef.current) return
+    startedRef.current = true
+    loadManifestClips(manifestUrl)
+      .then(run)
+      .catch(err => {
+        logger.error('regression', { action: 'manifest', error: err })
+        setError(String(err))
+        publishReport(summarizeRegression([]))
+      })
+  }, [isReady, run])
+
+  const downloadReport = () => {
+    if (!summary) return
+    downloadBlob(
+      new Blob([JSON.stringify(summary, null, 2)], { type: 'application/json' }),
+      exportFilename('regression', 'json')
+    )
+  }
+
+  return (
+    <div className="regression">
+      <h1>{labels.title}</h1>
+      <p className="regression-description">{labels.description}</p>
+
+      <div className="regression-actions">
+        <button
+          className="regression-button"
+          onClick={() => inputRef.current?.click()}
+          disabled={!isReady || progress !== null}
+        >
+          {isReady ? labels.selectFolder : messages.app.initializing}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          hidden
+          onChange={(e) => {
+            run(fileClips(Array.from(e.target.files ?? [])))
+            e.target.value = ''
+          }}
+        />
+      </div>
+
+      {error && <div className="regression-error">⚠️ {error}</div>}
+      {progress && <div className="regression-progress">{labels.running(progress.current, progress.total, progress.name)}</div>}
+
+      {/* 全フレーム解析用（画面には表示しない） */}
+      <video ref={videoRef} className="regression-video" muted playsInline />
+
+      {summary && (
+        <div className="regression-results">
+          <div className={`regression-summary ${summary.passed ? 'passed' : 'failed'}`}>
+            {labels.summary(summary.passedCount, summary.total)}
+          </div>
+          <ul>
+            {summary.clips.map(clip => (
+              <li key={clip.source} className={clip.passed ? 'passed' : 'failed'}>
+                <span className="regression-status">{clip.passed ? labels.passed : labels.failed}</span>
+                <span>{clip.source}</span>
+                {clip.error && <div className="regression-detail">{clip.error}</div>}
+                {clip.missing.length > 0 && <div className="regression-detail">{labels.missing(clip.missing.join(', '))}</div>}
+                {clip.unexpected.length > 0 && (
+                  <div className="regression-detail">{labels.unexpected(clip.unexpected.join(', '))}</div>
+                )}
+              </li>
+            ))}
+          </ul>
+          <button className="regression-button" onClick={downloadReport}>
+            {labels.downloadReport}
+          </button>
+          <pre id="regression-report" hidden>{JSON.stringify(summary)}</pre>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RegressionRunner
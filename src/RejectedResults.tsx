@@ -0,0 +1,40 @@
+import { formatRejectReason } from './validation'
+import { formatLabel } from './barcodeFormats'
+import type { RejectedScan } from './types'
+import { useI18n } from './i18n'
+import './RejectedResults.css'
+
+interface RejectedResultsProps {
+  rejected: RejectedScan[]
+  onClear: () => void
+}
+
+// 検証ルールに合わず取り込まなかったコードの一覧（結果とは別に表示し、保存・エクスポートはしない）
+function RejectedResults({ rejected, onClear }: RejectedResultsProps) {
+  const { messages, formatScanTime } = useI18n()
+  const labels = messages.validation
+
+  return (
+    <div className="rejected-results">
+      <div className="rejected-header">
+        <h3>{labels.rejectedTitle(rejected.length)}</h3>
+        <button className="rejected-clear" onClick={onClear}>{labels.clearRejected}</button>
+      </div>
+      <ul>
+        {rejected.map(scan => (
+          <li key={scan.id} className="rejected-item">
+            <div className="rejected-meta">
+              <span>{formatLabel(scan.format)}</span>
+              {scan.count > 1 && <span>×{scan.count}</span>}
+              <span className="rejected-time">{formatScanTime(scan.lastSeen)}</span>
+            </div>
+            <div className="rejected-text">{scan.text}</div>
+            <div className="rejected-reason">⚠️ {formatRejectReason(scan.reason, labels)}</div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default RejectedResults
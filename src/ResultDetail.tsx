@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react'
+import type { ResultThumbnail, UniqueQRResult } from './types'
+import { formatLabel } from './barcodeFormats'
+import { useI18n } from './i18n'
+import './ResultDetail.css'
+
+interface ResultDetailProps {
+  result: UniqueQRResult
+}
+
+function Thumbnail({ thumbnail }: { thumbnail: ResultThumbnail }) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(thumbnail.image)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [thumbnail.image])
+
+  return (
+    <svg
+      className="result-detail-thumbnail"
+      viewBox={`0 0 ${thumbnail.width} ${thumbnail.height}`}
+      width={thumbnail.width}
+      height={thumbnail.height}
+    >
+      {url && <image href={url} width={thumbnail.width} height={thumbnail.height} />}
+      <polygon points={thumbnail.points.map(point => `${point.x},${point.y}`).join(' ')} />
+    </svg>
+  )
+}
+
+// 新規検出時にカメラが写していた範囲と、読み取りの詳細（四隅・向き・形式・誤り訂正レベル）
+function ResultDetail({ result }: ResultDetailProps) {
+  const { messages } = useI18n()
+  const labels = messages.resultDetail
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <div className="result-detail">
+      <button className="result-detail-toggle" onClick={() => setIsOpen(!isOpen)}>
+        {isOpen ? labels.hide : labels.show}
+      </button>
+      {isOpen && (
+        <div className="result-detail-body">
+          {result.thumbnail
+            ? <Thumbnail thumbnail={result.thumbnail} />
+            : <div className="result-detail-empty">{labels.noThumbnail}</div>}
+          <dl className="result-detail-fields">
+            <dt>{labels.format}</dt>
+            <dd>{formatLabel(result.format)}</dd>
+            <dt>{labels.ecLevel}</dt>
+            <dd>{result.ecLevel ?? labels.unknown}</dd>
+            <dt>{labels.orientation}</dt>
+            <dd>{result.orientation !== undefined ? `${result.orientation}°` : labels.unknown}</dd>
+            <dt>{labels.points}</dt>
+            <dd>
+              {result.points
+                ? result.points.map(point => `(${Math.round(point.x)}, ${Math.round(point.y)})`).join(' ')
+                : labels.unknown}
+            </dd>
+          </dl>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ResultDetail
@@ -0,0 +1,62 @@
+import type { SavedSession } from './types'
+import { useI18n } from './i18n'
+import './SessionBar.css'
+
+interface SessionBarProps {
+  sessions: SavedSession[]
+  activeSessionId: string | null
+  disabled?: boolean
+  onSelect: (id: string) => void
+  onCreate: () => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+}
+
+function SessionBar({ sessions, activeSessionId, disabled, onSelect, onCreate, onRename, onDelete }: SessionBarProps) {
+  const activeSession = sessions.find(session => session.id === activeSessionId)
+  const { messages } = useI18n()
+
+  const handleRename = () => {
+    if (!activeSession) return
+    const name = window.prompt(messages.session.renamePrompt, activeSession.name)?.trim()
+    if (name && name !== activeSession.name) {
+      onRename(activeSession.id, name)
+    }
+  }
+
+  const handleDelete = () => {
+    if (!activeSession) return
+    if (window.confirm(messages.session.deleteConfirm(activeSession.name))) {
+      onDelete(activeSession.id)
+    }
+  }
+
+  return (
+    <div className="session-bar">
+      <select
+        className="session-select"
+        value={activeSessionId ?? ''}
+        onChange={(e) => onSelect(e.target.value)}
+        disabled={disabled || sessions.length === 0}
+        aria-label={messages.session.label}
+      >
+        {sessions.map(session => (
+          <option key={session.id} value={session.id}>
+            {session.name}
+          </option>
+        ))}
+      </select>
+      <button className="session-button" onClick={onCreate} disabled={disabled}>
+        {messages.session.create}
+      </button>
+      <button className="session-button" onClick={handleRename} disabled={disabled || !activeSession}>
+        {messages.session.rename}
+      </button>
+      <button className="session-button danger" onClick={handleDelete} disabled={disabled || !activeSession}>
+        {messages.session.delete}
+      </button>
+    </div>
+  )
+}
+
+export default SessionBar
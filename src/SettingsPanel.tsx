@@ -0,0 +1,163 @@
+import { useState } from 'react'
+import {
+  matchScanSettingsPreset,
+  SCAN_SETTINGS_PRESETS,
+  SETTING_RANGES,
+  validateScanSettings,
+  type NumericSettingKey,
+  type ScanSettings
+} from './scanSettings'
+import { DECODE_STAGES, type DecodeStats } from './decodeStrategy'
+import { useI18n } from './i18n'
+import './SettingsPanel.css'
+
+interface SettingsPanelProps {
+  settings: ScanSettings
+  stats: DecodeStats | null // カメラフレームのデコード段階ごとの統計
+  onApply: (settings: ScanSettings) => void
+  onResetStats: () => void
+}
+
+const NUMERIC_FIELDS: NumericSettingKey[] = [
+  'cooldownDuration',
+  'historyTtl',
+  'maxRecentScans',
+  'maxDisplayedResults',
+  'canvasScale',
+  'decodeTimeout',
+  'maxNumberOfSymbols',
+  'decodeBudget'
+]
+
+function DecodeStatsTable({ stats, onReset }: { stats: DecodeStats; onReset: () => void }) {
+  const { messages } = useI18n()
+  const labels = messages.settings.stats
+
+  return (
+    <div className="settings-stats">
+      <div className="settings-stats-title">{labels.title}</div>
+      <table>
+        <thead>
+          <tr>
+            <th>{labels.stage}</th>
+            <th>{labels.hits}</th>
+            <th>{labels.attempts}</th>
+            <th>{labels.averageTime}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {DECODE_STAGES.map(stage => {
+            const { hits, attempts, totalTime } = stats.stages[stage]
+            return (
+              <tr key={stage}>
+                <td>{labels.stages[stage]}</td>
+                <td>{hits}</td>
+                <td>{attempts}</td>
+                <td>{attempts > 0 ? Math.round(totalTime / attempts) : '-'}</td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+      <div className="settings-stats-footer">
+        <span>{labels.summary(stats.frames, stats.budgetExceeded)}</span>
+        <button className="settings-button" onClick={onReset}>
+          {labels.reset}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function SettingsPanel({ settings, stats, onApply, onResetStats }: SettingsPanelProps) {
+  const [draft, setDraft] = useState<ScanSettings>(settings)
+  const { messages } = useI18n()
+
+  const errors = validateScanSettings(draft)
+  const hasErrors = Object.keys(errors).length > 0
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings)
+  const activePreset = matchScanSettingsPreset(settings)
+  const draftPreset = matchScanSettingsPreset(draft)
+
+  const errorMessage = (key: NumericSettingKey) => {
+    switch (errors[key]) {
+      case 'outOfRange':
+        return messages.settings.outOfRange(SETTING_RANGES[key].min, SETTING_RANGES[key].max)
+      case 'ttlShorterThanCooldown':
+        return messages.settings.ttlShorterThanCooldown
+      case 'budgetNotBelowTimeout':
+        return messages.settings.budgetNotBelowTimeout
+      default:
+        return null
+    }
+  }
+
+  return (
+    <details className="settings-panel">
+      <summary>
+        {messages.settings.title}:{' '}
+        <span className="settings-summary">
+          {activePreset ? messages.settings.presets[activePreset] : messages.settings.custom}
+        </span>
+      </summary>
+
+      <div className="settings-presets">
+        {SCAN_SETTINGS_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            className={`settings-button ${draftPreset === preset.id ? 'active' : ''}`}
+            onClick={() => setDraft(preset.settings)}
+          >
+            {messages.settings.presets[preset.id]}
+          </button>
+        ))}
+      </div>
+
+      <div className="settings-fields">
+        {NUMERIC_FIELDS.map(key => (
+          <label key={key} className="settings-field">
+            <span>{messages.settings.fields[key]}</span>
+            <input
+              type="number"
+              min={SETTING_RANGES[key].min}
+              max={SETTING_RANGES[key].max}
+              step={SETTING_RANGES[key].step}
+              value={Number.isNaN(draft[key]) ? '' : draft[key]}
+              onChange={(e) => setDraft({ ...draft, [key]: e.target.value === '' ? NaN : Number(e.target.value) })}
+              aria-invalid={errors[key] !== undefined}
+            />
+            {errors[key] && <span className="settings-error">{errorMessage(key)}</span>}
+          </label>
+        ))}
+
+        <label className="settings-toggle">
+          <input
+            type="checkbox"
+            checked={draft.tryHarder}
+            onChange={(e) => setDraft({ ...draft, tryHarder: e.target.checked })}
+          />
+          {messages.settings.fields.tryHarder}
+        </label>
+
+        <label className="settings-toggle">
+          <input
+            type="checkbox"
+            checked={draft.escalate}
+            onChange={(e) => setDraft({ ...draft, escalate: e.target.checked })}
+          />
+          {messages.settings.fields.escalate}
+        </label>
+      </div>
+
+      <div className="settings-actions">
+        <button className="settings-button primary" onClick={() => onApply(draft)} disabled={!isDirty || hasErrors}>
+          {messages.settings.apply}
+        </button>
+      </div>
+
+      {stats && stats.frames > 0 && <DecodeStatsTable stats={stats} onReset={onResetStats} />}
+    </details>
+  )
+}
+
+export default SettingsPanel
@@ -0,0 +1,124 @@
+import { useEffect, useMemo, useState } from 'react'
+import { encodeShareChunks, type ShareImportProgress } from './listShare'
+import { generateCode, svgDataUrl } from './codeWriter'
+import type { UniqueQRResult } from './types'
+import { useI18n } from './i18n'
+import { logger } from './logger'
+import './ShareListPanel.css'
+
+const SHARE_CYCLE_INTERVAL = 1500 // 複数枚のQRコードを切り替える間隔（ミリ秒）
+
+interface ShareListPanelProps {
+  results: UniqueQRResult[]
+  importProgress: ShareImportProgress | null // 別の端末から共有された一覧の読み取り状況
+  onClearImport: () => void
+}
+
+function ShareListPanel({ results, importProgress, onClearImport }: ShareListPanelProps) {
+  const { messages } = useI18n()
+  const labels = messages.share
+  const [isShowing, setIsShowing] = useState(false)
+  const [images, setImages] = useState<string[] | null>(null)
+  const [failed, setFailed] = useState(false)
+  const [current, setCurrent] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(true)
+
+  const chunks = useMemo(() => encodeShareChunks(results), [results])
+  // 件数の増加だけでなく内容が変わった場合に作り直す（結果の再検出では変わらない）
+  const chunksKey = chunks.join('\n')
+
+  useEffect(() => {
+    if (!isShowing || results.length === 0) return
+    let cancelled = false
+    setImages(null)
+    setFailed(false)
+    setCurrent(0)
+    Promise.all(chunksKey.split('\n').map(chunk => generateCode(chunk, 'QRCode')))
+      .then(codes => {
+        if (!cancelled) setImages(codes.map(code => svgDataUrl(code.svg)))
+      })
+      .catch(err => {
+        logger.error('code_generate_error', { action: 'share', error: err })
+        if (!cancelled) setFailed(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [isShowing, chunksKey, results.length])
+
+  // 読み取る側が順番を気にせず集められるよう、自動で切り替える
+  useEffect(() => {
+    if (!isPlaying || !images || images.length < 2) return
+    const timer = window.setInterval(() => {
+      setCurrent(index => (index + 1) % images.length)
+    }, SHARE_CYCLE_INTERVAL)
+    return () => window.clearInterval(timer)
+  }, [isPlaying, images])
+
+  const step = (direction: 1 | -1) => {
+    if (!images) return
+    setIsPlaying(false)
+    setCurrent(index => (index + direction + images.length) % images.length)
+  }
+
+  return (
+    <details className="share-panel">
+      <summary>
+        {labels.title}
+        {results.length > 0 && (
+          <span className="share-summary"> {labels.summary(results.length, chunks.length)}</span>
+        )}
+      </summary>
+
+      {importProgress && (
+        <div className={`share-import ${importProgress.status}`}>
+          <span>
+            {importProgress.status === 'collecting'
+              ? labels.importing(importProgress.received, importProgress.total)
+              : importProgress.status === 'completed'
+                ? labels.imported(importProgress.items.length)
+                : labels.importInvalid}
+          </span>
+          {importProgress.status !== 'collecting' && (
+            <button className="share-button" onClick={onClearImport}>{labels.dismiss}</button>
+          )}
+        </div>
+      )}
+
+      <p className="share-hint">{labels.hint}</p>
+
+      {results.length === 0 ? (
+        <p className="share-hint">{labels.empty}</p>
+      ) : (
+        <>
+          <button className="share-button" onClick={() => setIsShowing(!isShowing)}>
+            {isShowing ? labels.hide : labels.show}
+          </button>
+          {isShowing && (
+            failed ? (
+              <div className="share-error">⚠️ {labels.failed}</div>
+            ) : !images ? (
+              <p className="share-hint">{labels.generating}</p>
+            ) : (
+              <div className="share-codes">
+                <img className="share-code-image" src={images[current]} alt={labels.page(current + 1, images.length)} />
+                <div className="share-page">{labels.page(current + 1, images.length)}</div>
+                {images.length > 1 && (
+                  <div className="share-actions">
+                    <button className="share-button" onClick={() => step(-1)} aria-label={labels.previous}>◀</button>
+                    <button className="share-button" onClick={() => setIsPlaying(!isPlaying)}>
+                      {isPlaying ? labels.pause : labels.play}
+                    </button>
+                    <button className="share-button" onClick={() => step(1)} aria-label={labels.next}>▶</button>
+                  </div>
+                )}
+              </div>
+            )
+          )}
+        </>
+      )}
+    </details>
+  )
+}
+
+export default ShareListPanel
@@ -0,0 +1,94 @@
+import { useMemo } from 'react'
+import { findMissingCells, toSheetGridCsv, toSheetListCsv, toSheetMatrix, type SheetGrid } from './sheetLayout'
+import { downloadBlob, exportFilename } from './exportResults'
+import { useI18n } from './i18n'
+import './SheetPanel.css'
+
+interface SheetPanelProps {
+  enabled: boolean
+  sheet: SheetGrid | null // 最も多くのコードを読み取ったフレームの並び
+  sessionName?: string
+  onToggle: (enabled: boolean) => void
+  onClear: () => void
+}
+
+function SheetPanel({ enabled, sheet, sessionName, onToggle, onClear }: SheetPanelProps) {
+  const { messages } = useI18n()
+  const labels = messages.sheet
+
+  const matrix = useMemo(() => (sheet ? toSheetMatrix(sheet) : []), [sheet])
+  const missingCount = useMemo(() => (sheet ? findMissingCells(sheet).length : 0), [sheet])
+
+  const download = (csv: string, suffix: string) => {
+    downloadBlob(
+      new Blob([csv], { type: 'text/csv;charset=utf-8' }),
+      exportFilename(sessionName ? `${sessionName}_${suffix}` : suffix, 'csv')
+    )
+  }
+
+  return (
+    <details className="sheet-panel">
+      <summary>
+        {labels.title}
+        {sheet && (
+          <span className="sheet-summary">
+            {' '}{labels.summary(sheet.rows, sheet.columns, sheet.cells.length)}
+          </span>
+        )}
+      </summary>
+
+      <label className="sheet-toggle">
+        <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} />
+        {labels.enable}
+      </label>
+      {enabled && <p className="sheet-hint">{labels.hint}</p>}
+
+      {!sheet ? (
+        enabled && <p className="sheet-empty">{labels.empty}</p>
+      ) : (
+        <>
+          {missingCount > 0 && <div className="sheet-missing">⚠️ {labels.missing(missingCount)}</div>}
+          <div className="sheet-grid-wrapper">
+            <table className="sheet-grid">
+              <thead>
+                <tr>
+                  <th></th>
+                  {matrix[0]?.map((_, column) => <th key={column}>{column + 1}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.map((cells, row) => (
+                  <tr key={row}>
+                    <th>{row + 1}</th>
+                    {cells.map((cell, column) => (
+                      <td
+                        key={column}
+                        className={cell.length === 0 ? 'missing' : cell.length > 1 ? 'conflict' : ''}
+                        title={labels.cell(row + 1, column + 1)}
+                      >
+                        {cell.length === 0 ? '✕' : cell.map(code => code.text).join('\n')}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="sheet-actions">
+            <button className="sheet-button" onClick={() => download(toSheetGridCsv(sheet), 'sheet')}>
+              {labels.exportGrid}
+            </button>
+            <button className="sheet-button" onClick={() => download(toSheetListCsv(sheet), 'sheet_cells')}>
+              {labels.exportList}
+            </button>
+            <button className="sheet-button" onClick={onClear}>
+              {labels.clear}
+            </button>
+          </div>
+        </>
+      )}
+    </details>
+  )
+}
+
+export default SheetPanel
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react'
+import { registerServiceWorker } from './serviceWorker'
+import { useI18n } from './i18n'
+import './UpdatePrompt.css'
+
+function UpdatePrompt() {
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null)
+  const { messages } = useI18n()
+
+  useEffect(() => {
+    return registerServiceWorker(apply => setApplyUpdate(() => apply))
+  }, [])
+
+  if (!applyUpdate) return null
+
+  return (
+    <div className="update-prompt" role="status">
+      <span>{messages.update.available}</span>
+      <div className="update-prompt-actions">
+        <button className="update-prompt-button primary" onClick={applyUpdate}>
+          {messages.update.apply}
+        </button>
+        <button className="update-prompt-button" onClick={() => setApplyUpdate(null)}>
+          {messages.update.later}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default UpdatePrompt
@@ -0,0 +1,186 @@
+import { useState } from 'react'
+import {
+  createValidator,
+  DEFAULT_VALIDATION_RULES,
+  formatRejectReason,
+  hasValidationRules,
+  parseJsonSchema,
+  type CheckDigit,
+  type RejectAction,
+  type ValidationRules
+} from './validation'
+import { compileCapturePattern } from './dedupeKey'
+import { useI18n } from './i18n'
+import type { Messages } from './messages'
+import './ValidationPanel.css'
+
+interface ValidationPanelProps {
+  rules: ValidationRules
+  onApply: (rules: ValidationRules) => void
+}
+
+const CHECK_DIGITS: CheckDigit[] = ['none', 'gs1', 'luhn']
+const REJECT_ACTIONS: RejectAction[] = ['list', 'drop']
+
+// 画面表示用のルール説明
+function describeValidationRules(rules: ValidationRules, messages: Messages['validation']): string {
+  if (!hasValidationRules(rules)) return messages.acceptAll
+  const parts: string[] = []
+  if (rules.prefix) parts.push(messages.describe.prefix(rules.prefix))
+  if (rules.minLength !== null || rules.maxLength !== null) {
+    parts.push(messages.describe.length(rules.minLength, rules.maxLength))
+  }
+  if (rules.pattern) parts.push(`/${rules.pattern}/`)
+  if (rules.checkDigit !== 'none') parts.push(messages.checkDigits[rules.checkDigit])
+  if (rules.jsonSchema.trim()) parts.push(messages.describe.jsonSchema)
+  return parts.join(messages.separator)
+}
+
+// 空欄は「制限なし」
+function parseLength(value: string): number | null {
+  if (value.trim() === '') return null
+  return Math.max(0, Math.floor(Number(value) || 0))
+}
+
+function ValidationPanel({ rules, onApply }: ValidationPanelProps) {
+  const [draft, setDraft] = useState<ValidationRules>(rules)
+  const [sample, setSample] = useState('')
+  const { messages } = useI18n()
+  const labels = messages.validation
+
+  const pattern = compileCapturePattern(draft.pattern)
+  const patternError = typeof pattern === 'string' ? pattern : null
+  const schema = parseJsonSchema(draft.jsonSchema, labels)
+  const schemaError = typeof schema === 'string' ? schema : null
+  // 最小が最大を超えるとすべてのコードが除外される
+  const lengthError = draft.minLength !== null && draft.maxLength !== null && draft.minLength > draft.maxLength
+  const hasError = patternError !== null || schemaError !== null || lengthError
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rules)
+  const sampleReason = sample && !hasError ? createValidator(draft)?.(sample) ?? null : null
+
+  return (
+    <details className="validation-panel">
+      <summary>
+        {labels.title}: <span className="validation-summary">{describeValidationRules(rules, labels)}</span>
+      </summary>
+
+      <div className="validation-rules">
+        <label className="validation-field">
+          <span>{labels.prefix}</span>
+          <input
+            type="text"
+            value={draft.prefix}
+            onChange={(e) => setDraft({ ...draft, prefix: e.target.value })}
+            placeholder={labels.prefixPlaceholder}
+            spellCheck={false}
+          />
+        </label>
+
+        <div className="validation-lengths">
+          <label className="validation-field validation-field--narrow">
+            <span>{labels.minLength}</span>
+            <input
+              type="number"
+              min={0}
+              value={draft.minLength ?? ''}
+              onChange={(e) => setDraft({ ...draft, minLength: parseLength(e.target.value) })}
+            />
+          </label>
+          <label className="validation-field validation-field--narrow">
+            <span>{labels.maxLength}</span>
+            <input
+              type="number"
+              min={0}
+              value={draft.maxLength ?? ''}
+              onChange={(e) => setDraft({ ...draft, maxLength: parseLength(e.target.value) })}
+            />
+          </label>
+        </div>
+        {lengthError && <p className="validation-error">{labels.invalidLength}</p>}
+
+        <label className="validation-field">
+          <span>{labels.pattern}</span>
+          <input
+            type="text"
+            value={draft.pattern}
+            onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+            placeholder={labels.patternPlaceholder}
+            spellCheck={false}
+          />
+        </label>
+        {patternError && <p className="validation-error">{labels.invalidPattern(patternError)}</p>}
+
+        <label className="validation-field">
+          <span>{labels.checkDigit}</span>
+          <select
+            value={draft.checkDigit}
+            onChange={(e) => setDraft({ ...draft, checkDigit: e.target.value as CheckDigit })}
+          >
+            {CHECK_DIGITS.map(checkDigit => (
+              <option key={checkDigit} value={checkDigit}>{labels.checkDigits[checkDigit]}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="validation-field">
+          <span>{labels.jsonSchema}</span>
+          <textarea
+            value={draft.jsonSchema}
+            onChange={(e) => setDraft({ ...draft, jsonSchema: e.target.value })}
+            placeholder={labels.jsonSchemaPlaceholder}
+            rows={4}
+            spellCheck={false}
+          />
+        </label>
+        {schemaError && <p className="validation-error">{labels.invalidSchema(schemaError)}</p>}
+
+        <div className="validation-actions-field">
+          <span>{labels.rejectAction}</span>
+          {REJECT_ACTIONS.map(action => (
+            <label key={action} className="validation-option">
+              <input
+                type="radio"
+                name="validation-reject-action"
+                checked={draft.rejectAction === action}
+                onChange={() => setDraft({ ...draft, rejectAction: action })}
+              />
+              {labels.rejectActions[action]}
+            </label>
+          ))}
+        </div>
+
+        <label className="validation-field">
+          <span>{labels.sample}</span>
+          <input
+            type="text"
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            placeholder={labels.samplePlaceholder}
+            spellCheck={false}
+          />
+        </label>
+        {sample && !hasError && (
+          <p className={`validation-preview ${sampleReason ? 'rejected' : 'accepted'}`}>
+            {sampleReason ? labels.sampleRejected(formatRejectReason(sampleReason, labels)) : labels.sampleAccepted}
+          </p>
+        )}
+        <p className="validation-hint">{labels.hint}</p>
+      </div>
+
+      <div className="validation-actions">
+        <button className="validation-button" onClick={() => setDraft(DEFAULT_VALIDATION_RULES)}>
+          {labels.clear}
+        </button>
+        <button
+          className="validation-button primary"
+          onClick={() => onApply(draft)}
+          disabled={!isDirty || hasError}
+        >
+          {labels.apply}
+        </button>
+      </div>
+    </details>
+  )
+}
+
+export default ValidationPanel
@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState, type RefObject } from 'react'
+import {
+  DEFAULT_FRAME_RATE,
+  PLAYBACK_RATES,
+  stepVideoFrame,
+  toVideoReportCsv,
+  VIDEO_FILE_ACCEPT,
+  type VideoScanOptions,
+  type VideoScanReport
+} from './videoReplay'
+import { downloadBlob, exportFilename } from './exportResults'
+import { useI18n } from './i18n'
+import { logger } from './logger'
+import './VideoReplayPanel.css'
+
+interface VideoReplayPanelProps {
+  videoRef: RefObject<HTMLVideoElement | null>
+  fileName: string | null // 再生中の動画ファイル（null は未再生）
+  disabled: boolean
+  onOpen: (file: File) => void
+  onScanAllFrames: (options: VideoScanOptions) => Promise<VideoScanReport>
+}
+
+function VideoReplayPanel({ videoRef, fileName, disabled, onOpen, onScanAllFrames }: VideoReplayPanelProps) {
+  const [playbackRate, setPlaybackRate] = useState(1)
+  const [paused, setPaused] = useState(false)
+  const [progress, setProgress] = useState<number | null>(null) // 全フレーム解析の進捗（0〜1）
+  const [report, setReport] = useState<VideoScanReport | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const { messages } = useI18n()
+  const labels = messages.videoReplay
+
+  // 再生・一時停止はビデオ要素の状態に合わせる（終端での停止を含む）
+  useEffect(() => {
+    const video = videoRef.current
+    if (!fileName || !video) return
+    const update = () => setPaused(video.paused)
+    update()
+    video.playbackRate = playbackRate
+    video.addEventListener('play', update)
+    video.addEventListener('pause', update)
+    return () => {
+      video.removeEventListener('play', update)
+      video.removeEventListener('pause', update)
+    }
+  }, [videoRef, fileName, playbackRate])
+
+  // 別の動画に切り替えたら前の結果は破棄
+  useEffect(() => {
+    abortRef.current?.abort()
+    setReport(null)
+  }, [fileName])
+
+  const togglePlay = () => {
+    const video = videoRef.current
+    if (!video) return
+    if (video.paused) {
+      video.play().catch(err => logger.error('video_replay', { action: 'play', error: err }))
+    } else {
+      video.pause()
+    }
+  }
+
+  const step = (direction: 1 | -1) => {
+    const video = videoRef.current
+    if (!video) return
+    stepVideoFrame(video, direction).catch(err => logger.error('video_replay', { action: 'step', error: err }))
+  }
+
+  const scanAllFrames = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setProgress(0)
+    setReport(null)
+    try {
+      const result = await onScanAllFrames({
+        frameRate: DEFAULT_FRAME_RATE,
+        signal: controller.signal,
+        onProgress: (time, duration) => setProgress(duration > 0 ? time / duration : 0)
+      })
+      setReport(result)
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        logger.error('video_replay', { action: 'scanAllFrames', error: err })
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const downloadReport = (format: 'csv' | 'json') => {
+    if (!report) return
+    const base = `${report.source.replace(/\.[^.]+$/, '')}_frames`
+    downloadBlob(
+      format === 'csv'
+        ? new Blob([toVideoReportCsv(report)], { type: 'text/csv;charset=utf-8' })
+        : new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }),
+      exportFilename(base, format)
+    )
+  }
+
+  return (
+    <details className="video-replay-panel">
+      <summary>
+        {labels.title}
+        {fileName && <span className="video-replay-summary">: {fileName}</span>}
+      </summary>
+
+      <div className="video-replay-actions">
+        <button className="video-replay-button" onClick={() => inputRef.current?.click()} disabled={disabled}>
+          {labels.open}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={VIDEO_FILE_ACCEPT}
+          hidden
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) onOpen(file)
+            e.target.value = ''
+          }}
+        />
+      </div>
+
+      {fileName && (
+        <>
+          <div className="video-replay-actions">
+            <button className="video-replay-button" onClick={() => step(-1)} disabled={progress !== null}>
+              ⏮ {labels.previousFrame}
+            </button>
+            <button className="video-replay-button" onClick={togglePlay} disabled={progress !== null}>
+              {paused ? `▶ ${labels.play}` : `⏸ ${labels.pause}`}
+            </button>
+            <button className="video-replay-button" onClick={() => step(1)} disabled={progress !== null}>
+              {labels.nextFrame} ⏭
+            </button>
+            <label className="video-replay-rate">
+              <span>{labels.speed}</span>
+              <select value={playbackRate} onChange={(e) => setPlaybackRate(Number(e.target.value))}>
+                {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>×{rate}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="video-replay-actions">
+            {progress === null ? (
+              <button className="video-replay-button primary" onClick={scanAllFrames}>
+                {labels.scanAllFrames}
+              </button>
+            ) : (
+              <>
+                <progress value={progress} max={1} />
+                <button className="video-replay-button" onClick={() => abortRef.current?.abort()}>
+                  {labels.cancel}
+                </button>
+              </>
+            )}
+          </div>
+          <p className="video-replay-hint">{labels.scanAllFramesHint}</p>
+        </>
+      )}
+
+      {report && (
+        <div className="video-replay-report">
+          <div>{labels.reportSummary(report.frames, report.framesWithCodes, report.codes.length, report.timeouts)}</div>
+          <ul>
+            {report.codes.map(code => (
+              <li key={`${code.format}-${code.text}`}>
+                <span className="video-replay-code">{code.text}</span>
+                <span className="video-replay-times">
+                  {labels.timeRange(code.firstTime.toFixed(2), code.lastTime.toFixed(2), code.frames)}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <div className="video-replay-actions">
+            <button className="video-replay-button" onClick={() => downloadReport('csv')}>CSV</button>
+            <button className="video-replay-button" onClick={() => downloadReport('json')}>JSON</button>
+          </div>
+        </div>
+      )}
+    </details>
+  )
+}
+
+export default VideoReplayPanel
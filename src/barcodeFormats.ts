@@ -0,0 +1,38 @@
+import type { ReadInputBarcodeFormat } from 'zxing-wasm/reader'
+
+export type FormatPresetId = 'qr' | 'retail-1d' | 'logistics-1d' | 'all-2d' | 'all'
+
+export interface FormatPreset {
+  id: FormatPresetId
+  formats: ReadInputBarcodeFormat[]
+}
+
+// 読み取り対象フォーマットのプリセット（対象が少ないほど高速）
+export const FORMAT_PRESETS: FormatPreset[] = [
+  { id: 'qr', formats: ['QRCode'] },
+  { id: 'retail-1d', formats: ['EAN-13', 'EAN-8', 'UPC-A', 'UPC-E'] },
+  { id: 'logistics-1d', formats: ['Code128', 'Code39', 'Code93', 'ITF', 'Codabar'] },
+  { id: 'all-2d', formats: ['Matrix-Codes'] },
+  { id: 'all', formats: ['Any'] }
+]
+
+export const DEFAULT_FORMAT_PRESET: FormatPresetId = 'qr'
+
+export function getFormatPreset(id: FormatPresetId): FormatPreset {
+  return FORMAT_PRESETS.find(preset => preset.id === id) ?? FORMAT_PRESETS[0]
+}
+
+// 表示用の短いフォーマット名
+export function formatLabel(format: string | undefined): string {
+  switch (format) {
+    case undefined: // フォーマット未記録の結果はQR専用だった頃のもの
+    case 'QRCode':
+      return 'QR'
+    case 'MicroQRCode':
+      return 'Micro QR'
+    case 'rMQRCode':
+      return 'rMQR'
+    default:
+      return format
+  }
+}
@@ -0,0 +1,117 @@
+// カメラ選択・解像度・ライト・ズームの制御
+
+export type ResolutionId = 'vga' | 'hd' | 'fhd'
+
+export interface ResolutionPreset {
+  id: ResolutionId
+  width: number
+  height: number
+}
+
+export const RESOLUTION_PRESETS: ResolutionPreset[] = [
+  { id: 'vga', width: 640, height: 480 },
+  { id: 'hd', width: 1280, height: 720 },
+  { id: 'fhd', width: 1920, height: 1080 }
+]
+
+export interface CameraPreferences {
+  deviceId: string | null // null の場合は背面カメラ（facingMode: environment）
+  resolution: ResolutionId
+}
+
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = {
+  deviceId: null,
+  resolution: 'hd'
+}
+
+// DOMの型定義に含まれないトーチ・ズームの機能情報
+interface ExtendedTrackCapabilities extends MediaTrackCapabilities {
+  torch?: boolean
+  zoom?: { min: number; max: number; step?: number }
+}
+
+interface ExtendedTrackSettings extends MediaTrackSettings {
+  torch?: boolean
+  zoom?: number
+}
+
+export interface TrackFeatures {
+  torch: boolean
+  zoom: { min: number; max: number; step: number; value: number } | null
+}
+
+const CAMERA_PREFERENCES_KEY = 'multi-qr-scanner:camera'
+
+export function loadCameraPreferences(): CameraPreferences {
+  try {
+    const saved = localStorage.getItem(CAMERA_PREFERENCES_KEY)
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<CameraPreferences>
+      return {
+        deviceId: typeof parsed.deviceId === 'string' ? parsed.deviceId : null,
+        resolution: RESOLUTION_PRESETS.some(preset => preset.id === parsed.resolution)
+          ? parsed.resolution!
+          : DEFAULT_CAMERA_PREFERENCES.resolution
+      }
+    }
+  } catch {
+    // 壊れた設定は無視して既定値を使う
+  }
+  return DEFAULT_CAMERA_PREFERENCES
+}
+
+export function saveCameraPreferences(preferences: CameraPreferences) {
+  try {
+    localStorage.setItem(CAMERA_PREFERENCES_KEY, JSON.stringify(preferences))
+  } catch {
+    // プライベートブラウズ等で保存できない場合は無視
+  }
+}
+
+export function buildVideoConstraints(preferences: CameraPreferences): MediaTrackConstraints {
+  const resolution = RESOLUTION_PRESETS.find(preset => preset.id === preferences.resolution)
+    ?? RESOLUTION_PRESETS[1]
+  return {
+    ...(preferences.deviceId
+      ? { deviceId: { exact: preferences.deviceId } }
+      : { facingMode: 'environment' }),
+    width: { ideal: resolution.width },
+    height: { ideal: resolution.height }
+  }
+}
+
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return []
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  // 権限取得前はdeviceIdが空になるブラウザがあるため除外
+  return devices.filter(device => device.kind === 'videoinput' && device.deviceId)
+}
+
+export function getTrackFeatures(track: MediaStreamTrack): TrackFeatures {
+  // getCapabilities は Firefox 等で未実装
+  if (typeof track.getCapabilities !== 'function') {
+    return { torch: false, zoom: null }
+  }
+  const capabilities = track.getCapabilities() as ExtendedTrackCapabilities
+  const settings = track.getSettings() as ExtendedTrackSettings
+
+  return {
+    torch: capabilities.torch === true,
+    zoom: capabilities.zoom && capabilities.zoom.max > capabilities.zoom.min
+      ? {
+          min: capabilities.zoom.min,
+          max: capabilities.zoom.max,
+          step: capabilities.zoom.step || 0.1,
+          value: settings.zoom ?? capabilities.zoom.min
+        }
+      : null
+  }
+}
+
+export function applyTorch(track: MediaStreamTrack, enabled: boolean): Promise<void> {
+  return track.applyConstraints({ advanced: [{ torch: enabled } as MediaTrackConstraintSet] })
+}
+
+export function applyZoom(track: MediaStreamTrack, zoom: number): Promise<void> {
+  return track.applyConstraints({ advanced: [{ zoom } as MediaTrackConstraintSet] })
+}
@@ -0,0 +1,54 @@
+import type { WriteInputBarcodeFormat } from 'zxing-wasm/writer'
+
+// コードの生成（破損したラベルの再印刷・結果一覧の共有用）
+// 生成は読み取りと違い操作時に数回だけなので、ワーカーを使わずメインスレッドで行う
+// zxing-wasm/writer は初回の生成時に読み込む（通常のスキャンでは読み込まない）
+
+export const CODE_IMAGE_SCALE = 8 // PNGの1モジュールあたりのピクセル数
+
+export interface GeneratedCode {
+  svg: string
+  png: Blob
+}
+
+let writerModule: Promise<typeof import('zxing-wasm/writer')> | null = null
+
+function loadWriter() {
+  writerModule ??= import('zxing-wasm/writer')
+    .then(async writer => {
+      await writer.prepareZXingModule({
+        overrides: {
+          // 読み取り用と同じくローカルのpublicディレクトリから読み込む（オフライン時はService Workerのキャッシュから返る）
+          locateFile: (path: string, prefix: string) => (path.endsWith('.wasm') ? '/' + path : prefix + path)
+        },
+        fireImmediately: true
+      })
+      return writer
+    })
+    .catch(err => {
+      writerModule = null // 次回の生成で再試行する
+      throw err
+    })
+  return writerModule
+}
+
+/**
+ * テキストからコードを生成する。読み取った形式で作り直し、形式が未記録の場合はQRコードにする。
+ * 形式に合わない内容（EAN-13に英字など）の場合は例外を投げる。
+ */
+export async function generateCode(text: string, format?: string): Promise<GeneratedCode> {
+  const writer = await loadWriter()
+  const result = await writer.writeBarcode(text, {
+    format: (format ?? 'QRCode') as WriteInputBarcodeFormat,
+    scale: CODE_IMAGE_SCALE
+  })
+  if (result.error || !result.image) {
+    throw new Error(result.error || 'Failed to generate code')
+  }
+  return { svg: result.svg, png: result.image }
+}
+
+/** <img> に表示するためのSVGのデータURL */
+export function svgDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import type { ReaderOptions, ReadResult } from 'zxing-wasm/reader'
+import { decodeWithStrategy, type DecodeStrategy, type PixelImage, type StageDecoder } from './decodeStrategy'
+
+function image(width: number, height: number): PixelImage {
+  return { data: new Uint8ClampedArray(width * height * 4).fill(128), width, height }
+}
+
+// 左上 (x, y)・一辺 size のコードの読み取り結果
+function read(text: string, x: number, y: number, size: number): ReadResult {
+  return {
+    text,
+    format: 'QRCode',
+    position: {
+      topLeft: { x, y },
+      topRight: { x: x + size, y },
+      bottomRight: { x: x + size, y: y + size },
+      bottomLeft: { x, y: y + size }
+    }
+  } as ReadResult
+}
+
+// 呼び出しごとに決めた時間がかかり、指定した回目で結果を返すデコーダー
+function createDecoder(found: Record<number, ReadResult[]> = {}, stageTime = 10) {
+  let time = 0
+  const calls: { width: number; tryHarder: boolean }[] = []
+  const decode: StageDecoder = async (input: PixelImage, options: ReaderOptions) => {
+    calls.push({ width: input.width, tryHarder: options.tryHarder ?? false })
+    time += stageTime
+    return found[calls.length] ?? []
+  }
+  return { decode, calls, now: () => time }
+}
+
+const ESCALATE: DecodeStrategy = { scale: 0.5, escalate: true, budget: 1000 }
+
+describe('decodeWithStrategy', () => {
+  it('見つかるまで 縮小→tryHarder→元の解像度→前処理 の順に試す', async () => {
+    const { decode, calls, now } = createDecoder()
+    const { results, report } = await decodeWithStrategy(image(200, 100), { tryHarder: false }, ESCALATE, decode, now)
+
+    expect(results).toEqual([])
+    expect(report.attempts.map(attempt => attempt.stage))
+      .toEqual(['base', 'tryHarder', 'fullResolution', 'contrast', 'binarize', 'inverted'])
+    expect(calls).toEqual([
+      { width: 100, tryHarder: false },
+      { width: 100, tryHarder: true },
+      { width: 200, tryHarder: true },
+      { width: 200, tryHarder: true },
+      { width: 200, tryHarder: true },
+      { width: 200, tryHarder: true }
+    ])
+    expect(report).toMatchObject({ stage: null, budgetExceeded: false })
+  })
+
+  it('見つかった段階で終了する', async () => {
+    const { decode, calls, now } = createDecoder({ 3: [read('A', 10, 10, 20)] })
+    const { report } = await decodeWithStrategy(image(200, 100), {}, ESCALATE, decode, now)
+
+    expect(calls).toHaveLength(3)
+    expect(report.stage).toBe('fullResolution')
+  })
+
+  it('最初からtryHarderが有効な場合は同じ条件の段階を省略する', async () => {
+    const { decode, now } = createDecoder()
+    const { report } = await decodeWithStrategy(image(200, 100), { tryHarder: true }, ESCALATE, decode, now)
+
+    expect(report.attempts.map(attempt => attempt.stage))
+      .toEqual(['base', 'fullResolution', 'contrast', 'binarize', 'inverted'])
+  })
+
+  it('再試行しない設定では最初の段階だけ試す', async () => {
+    const { decode, calls, now } = createDecoder()
+    await decodeWithStrategy(image(200, 100), {}, { ...ESCALATE, escalate: false }, decode, now)
+
+    expect(calls).toEqual([{ width: 100, tryHarder: false }])
+  })
+
+  it('上限時間を過ぎたら次の段階を始めない', async () => {
+    const { decode, calls, now } = createDecoder({}, 40)
+    const { results, report } = await decodeWithStrategy(image(200, 100), {}, { ...ESCALATE, budget: 100 }, decode, now)
+
+    // 40・80ミリ秒の時点では続け、120ミリ秒の時点で打ち切る
+    expect(calls).toHaveLength(3)
+    expect(results).toEqual([])
+    expect(report).toMatchObject({ stage: null, budgetExceeded: true })
+  })
+
+  it('上限時間を過ぎていても最初の段階は試す', async () => {
+    const { decode, calls, now } = createDecoder()
+    await decodeWithStrategy(image(200, 100), {}, { ...ESCALATE, budget: 0 }, decode, now)
+
+    expect(calls).toHaveLength(1)
+  })
+
+  it('縮小した段階で見つかった座標を入力画像の座標に戻す', async () => {
+    const { decode, now } = createDecoder({ 2: [read('A', 10, 5, 20)] })
+    const { results, report } = await decodeWithStrategy(image(200, 100), {}, ESCALATE, decode, now)
+
+    expect(report.stage).toBe('tryHarder')
+    expect(results[0].position).toEqual(read('A', 20, 10, 40).position)
+  })
+
+  it('元の解像度で見つかった座標はそのまま返す', async () => {
+    const { decode, now } = createDecoder({ 4: [read('A', 10, 5, 20)] })
+    const { results, report } = await decodeWithStrategy(image(200, 100), {}, ESCALATE, decode, now)
+
+    expect(report.stage).toBe('contrast')
+    expect(results[0].position).toEqual(read('A', 10, 5, 20).position)
+  })
+})
@@ -0,0 +1,269 @@
+import type { Point, Position, ReaderOptions, ReadResult } from 'zxing-wasm/reader'
+
+// 読み取れないフレームを段階的に重い設定で再試行するデコード戦略（ワーカー内で実行。DOM非依存）
+
+/** RGBAの画素データ（ImageDataと同じ形） */
+export interface PixelImage {
+  data: Uint8ClampedArray<ArrayBuffer>
+  width: number
+  height: number
+}
+
+export type DecodeStageId = 'base' | 'tryHarder' | 'fullResolution' | 'contrast' | 'binarize' | 'inverted'
+
+export const DECODE_STAGES: DecodeStageId[] = ['base', 'tryHarder', 'fullResolution', 'contrast', 'binarize', 'inverted']
+
+export interface DecodeStrategy {
+  scale: number // 最初の段階で使う縮小倍率（入力画像は縮小前の解像度）
+  escalate: boolean // 見つからない場合に次の段階を試す
+  budget: number // 1フレームの処理時間の上限（ミリ秒）。超えたら次の段階を始めない
+}
+
+export interface StageAttempt {
+  stage: DecodeStageId
+  time: number
+  found: number
+}
+
+export interface DecodeReport {
+  stage: DecodeStageId | null // 検出できた段階
+  attempts: StageAttempt[]
+  budgetExceeded: boolean // 時間切れで残りの段階を試さなかったか
+}
+
+export interface StageStats {
+  attempts: number
+  hits: number
+  totalTime: number
+}
+
+export interface DecodeStats {
+  frames: number
+  budgetExceeded: number
+  stages: Record<DecodeStageId, StageStats>
+}
+
+export function createDecodeStats(): DecodeStats {
+  const stages = {} as Record<DecodeStageId, StageStats>
+  for (const stage of DECODE_STAGES) {
+    stages[stage] = { attempts: 0, hits: 0, totalTime: 0 }
+  }
+  return { frames: 0, budgetExceeded: 0, stages }
+}
+
+/** 1フレーム分の結果を統計に加える（元の統計は変更しない） */
+export function recordDecode(stats: DecodeStats, report: DecodeReport): DecodeStats {
+  const stages = { ...stats.stages }
+  for (const attempt of report.attempts) {
+    const current = stages[attempt.stage]
+    stages[attempt.stage] = {
+      attempts: current.attempts + 1,
+      hits: current.hits + (attempt.found > 0 ? 1 : 0),
+      totalTime: current.totalTime + attempt.time
+    }
+  }
+  return {
+    frames: stats.frames + 1,
+    budgetExceeded: stats.budgetExceeded + (report.budgetExceeded ? 1 : 0),
+    stages
+  }
+}
+
+function createImage(width: number, height: number): PixelImage {
+  return { data: new Uint8ClampedArray(width * height * 4), width, height }
+}
+
+function toLuminance(image: PixelImage): Uint8ClampedArray<ArrayBuffer> {
+  const { data, width, height } = image
+  const luminance = new Uint8ClampedArray(width * height)
+  for (let i = 0, p = 0; i < luminance.length; i++, p += 4) {
+    luminance[i] = (data[p] * 299 + data[p + 1] * 587 + data[p + 2] * 114) / 1000
+  }
+  return luminance
+}
+
+function fromLuminance(luminance: ArrayLike<number>, width: number, height: number): PixelImage {
+  const image = createImage(width, height)
+  for (let i = 0, p = 0; i < luminance.length; i++, p += 4) {
+    image.data[p] = image.data[p + 1] = image.data[p + 2] = luminance[i]
+    image.data[p + 3] = 255
+  }
+  return image
+}
+
+/** 画素の平均を取って縮小する */
+export function downscale(image: PixelImage, scale: number): PixelImage {
+  if (scale >= 1) return image
+  const width = Math.max(1, Math.floor(image.width * scale))
+  const height = Math.max(1, Math.floor(image.height * scale))
+  const result = createImage(width, height)
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * image.height / height)
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * image.height / height))
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * image.width / width)
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * image.width / width))
+      let r = 0, g = 0, b = 0
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const p = (sy * image.width + sx) * 4
+          r += image.data[p]
+          g += image.data[p + 1]
+          b += image.data[p + 2]
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0)
+      const q = (y * width + x) * 4
+      result.data[q] = r / count
+      result.data[q + 1] = g / count
+      result.data[q + 2] = b / count
+      result.data[q + 3] = 255
+    }
+  }
+  return result
+}
+
+/** 明るさの分布の両端（1%）を切り捨ててコントラストを引き伸ばす */
+export function stretchContrast(image: PixelImage): PixelImage {
+  const luminance = toLuminance(image)
+  const histogram = new Uint32Array(256)
+  for (const value of luminance) histogram[value]++
+
+  const cutoff = luminance.length * 0.01
+  let low = 0
+  let lowCount = histogram[0]
+  while (low < 255 && lowCount <= cutoff) lowCount += histogram[++low]
+  let high = 255
+  let highCount = histogram[255]
+  while (high > 0 && highCount <= cutoff) highCount += histogram[--high]
+  if (high <= low) return fromLuminance(luminance, image.width, image.height)
+
+  const range = high - low
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = (luminance[i] - low) * 255 / range
+  }
+  return fromLuminance(luminance, image.width, image.height)
+}
+
+/**
+ * 周囲の平均より暗い画素を黒にする適応的二値化（影・照明むら対策）。
+ * 積分画像を使うため、窓の大きさによらず画素数に比例した時間で終わる。
+ */
+export function binarizeAdaptive(image: PixelImage, offset = 7): PixelImage {
+  const { width, height } = image
+  const luminance = toLuminance(image)
+  const radius = Math.max(4, Math.floor(Math.min(width, height) / 16))
+
+  const integral = new Uint32Array((width + 1) * (height + 1))
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0
+    for (let x = 0; x < width; x++) {
+      rowSum += luminance[y * width + x]
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum
+    }
+  }
+
+  const output = new Uint8ClampedArray(width * height)
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius)
+    const bottom = Math.min(height, y + radius + 1)
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - radius)
+      const right = Math.min(width, x + radius + 1)
+      const sum = integral[bottom * (width + 1) + right] - integral[top * (width + 1) + right]
+        - integral[bottom * (width + 1) + left] + integral[top * (width + 1) + left]
+      const mean = sum / ((bottom - top) * (right - left))
+      output[y * width + x] = luminance[y * width + x] < mean - offset ? 0 : 255
+    }
+  }
+  return fromLuminance(output, width, height)
+}
+
+/** 白黒を反転する（黒地に白のコード向け） */
+export function invertImage(image: PixelImage): PixelImage {
+  const luminance = toLuminance(image)
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 255 - luminance[i]
+  }
+  return fromLuminance(luminance, image.width, image.height)
+}
+
+function scalePoint(point: Point, factor: number): Point {
+  return { x: point.x * factor, y: point.y * factor }
+}
+
+function scalePosition(position: Position, factor: number): Position {
+  return {
+    topLeft: scalePoint(position.topLeft, factor),
+    topRight: scalePoint(position.topRight, factor),
+    bottomRight: scalePoint(position.bottomRight, factor),
+    bottomLeft: scalePoint(position.bottomLeft, factor)
+  }
+}
+
+export type StageDecoder = (image: PixelImage, options: ReaderOptions) => Promise<ReadResult[]>
+
+interface StagePlan {
+  id: DecodeStageId
+  scale: number
+  tryHarder: boolean
+  filter: ((image: PixelImage) => PixelImage) | null // 元の解像度の画像に適用する前処理
+}
+
+/**
+ * 段階的にデコードする。
+ * 順序: 縮小画像 → tryHarder → 元の解像度 → コントラスト補正 → 適応的二値化 → 白黒反転。
+ * 最初に見つかった段階で終了し、座標は入力画像の座標系で返す。
+ */
+export async function decodeWithStrategy(
+  image: PixelImage,
+  options: ReaderOptions,
+  strategy: DecodeStrategy,
+  decode: StageDecoder,
+  now: () => number
+): Promise<{ results: ReadResult[]; report: DecodeReport }> {
+  const startTime = now()
+  const scale = Math.min(strategy.scale, 1)
+  let scaled: PixelImage | null = null
+
+  const plans: StagePlan[] = [{ id: 'base', scale, tryHarder: options.tryHarder ?? false, filter: null }]
+  if (strategy.escalate) {
+    plans.push(
+      { id: 'tryHarder', scale, tryHarder: true, filter: null },
+      { id: 'fullResolution', scale: 1, tryHarder: true, filter: null },
+      { id: 'contrast', scale: 1, tryHarder: true, filter: stretchContrast },
+      { id: 'binarize', scale: 1, tryHarder: true, filter: image => binarizeAdaptive(image) },
+      { id: 'inverted', scale: 1, tryHarder: true, filter: invertImage }
+    )
+  }
+
+  const attempts: StageAttempt[] = []
+  let previous: StagePlan | null = null
+  for (const plan of plans) {
+    // 直前と同じ条件になる段階は省略（例: 最初からtryHarderが有効、縮小しない設定）
+    if (previous && !plan.filter && !previous.filter
+      && plan.scale === previous.scale && plan.tryHarder === previous.tryHarder) {
+      continue
+    }
+    if (attempts.length > 0 && now() - startTime >= strategy.budget) {
+      return { results: [], report: { stage: null, attempts, budgetExceeded: true } }
+    }
+    previous = plan
+
+    const stageStart = now()
+    const input = plan.filter
+      ? plan.filter(image)
+      : plan.scale < 1 ? (scaled ??= downscale(image, plan.scale)) : image
+    const reads = await decode(input, { ...options, tryHarder: plan.tryHarder })
+    attempts.push({ stage: plan.id, time: now() - stageStart, found: reads.length })
+
+    if (reads.length > 0) {
+      const results = plan.scale === 1
+        ? reads
+        : reads.map(read => ({ ...read, position: scalePosition(read.position, 1 / plan.scale) }))
+      return { results, report: { stage: plan.id, attempts, budgetExceeded: false } }
+    }
+  }
+  return { results: [], report: { stage: null, attempts, budgetExceeded: false } }
+}
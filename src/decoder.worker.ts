@@ -0,0 +1,77 @@
+import { prepareZXingModule, readBarcodes } from 'zxing-wasm/reader'
+import type { DecoderInput, DecoderRequest, DecoderResponse } from './decoderClient'
+import { decodeWithStrategy, type PixelImage } from './decodeStrategy'
+
+// zxing-wasmモジュールはワーカー内でのみ保持する
+const ready = (async () => {
+  try {
+    // ワーカーからは診断ログに書き込めないため、初期化の詳細は開発時のみコンソールに出す
+    if (import.meta.env.DEV) console.log('[INIT] ZXing初期化開始（ワーカー）...')
+    await prepareZXingModule({
+      overrides: {
+        locateFile: (path: string, prefix: string) => {
+          if (path.endsWith('.wasm')) {
+            // ローカルのpublicディレクトリから読み込み（オフライン時はService Workerのキャッシュから返る）
+            const localPath = '/' + path
+            if (import.meta.env.DEV) console.log('[INIT] WASM読み込み（ローカル）:', localPath)
+            return localPath
+          }
+          return prefix + path
+        }
+      },
+      fireImmediately: true
+    })
+    if (import.meta.env.DEV) console.log('[INIT] ZXing初期化完了!')
+    post({ type: 'ready' })
+  } catch (err) {
+    post({ type: 'init-error', message: err instanceof Error ? err.message : String(err) })
+  }
+})()
+
+function post(message: DecoderResponse) {
+  self.postMessage(message)
+}
+
+// ImageBitmapはOffscreenCanvas経由でImageDataへ変換（画像ファイルはそのままzxingへ渡す）
+function toReaderInput(image: DecoderInput): ImageData | Blob {
+  if (image instanceof ImageData || image instanceof Blob) {
+    return image
+  }
+  const canvas = new OffscreenCanvas(image.width, image.height)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('OffscreenCanvas 2D context is not available')
+  }
+  ctx.drawImage(image, 0, 0)
+  image.close()
+  return ctx.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+function toImageData(image: PixelImage): ImageData {
+  return image instanceof ImageData ? image : new ImageData(image.data, image.width, image.height)
+}
+
+self.addEventListener('message', async (event: MessageEvent<DecoderRequest>) => {
+  const request = event.data
+  if (request.type !== 'decode') return
+
+  await ready
+  try {
+    const input = toReaderInput(request.image)
+    if (request.strategy && input instanceof ImageData) {
+      const { results, report } = await decodeWithStrategy(
+        input,
+        request.options,
+        request.strategy,
+        (image, options) => readBarcodes(toImageData(image), options),
+        () => performance.now()
+      )
+      post({ type: 'result', id: request.id, results, report })
+    } else {
+      const results = await readBarcodes(input, request.options)
+      post({ type: 'result', id: request.id, results })
+    }
+  } catch (err) {
+    post({ type: 'error', id: request.id, message: err instanceof Error ? err.message : String(err) })
+  }
+})
@@ -0,0 +1,202 @@
+import type { ReaderOptions, ReadResult } from 'zxing-wasm/reader'
+import { createDecodeStats, recordDecode, type DecodeReport, type DecodeStats, type DecodeStrategy } from './decodeStrategy'
+import { logger } from './logger'
+
+export type DecoderInput = ImageData | ImageBitmap | Blob
+
+export type DecoderRequest = {
+  type: 'decode'
+  id: number
+  image: DecoderInput
+  options: ReaderOptions
+  strategy?: DecodeStrategy // カメラフレームのみ（画像ファイルは1回だけデコード）
+}
+
+export type DecoderResponse =
+  | { type: 'ready' }
+  | { type: 'init-error'; message: string }
+  | { type: 'result'; id: number; results: ReadResult[]; report?: DecodeReport }
+  | { type: 'error'; id: number; message: string }
+
+export const DECODE_TIMEOUT_MESSAGE = 'readBarcodes timeout'
+
+interface PendingDecode {
+  resolve: (results: ReadResult[]) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+function createWorker(): Worker {
+  return new Worker(new URL('./decoder.worker.ts', import.meta.url), { type: 'module' })
+}
+
+/**
+ * デコーダーワーカーのクライアント。
+ * カメラフレームは同時に1枚のみ処理し、処理中に届いたフレームは破棄する。
+ * 画像ファイルは破棄せずワーカー側で順番に処理する。
+ * 画像ファイルの処理中はカメラフレームも破棄する（長いデコードの後ろで待つフレームがタイムアウトし、
+ * ワーカーの作り直しで画像ファイルのデコードまで失敗させないため）。
+ * タイムアウトしたデコードはワーカーごと終了し、新しいワーカーを起動する。
+ */
+export class DecoderClient {
+  private worker: Worker
+  private pending = new Map<number, PendingDecode>()
+  private frameId: number | null = null
+  private frameDone: Promise<void> = Promise.resolve()
+  private fileDecodes = 0
+  private nextId = 1
+  private readyPromise: Promise<void>
+  private timeout: number
+  private stats: DecodeStats = createDecodeStats()
+
+  constructor(timeout: number) {
+    this.timeout = timeout
+    this.worker = createWorker()
+    this.readyPromise = this.attach(this.worker)
+  }
+
+  /** ワーカー内のzxing-wasm初期化完了を待つ */
+  ready(): Promise<void> {
+    return this.readyPromise
+  }
+
+  /** カメラフレームのタイムアウトを変更する（次のデコードから反映） */
+  setFrameTimeout(timeout: number) {
+    this.timeout = timeout
+  }
+
+  /** カメラフレームのデコード段階ごとの統計 */
+  getStats(): DecodeStats {
+    return this.stats
+  }
+
+  resetStats() {
+    this.stats = createDecodeStats()
+  }
+
+  get isBusy(): boolean {
+    return this.frameId !== null || this.fileDecodes > 0
+  }
+
+  /**
+   * カメラフレームをワーカーへ転送してデコードする。
+   * 処理中（画像ファイルの処理中を含む）の場合はフレームを破棄して null を返す。
+   * strategy を指定すると、見つからない場合に段階的に重い設定で再試行する。
+   */
+  decode(image: ImageData | ImageBitmap, options: ReaderOptions, strategy?: DecodeStrategy): Promise<ReadResult[] | null> {
+    if (this.isBusy) {
+      if (image instanceof ImageBitmap) image.close()
+      return Promise.resolve(null)
+    }
+
+    const id = this.nextId++
+    this.frameId = id
+    const transfer: Transferable[] = image instanceof ImageData ? [image.data.buffer] : [image]
+    const promise = this.request(id, image, options, transfer, this.timeout, strategy)
+    this.frameDone = promise.then(() => {}, () => {})
+    return promise
+  }
+
+  /** 画像ファイル（JPEG/PNG等）をデコードする。処理中でも破棄しない */
+  async decodeFile(file: Blob, options: ReaderOptions, timeout = this.timeout): Promise<ReadResult[]> {
+    this.fileDecodes++
+    try {
+      // 処理中のカメラフレームが終わってから送る（タイムアウトを画像ファイルの処理時間だけで数えるため）
+      await this.frameDone
+      return await this.request(this.nextId++, file, options, [], timeout)
+    } finally {
+      this.fileDecodes--
+    }
+  }
+
+  terminate() {
+    this.worker.terminate()
+    this.rejectAll(new Error('Decoder terminated'))
+  }
+
+  private request(
+    id: number,
+    image: DecoderInput,
+    options: ReaderOptions,
+    transfer: Transferable[],
+    timeout: number,
+    strategy?: DecodeStrategy
+  ): Promise<ReadResult[]> {
+    return new Promise<ReadResult[]>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        if (!this.pending.has(id)) return
+        // 処理が戻らないワーカーは破棄して作り直す
+        this.respawn()
+        this.rejectAll(new Error(DECODE_TIMEOUT_MESSAGE))
+      }, timeout)
+
+      this.pending.set(id, { resolve, reject, timer })
+
+      const request: DecoderRequest = { type: 'decode', id, image, options, strategy }
+      this.worker.postMessage(request, transfer)
+    })
+  }
+
+  private respawn() {
+    logger.warn('worker_respawn')
+    this.worker.terminate()
+    this.worker = createWorker()
+    this.readyPromise = this.attach(this.worker)
+    // 作り直したワーカーの初期化失敗は呼び出し元が待っていないため、ここで記録する
+    this.readyPromise.catch(err => logger.error('init_error', { error: err, respawn: true }))
+  }
+
+  private rejectAll(error: Error) {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer)
+      pending.reject(error)
+    }
+    this.pending.clear()
+    this.frameId = null
+  }
+
+  private attach(worker: Worker): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      worker.addEventListener('message', (event: MessageEvent<DecoderResponse>) => {
+        const message = event.data
+        switch (message.type) {
+          case 'ready':
+            resolve()
+            break
+          case 'init-error':
+            reject(new Error(message.message))
+            break
+          case 'result':
+          case 'error':
+            this.settle(message)
+            break
+        }
+      })
+      worker.addEventListener('error', (event) => {
+        const error = new Error(event.message)
+        reject(error)
+        // 初期化後のエラーでは結果が返らないため、タイムアウトを待たずに処理中のデコードを失敗させる
+        if (worker === this.worker) this.rejectAll(error)
+      })
+    })
+  }
+
+  private settle(message: Extract<DecoderResponse, { id: number }>) {
+    const pending = this.pending.get(message.id)
+    if (!pending) return
+
+    clearTimeout(pending.timer)
+    this.pending.delete(message.id)
+    if (this.frameId === message.id) {
+      this.frameId = null
+    }
+    if (message.type === 'result') {
+      if (message.report) {
+        this.stats = recordDecode(this.stats, message.report)
+      }
+      pending.resolve(message.results)
+    } else {
+      pending.reject(new Error(message.message))
+    }
+  }
+}
@@ -0,0 +1,109 @@
+// 重複判定キーの生成（正規化ルール＋固定長ダイジェスト。DOM非依存）
+
+export interface DedupePolicy {
+  trim: boolean // 前後の空白を除去
+  collapseWhitespace: boolean // 連続する空白を1つにまとめる
+  caseFold: boolean // 大文字・小文字を区別しない
+  stripUrlQuery: boolean // URLのクエリパラメータを除去
+  stripUrlFragment: boolean // URLのフラグメント（#以降）を除去
+  capturePattern: string // 正規表現（空の場合は使わない）。一致した部分を識別子とする
+  captureGroup: number // 識別子とするキャプチャグループ番号（0は一致全体）
+}
+
+export const DEFAULT_DEDUPE_POLICY: DedupePolicy = {
+  trim: false,
+  collapseWhitespace: false,
+  caseFold: false,
+  stripUrlQuery: false,
+  stripUrlFragment: false,
+  capturePattern: '',
+  captureGroup: 1
+}
+
+/** 正規表現をコンパイルする。不正な場合はエラーメッセージを返す */
+export function compileCapturePattern(pattern: string): RegExp | string | null {
+  if (!pattern) return null
+  try {
+    return new RegExp(pattern)
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err)
+  }
+}
+
+function stripUrlParts(text: string, policy: DedupePolicy): string {
+  // スキーム付きのURLのみ対象（数字列などはそのまま）
+  if (!/^[a-z][a-z\d+.-]*:\/\//i.test(text)) return text
+  try {
+    const url = new URL(text)
+    if (policy.stripUrlQuery) url.search = ''
+    if (policy.stripUrlFragment) url.hash = ''
+    return url.href
+  } catch {
+    return text
+  }
+}
+
+/**
+ * ポリシーに従ってテキストを正規化し、重複判定に使う識別子を返す。
+ * 順序: 空白処理 → 正規表現の抽出 → URLのクエリ・フラグメント除去 → 大文字小文字の統一。
+ * 正規表現に一致しない場合は抽出せずに残りの正規化だけを行う。
+ * capture はコンパイル済みの capturePattern（省略時はここでコンパイルする）。
+ */
+export function normalizeForDedupe(
+  text: string,
+  policy: DedupePolicy,
+  capture: RegExp | string | null = compileCapturePattern(policy.capturePattern)
+): string {
+  let value = text
+  if (policy.trim) value = value.trim()
+  if (policy.collapseWhitespace) value = value.replace(/\s+/g, ' ')
+
+  if (capture instanceof RegExp) {
+    const captured = capture.exec(value)?.[policy.captureGroup]
+    if (captured !== undefined) value = captured
+  }
+
+  if (policy.stripUrlQuery || policy.stripUrlFragment) value = stripUrlParts(value, policy)
+  if (policy.caseFold) value = value.toLowerCase()
+  return value
+}
+
+/** 正規表現を一度だけコンパイルした正規化関数（フレームごと・コードごとに呼ぶ場合に使う） */
+export function createNormalizer(policy: DedupePolicy): (text: string) => string {
+  const capture = compileCapturePattern(policy.capturePattern)
+  return text => normalizeForDedupe(text, policy, capture)
+}
+
+/**
+ * 文字列の128bitダイジェスト（cyrb128）を32桁の16進数で返す。
+ * 同期的に計算でき、ペイロードの長さによらず固定長になる（暗号用途ではない）。
+ */
+export function digest(input: string): string {
+  let h1 = 1779033703
+  let h2 = 3144134277
+  let h3 = 1013904242
+  let h4 = 2773480762
+  for (let i = 0; i < input.length; i++) {
+    const k = input.charCodeAt(i)
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067)
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233)
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213)
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179)
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067)
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233)
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213)
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179)
+  h1 ^= h2 ^ h3 ^ h4
+  h2 ^= h1
+  h3 ^= h1
+  h4 ^= h1
+  return [h1, h2, h3, h4].map(h => (h >>> 0).toString(16).padStart(8, '0')).join('')
+}
+
+/** 正規化後の識別子とフォーマットから重複判定キーを作る */
+export function dedupeKey(identity: string, format: string | undefined): string {
+  // 同じ数字列でもフォーマットが異なれば別エントリとして扱う
+  return digest(`${format ?? ''}:${identity}`)
+}
+
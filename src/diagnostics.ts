@@ -0,0 +1,125 @@
+import type { FrameOutcome } from './scanSession'
+import type { LogEntry } from './logger'
+
+const METRICS_WINDOW = 1000 // FPS・デコード時間を計測する期間（ミリ秒）
+
+export interface DiagnosticsMetrics {
+  fps: number // 直近1秒に処理したフレーム数
+  decodeTime: number // 直近1秒の平均処理時間（ミリ秒）
+  scanInterval: number
+  frames: number // 開始からの処理フレーム数（破棄分を除く）
+  dropped: number
+  timeouts: number
+  errors: number
+}
+
+/** スキャンループのフレームの結果から計測値を集計する */
+export class FrameMetrics {
+  private recent: { time: number; processingTime: number }[] = []
+  private totals = { frames: 0, dropped: 0, timeouts: 0, errors: 0 }
+
+  record(outcome: FrameOutcome, now: number) {
+    if (outcome.status === 'dropped') {
+      this.totals.dropped++
+      return
+    }
+    this.totals.frames++
+    if (outcome.status === 'timeout') this.totals.timeouts++
+    if (outcome.status === 'error') this.totals.errors++
+    this.recent.push({ time: now, processingTime: outcome.processingTime })
+    this.prune(now)
+  }
+
+  snapshot(now: number, scanInterval: number): DiagnosticsMetrics {
+    this.prune(now)
+    const decodeTime = this.recent.length > 0
+      ? this.recent.reduce((sum, frame) => sum + frame.processingTime, 0) / this.recent.length
+      : 0
+    return { fps: this.recent.length, decodeTime, scanInterval, ...this.totals }
+  }
+
+  reset() {
+    this.recent = []
+    this.totals = { frames: 0, dropped: 0, timeouts: 0, errors: 0 }
+  }
+
+  private prune(now: number) {
+    while (this.recent.length > 0 && now - this.recent[0].time > METRICS_WINDOW) {
+      this.recent.shift()
+    }
+  }
+}
+
+export interface DeviceInfo {
+  userAgent: string
+  platform: string
+  language: string
+  screen: { width: number; height: number; devicePixelRatio: number }
+  viewport: { width: number; height: number }
+  hardwareConcurrency: number | null
+  deviceMemory: number | null // GB（Chromeのみ）
+  standalone: boolean // ホーム画面から起動したPWAか
+  online: boolean
+}
+
+export function getDeviceInfo(): DeviceInfo {
+  const nav = navigator as Navigator & { deviceMemory?: number; standalone?: boolean }
+  return {
+    userAgent: nav.userAgent,
+    platform: nav.platform,
+    language: nav.language,
+    screen: { width: screen.width, height: screen.height, devicePixelRatio: window.devicePixelRatio },
+    viewport: { width: window.innerWidth, height: window.innerHeight },
+    hardwareConcurrency: nav.hardwareConcurrency ?? null,
+    deviceMemory: nav.deviceMemory ?? null,
+    standalone: nav.standalone === true || window.matchMedia('(display-mode: standalone)').matches,
+    online: nav.onLine
+  }
+}
+
+export interface DiagnosticsBundle {
+  generatedAt: string
+  mode: string // development / production
+  device: DeviceInfo
+  metrics: DiagnosticsMetrics
+  context: Record<string, unknown> // 設定などその時点の状態
+  log: LogEntry[]
+}
+
+export function createDiagnosticsBundle(
+  metrics: DiagnosticsMetrics,
+  context: Record<string, unknown>,
+  log: LogEntry[]
+): DiagnosticsBundle {
+  return {
+    generatedAt: new Date().toISOString(),
+    mode: import.meta.env.MODE,
+    device: getDeviceInfo(),
+    metrics,
+    context,
+    log
+  }
+}
+
+const DIAGNOSTICS_KEY = 'multi-qr-scanner:diagnostics'
+
+export function loadDiagnosticsVisible(): boolean {
+  try {
+    return localStorage.getItem(DIAGNOSTICS_KEY) === '1'
+  } catch {
+    // 読み込めない場合は非表示
+    return false
+  }
+}
+
+export function saveDiagnosticsVisible(visible: boolean) {
+  try {
+    if (visible) {
+      localStorage.setItem(DIAGNOSTICS_KEY, '1')
+    } else {
+      localStorage.removeItem(DIAGNOSTICS_KEY)
+    }
+  } catch {
+    // プライベートブラウズ等で保存できない場合は無視
+  }
+}
@@ -0,0 +1,13 @@
+import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import './index.css'
+import LocaleProvider from './LocaleProvider.tsx'
+import EmbedScanner from './EmbedScanner.tsx'
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <LocaleProvider>
+      <EmbedScanner />
+    </LocaleProvider>
+  </StrictMode>,
+)
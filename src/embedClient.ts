@@ -0,0 +1,98 @@
+import {
+  EMBED_MESSAGE_SOURCE,
+  isEmbedEvent,
+  type EmbedCommand,
+  type EmbedEvent
+} from './embedProtocol'
+
+/*
+ * 埋め込みスキャナーを利用するホストページ向けのクライアント。
+ *
+ *   const scanner = createEmbeddedScanner(container, { scannerUrl: 'https://scanner.example.com' })
+ *   scanner.on('detect', ({ result }) => console.log(result.text))
+ *   scanner.on('ready', () => scanner.start())
+ *
+ * スキャナー側のビルドで VITE_EMBED_ALLOWED_ORIGINS にホストページのオリジンを登録しておくこと。
+ */
+
+export type { EmbedCommand, EmbedDetection, EmbedEvent } from './embedProtocol'
+
+type EventType = EmbedEvent['type']
+type EventOf<T extends EventType> = Extract<EmbedEvent, { type: T }>
+
+export interface EmbeddedScannerOptions {
+  scannerUrl: string // スキャナーのオリジン（例: https://scanner.example.com）
+  title?: string
+}
+
+export class EmbeddedScanner {
+  readonly iframe: HTMLIFrameElement
+  private readonly scannerOrigin: string
+  private listeners = new Map<EventType, Set<(event: EmbedEvent) => void>>()
+
+  constructor(iframe: HTMLIFrameElement, scannerOrigin: string) {
+    this.iframe = iframe
+    this.scannerOrigin = scannerOrigin
+    window.addEventListener('message', this.handleMessage)
+  }
+
+  on<T extends EventType>(type: T, listener: (event: EventOf<T>) => void): () => void {
+    const listeners = this.listeners.get(type) ?? new Set()
+    const wrapped = listener as (event: EmbedEvent) => void
+    listeners.add(wrapped)
+    this.listeners.set(type, listeners)
+    return () => { listeners.delete(wrapped) }
+  }
+
+  start() {
+    this.send({ type: 'start' })
+  }
+
+  stop() {
+    this.send({ type: 'stop' })
+  }
+
+  /** 読み取り済みの結果（重複判定の履歴）を消去する */
+  reset() {
+    this.send({ type: 'reset' })
+  }
+
+  setFormats(formats: string[]) {
+    this.send({ type: 'setFormats', formats })
+  }
+
+  destroy() {
+    window.removeEventListener('message', this.handleMessage)
+    this.listeners.clear()
+  }
+
+  private send(command: EmbedCommand) {
+    this.iframe.contentWindow?.postMessage({ ...command, source: EMBED_MESSAGE_SOURCE }, this.scannerOrigin)
+  }
+
+  private handleMessage = (event: MessageEvent) => {
+    if (event.origin !== this.scannerOrigin || event.source !== this.iframe.contentWindow) return
+    if (!isEmbedEvent(event.data)) return
+    for (const listener of this.listeners.get(event.data.type) ?? []) {
+      listener(event.data)
+    }
+  }
+}
+
+/** スキャナーのiframeを作成して container に追加する */
+export function createEmbeddedScanner(container: HTMLElement, { scannerUrl, title = 'QRコードスキャナー' }: EmbeddedScannerOptions): EmbeddedScanner {
+  const scannerOrigin = new URL(scannerUrl).origin
+  const src = new URL('/embed.html', scannerOrigin)
+  src.searchParams.set('origin', window.location.origin)
+
+  const iframe = document.createElement('iframe')
+  iframe.src = src.href
+  iframe.title = title
+  iframe.allow = 'camera' // iframe内でカメラを使うために必要
+  iframe.style.border = 'none'
+  iframe.style.width = '100%'
+  iframe.style.height = '100%'
+  container.appendChild(iframe)
+
+  return new EmbeddedScanner(iframe, scannerOrigin)
+}
@@ -0,0 +1,47 @@
+// 埋め込みモード（iframe）と親ページの間でやり取りするメッセージ
+// ホスト側の embedClient.ts からも読み込むため、他のモジュールには依存しない
+
+/** メッセージの識別子（他のpostMessageと区別する） */
+export const EMBED_MESSAGE_SOURCE = 'multi-qr-scanner'
+
+export interface EmbedDetection {
+  id: string
+  text: string
+  format: string | null
+  count: number
+  firstSeen: string // ISO 8601
+  lastSeen: string
+}
+
+/** スキャナー → 親ページ */
+export type EmbedEvent =
+  | { type: 'ready' }
+  | { type: 'detect'; result: EmbedDetection; isNew: boolean; slot: number | null } // slot: 複数枠のガイドで検出した枠の番号（0始まり）
+  | { type: 'error'; message: string }
+  | { type: 'stopped' }
+
+/** 親ページ → スキャナー */
+export type EmbedCommand =
+  | { type: 'start' }
+  | { type: 'stop' }
+  | { type: 'reset' }
+  | { type: 'setFormats'; formats: string[] } // zxing-wasmのフォーマット名（例: 'QRCode', 'EAN-13'）
+
+export type EmbedMessage<T> = T & { source: typeof EMBED_MESSAGE_SOURCE }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+export function isEmbedEvent(data: unknown): data is EmbedMessage<EmbedEvent> {
+  return isRecord(data) && data.source === EMBED_MESSAGE_SOURCE &&
+    ['ready', 'detect', 'error', 'stopped'].includes(data.type as string)
+}
+
+export function isEmbedCommand(data: unknown): data is EmbedMessage<EmbedCommand> {
+  if (!isRecord(data) || data.source !== EMBED_MESSAGE_SOURCE) return false
+  if (data.type === 'setFormats') {
+    return Array.isArray(data.formats) && data.formats.every(format => typeof format === 'string')
+  }
+  return data.type === 'start' || data.type === 'stop' || data.type === 'reset'
+}
@@ -0,0 +1,99 @@
+import type { UniqueQRResult } from './types'
+import { createZip, type ZipEntry } from './zipArchive'
+import { thumbnailExtension } from './thumbnail'
+
+const CSV_HEADER = ['text', 'format', 'firstSeen', 'lastSeen', 'count', 'session', 'sourceFile']
+export const UTF8_BOM = '\uFEFF'
+
+export interface ExportRecord {
+  text: string
+  format: string | null
+  firstSeen: string
+  lastSeen: string
+  count: number
+  session: string | null
+  sourceFile: string | null
+}
+
+export function toExportRecords(results: UniqueQRResult[], sessionName?: string): ExportRecord[] {
+  return results.map(result => ({
+    text: result.text,
+    format: result.format ?? null,
+    firstSeen: result.firstSeen.toISOString(),
+    lastSeen: result.lastSeen.toISOString(),
+    count: result.count,
+    session: sessionName ?? null,
+    sourceFile: result.sourceFile ?? null
+  }))
+}
+
+// RFC 4180形式でエスケープ（カンマ・改行・ダブルクォートを含む場合のみ囲む）
+export function escapeCsvField(value: string | number | null): string {
+  const text = value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(records: ExportRecord[]): string {
+  const rows = records.map(record =>
+    [record.text, record.format, record.firstSeen, record.lastSeen, record.count, record.session, record.sourceFile]
+      .map(escapeCsvField)
+      .join(',')
+  )
+  // ExcelでUTF-8（日本語）を正しく開くためBOMを付与
+  return UTF8_BOM + [CSV_HEADER.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+export function toJson(records: ExportRecord[]): string {
+  return JSON.stringify(records, null, 2)
+}
+
+export function toClipboardText(records: ExportRecord[]): string {
+  return records.map(record => record.text).join('\n')
+}
+
+/**
+ * 結果一覧とサムネイル画像をまとめたZIP。
+ * results.csv は通常のCSVと同じ内容、results.json には四隅・向き・誤り訂正レベルとサムネイルのファイル名も含める。
+ */
+export async function toZip(results: UniqueQRResult[], sessionName?: string): Promise<Blob> {
+  const records = toExportRecords(results, sessionName)
+  const entries: ZipEntry[] = []
+  const details = []
+  for (const [index, result] of results.entries()) {
+    let thumbnail: string | null = null
+    if (result.thumbnail) {
+      thumbnail = `thumbnails/${String(index + 1).padStart(4, '0')}.${thumbnailExtension(result.thumbnail)}`
+      entries.push({ name: thumbnail, data: new Uint8Array(await result.thumbnail.image.arrayBuffer()) })
+    }
+    details.push({
+      ...records[index],
+      points: result.points ?? null,
+      orientation: result.orientation ?? null,
+      ecLevel: result.ecLevel ?? null,
+      thumbnail
+    })
+  }
+  return createZip([
+    { name: 'results.csv', data: toCsv(records) },
+    { name: 'results.json', data: JSON.stringify(details, null, 2) },
+    ...entries
+  ])
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // iOS Safariではクリック直後に解放するとダウンロードが失敗するため遅延
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export function exportFilename(sessionName: string | undefined, extension: string): string {
+  const base = (sessionName ?? 'qr-codes').replace(/[\\/:*?"<>|\s]+/g, '_')
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+  return `${base}_${stamp}.${extension}`
+}
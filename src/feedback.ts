@@ -0,0 +1,182 @@
+// 検出時の音（Web Audioで合成するためオフラインでも鳴る）と振動
+
+export type FeedbackEvent = 'new' | 'duplicate' | 'unexpected' | 'error'
+
+export const FEEDBACK_EVENTS: FeedbackEvent[] = ['new', 'duplicate', 'unexpected', 'error']
+
+export interface EventFeedback {
+  sound: boolean
+  volume: number // 0〜1
+  vibrate: boolean
+}
+
+export type FeedbackSettings = Record<FeedbackEvent, EventFeedback>
+
+export const DEFAULT_FEEDBACK_SETTINGS: FeedbackSettings = {
+  new: { sound: true, volume: 0.6, vibrate: true },
+  duplicate: { sound: false, volume: 0.3, vibrate: false },
+  unexpected: { sound: true, volume: 0.8, vibrate: true },
+  error: { sound: true, volume: 0.5, vibrate: true }
+}
+
+interface Tone {
+  frequency: number // Hz
+  start: number // 秒（再生開始からの遅れ）
+  duration: number // 秒
+  type: OscillatorType
+}
+
+// 画面を見ていなくても聞き分けられるよう、音の高さと回数を変える
+const TONES: Record<FeedbackEvent, Tone[]> = {
+  new: [
+    { frequency: 1318, start: 0, duration: 0.08, type: 'sine' },
+    { frequency: 1760, start: 0.09, duration: 0.12, type: 'sine' }
+  ],
+  duplicate: [
+    { frequency: 880, start: 0, duration: 0.05, type: 'sine' }
+  ],
+  unexpected: [
+    { frequency: 660, start: 0, duration: 0.12, type: 'square' },
+    { frequency: 660, start: 0.18, duration: 0.12, type: 'square' },
+    { frequency: 660, start: 0.36, duration: 0.12, type: 'square' }
+  ],
+  error: [
+    { frequency: 440, start: 0, duration: 0.15, type: 'sawtooth' },
+    { frequency: 220, start: 0.16, duration: 0.3, type: 'sawtooth' }
+  ]
+}
+
+const VIBRATION_PATTERNS: Record<FeedbackEvent, number[]> = {
+  new: [80],
+  duplicate: [20],
+  unexpected: [100, 60, 100, 60, 100],
+  error: [300]
+}
+
+// 同じ種類の通知を続けて鳴らさない間隔（クールダウン中の再検出は毎フレーム発生するため）
+const MIN_INTERVALS: Record<FeedbackEvent, number> = {
+  new: 0,
+  duplicate: 1000,
+  unexpected: 0,
+  error: 2000
+}
+
+type AudioContextConstructor = typeof AudioContext
+
+function getAudioContextClass(): AudioContextConstructor | null {
+  const win = window as Window & { webkitAudioContext?: AudioContextConstructor }
+  return window.AudioContext ?? win.webkitAudioContext ?? null
+}
+
+export function isVibrationSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'vibrate' in navigator
+}
+
+export class FeedbackPlayer {
+  private context: AudioContext | null = null
+  private lastPlayed = new Map<FeedbackEvent, number>()
+
+  /**
+   * ユーザー操作（タップ・クリック）の中で呼び、音を鳴らせる状態にする。
+   * iOS Safariはユーザー操作の中で作成・再開したAudioContextしか鳴らないため、
+   * 無音のバッファを1度再生して確実に有効化する。電話の着信などで中断された場合も再開する。
+   */
+  unlock() {
+    const AudioContextClass = getAudioContextClass()
+    if (!AudioContextClass) return
+
+    if (!this.context) {
+      this.context = new AudioContextClass()
+      const buffer = this.context.createBuffer(1, 1, 22050)
+      const source = this.context.createBufferSource()
+      source.buffer = buffer
+      source.connect(this.context.destination)
+      source.start(0)
+    }
+    if (this.context.state !== 'running') {
+      this.context.resume().catch(() => {
+        // 次のユーザー操作で再試行する
+      })
+    }
+  }
+
+  play(event: FeedbackEvent, settings: FeedbackSettings, now = Date.now()) {
+    const last = this.lastPlayed.get(event)
+    if (last !== undefined && now - last < MIN_INTERVALS[event]) return
+    this.lastPlayed.set(event, now)
+
+    const { sound, volume, vibrate } = settings[event]
+    if (sound && volume > 0) {
+      this.playTones(TONES[event], volume)
+    }
+    if (vibrate && isVibrationSupported()) {
+      navigator.vibrate(VIBRATION_PATTERNS[event])
+    }
+  }
+
+  close() {
+    this.context?.close().catch(() => {})
+    this.context = null
+  }
+
+  private playTones(tones: Tone[], volume: number) {
+    const context = this.context
+    // 未解除（ユーザー操作前）のAudioContextは鳴らないため何もしない
+    if (!context || context.state !== 'running') return
+
+    const startTime = context.currentTime
+    for (const tone of tones) {
+      const oscillator = context.createOscillator()
+      const gain = context.createGain()
+      oscillator.type = tone.type
+      oscillator.frequency.value = tone.frequency
+
+      // クリックノイズを避けるため短いフェードを付ける
+      const start = startTime + tone.start
+      const end = start + tone.duration
+      gain.gain.setValueAtTime(0, start)
+      gain.gain.linearRampToValueAtTime(volume, start + 0.01)
+      gain.gain.setValueAtTime(volume, end - 0.02)
+      gain.gain.linearRampToValueAtTime(0, end)
+
+      oscillator.connect(gain)
+      gain.connect(context.destination)
+      oscillator.start(start)
+      oscillator.stop(end)
+    }
+  }
+}
+
+const FEEDBACK_KEY = 'multi-qr-scanner:feedback'
+
+export function loadFeedbackSettings(): FeedbackSettings {
+  try {
+    const saved = localStorage.getItem(FEEDBACK_KEY)
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<Record<FeedbackEvent, Partial<EventFeedback>>>
+      const settings = { ...DEFAULT_FEEDBACK_SETTINGS }
+      for (const event of FEEDBACK_EVENTS) {
+        const value = parsed[event]
+        if (!value) continue
+        const defaults = DEFAULT_FEEDBACK_SETTINGS[event]
+        settings[event] = {
+          sound: typeof value.sound === 'boolean' ? value.sound : defaults.sound,
+          volume: typeof value.volume === 'number' ? Math.min(Math.max(value.volume, 0), 1) : defaults.volume,
+          vibrate: typeof value.vibrate === 'boolean' ? value.vibrate : defaults.vibrate
+        }
+      }
+      return settings
+    }
+  } catch {
+    // 壊れた設定は無視して既定値を使う
+  }
+  return DEFAULT_FEEDBACK_SETTINGS
+}
+
+export function saveFeedbackSettings(settings: FeedbackSettings) {
+  try {
+    localStorage.setItem(FEEDBACK_KEY, JSON.stringify(settings))
+  } catch {
+    // プライベートブラウズ等で保存できない場合は無視
+  }
+}
@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { backoffDelay, ForwardQueue, type DeliveryStore, type ForwardingConfig } from './forwarding'
+import type { Clock } from './scanSession'
+import type { Delivery, UniqueQRResult } from './types'
+
+// 手動で進める時計（タイマーは時刻を進めたときに実行する）
+function createFakeClock(start = 100000) {
+  let now = start
+  let nextHandle = 1
+  const timers = new Map<number, { at: number; callback: () => void }>()
+
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: (callback, ms) => {
+      const handle = nextHandle++
+      timers.set(handle, { at: now + ms, callback })
+      return handle
+    },
+    clearTimeout: handle => { timers.delete(handle) }
+  }
+
+  function advance(ms: number) {
+    now += ms
+    for (const [handle, timer] of Array.from(timers.entries()).sort((a, b) => a[1].at - b[1].at)) {
+      if (timer.at > now) continue
+      timers.delete(handle)
+      timer.callback()
+    }
+  }
+
+  return { clock, advance }
+}
+
+// IndexedDBの代わりにメモリに保持する送信キュー
+function createMemoryStore(initial: Delivery[] = []) {
+  const deliveries = new Map(initial.map(delivery => [delivery.resultId, delivery]))
+  const store: DeliveryStore = {
+    loadPending: async () => Array.from(deliveries.values()).filter(delivery => delivery.status === 'pending'),
+    save: async delivery => { deliveries.set(delivery.resultId, delivery) }
+  }
+  return { store, get: (resultId: string) => deliveries.get(resultId) }
+}
+
+// 保存・送信のPromiseを処理し終えるまで待つ
+const drain = () => new Promise(resolve => setTimeout(resolve))
+
+const CONFIG: ForwardingConfig = {
+  enabled: true,
+  endpoint: 'https://example.com/scans',
+  headers: [{ name: 'Authorization', value: 'Bearer token' }]
+}
+
+const RESULT: UniqueQRResult = {
+  id: 'r1',
+  text: 'INV-001',
+  format: 'QRCode',
+  firstSeen: new Date('2024-01-01T00:00:00Z'),
+  lastSeen: new Date('2024-01-01T00:00:00Z'),
+  count: 1
+}
+
+function createQueue(statuses: (number | Error)[], initial: Delivery[] = []) {
+  const { clock, advance } = createFakeClock()
+  const { store, get } = createMemoryStore(initial)
+  const responses = [...statuses]
+  const fetch = vi.fn<typeof globalThis.fetch>(async () => {
+    const next = responses.shift() ?? 200
+    if (next instanceof Error) throw next
+    return new Response(null, { status: next })
+  })
+  const queue = new ForwardQueue({ fetch, clock, store })
+  queue.setConfig(CONFIG)
+
+  // 送信中に追加されたキューは次のタイマー（0ミリ秒後）で送るため、期限の来たタイマーも実行する
+  async function settle() {
+    await drain()
+    advance(0)
+    await drain()
+  }
+  return { queue, fetch, advance, get, settle }
+}
+
+describe('backoffDelay', () => {
+  it('失敗するたびに待ち時間を2倍にする', () => {
+    expect([1, 2, 3, 4].map(attempts => backoffDelay(attempts, 1))).toEqual([1000, 2000, 4000, 8000])
+  })
+
+  it('待ち時間は5分を上限とする', () => {
+    expect(backoffDelay(20, 1)).toBe(5 * 60 * 1000)
+  })
+
+  it('ジッターで待ち時間の半分から全体までの範囲にする', () => {
+    expect(backoffDelay(3, 0)).toBe(2000)
+    expect(backoffDelay(3, 0.5)).toBe(3000)
+  })
+})
+
+describe('ForwardQueue', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', { addEventListener: vi.fn(), removeEventListener: vi.fn() })
+    vi.stubGlobal('navigator', { onLine: true })
+    vi.spyOn(Math, 'random').mockReturnValue(1) // ジッターなし
+    vi.spyOn(console, 'warn').mockImplementation(() => {}) // 送信失敗のログ
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('新しい結果を設定したヘッダー付きで送信する', async () => {
+    const { queue, fetch, get, settle } = createQueue([200])
+    queue.start()
+    await queue.enqueue('s1', RESULT)
+    await settle()
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    const [url, init] = fetch.mock.calls[0]
+    expect(url).toBe(CONFIG.endpoint)
+    expect(init?.headers).toMatchObject({ 'Content-Type': 'application/json', Authorization: 'Bearer token' })
+    expect(JSON.parse(init?.body as string)).toMatchObject({ id: 'r1', sessionId: 's1' })
+    expect(get('r1')).toMatchObject({ status: 'sent', attempts: 1 })
+  })
+
+  it('失敗した場合はバックオフ後に再送する', async () => {
+    const { queue, fetch, advance, get, settle } = createQueue([503, new Error('Failed to fetch'), 200])
+    queue.start()
+    await queue.enqueue('s1', RESULT)
+    await settle()
+    expect(get('r1')).toMatchObject({ status: 'pending', attempts: 1, lastError: 'HTTP 503' })
+
+    advance(999)
+    await settle()
+    expect(fetch).toHaveBeenCalledTimes(1)
+
+    advance(1)
+    await settle()
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(get('r1')).toMatchObject({ status: 'pending', attempts: 2, lastError: 'Failed to fetch' })
+
+    advance(2000)
+    await settle()
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(get('r1')).toMatchObject({ status: 'sent', attempts: 3 })
+  })
+
+  it('再送しても変わらない4xxは送信失敗として再送しない', async () => {
+    const { queue, fetch, advance, get, settle } = createQueue([400])
+    queue.start()
+    await queue.enqueue('s1', RESULT)
+    await settle()
+    advance(60 * 60 * 1000)
+    await settle()
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(get('r1')).toMatchObject({ status: 'failed', attempts: 1, lastError: 'HTTP 400' })
+  })
+
+  it('408・429は再送する', async () => {
+    const { queue, advance, get, settle } = createQueue([429, 408, 200])
+    queue.start()
+    await queue.enqueue('s1', RESULT)
+    await settle()
+    advance(1000)
+    await settle()
+    advance(2000)
+    await settle()
+
+    expect(get('r1')).toMatchObject({ status: 'sent', attempts: 3 })
+  })
+
+  it('上限回数まで失敗したら再送を止める', async () => {
+    const { queue, fetch, advance, get, settle } = createQueue(Array(20).fill(503))
+    queue.start()
+    await queue.enqueue('s1', RESULT)
+    await settle()
+    for (let i = 0; i < 15; i++) {
+      advance(5 * 60 * 1000)
+      await settle()
+    }
+
+    expect(fetch).toHaveBeenCalledTimes(10)
+    expect(get('r1')).toMatchObject({ status: 'failed', attempts: 10 })
+  })
+
+  it('保存済みの送信キューを開始時に再送する', async () => {
+    const saved: Delivery = {
+      sessionId: 's1',
+      resultId: 'r0',
+      body: '{"id":"r0"}',
+      status: 'pending',
+      attempts: 2,
+      nextAttemptAt: 0,
+      createdAt: new Date('2024-01-01T00:00:00Z')
+    }
+    const { queue, fetch, get, settle } = createQueue([200], [saved])
+    queue.start()
+    await settle()
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(fetch.mock.calls[0][1]?.body).toBe('{"id":"r0"}')
+    expect(get('r0')).toMatchObject({ status: 'sent', attempts: 3 })
+  })
+
+  it('オフラインの間は送信しない', async () => {
+    vi.stubGlobal('navigator', { onLine: false })
+    const { queue, fetch, get, settle } = createQueue([200])
+    queue.start()
+    await queue.enqueue('s1', RESULT)
+    await settle()
+
+    expect(fetch).not.toHaveBeenCalled()
+    expect(get('r1')).toMatchObject({ status: 'pending', attempts: 0 })
+  })
+})
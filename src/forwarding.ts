@@ -0,0 +1,269 @@
+import { systemClock, type Clock } from './scanSession'
+import { toExportRecords } from './exportResults'
+import { loadPendingDeliveries, saveDelivery } from './scanStorage'
+import type { Delivery, UniqueQRResult } from './types'
+import { logger } from './logger'
+
+// 新しく検出した結果をHTTPエンドポイントへ転送する（オフライン時はIndexedDBのキューから再送）
+
+export interface ForwardHeader {
+  name: string
+  value: string
+}
+
+export interface ForwardingConfig {
+  enabled: boolean
+  endpoint: string
+  headers: ForwardHeader[] // Authorization: Bearer ... など
+}
+
+export const DEFAULT_FORWARDING_CONFIG: ForwardingConfig = {
+  enabled: false,
+  endpoint: '',
+  headers: []
+}
+
+const FORWARDING_CONFIG_KEY = 'multi-qr-scanner:forwarding'
+const REQUEST_TIMEOUT = 10000 // 1回の送信のタイムアウト（ミリ秒）
+const MAX_ATTEMPTS = 10 // これを超えたら送信失敗として再送を止める
+const BACKOFF_BASE = 1000
+const BACKOFF_MAX = 5 * 60 * 1000
+
+export function loadForwardingConfig(): ForwardingConfig {
+  try {
+    const saved = localStorage.getItem(FORWARDING_CONFIG_KEY)
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<ForwardingConfig>
+      return {
+        enabled: parsed.enabled === true,
+        endpoint: typeof parsed.endpoint === 'string' ? parsed.endpoint : '',
+        headers: Array.isArray(parsed.headers)
+          ? parsed.headers.filter(header => typeof header?.name === 'string' && typeof header.value === 'string')
+          : []
+      }
+    }
+  } catch {
+    // 壊れた設定は無視して既定値を使う
+  }
+  return DEFAULT_FORWARDING_CONFIG
+}
+
+export function saveForwardingConfig(config: ForwardingConfig) {
+  try {
+    localStorage.setItem(FORWARDING_CONFIG_KEY, JSON.stringify(config))
+  } catch {
+    // プライベートブラウズ等で保存できない場合は無視
+  }
+}
+
+/** 送信するJSON（エクスポートと同じ項目に結果IDとセッションIDを加える） */
+export function toForwardBody(sessionId: string, result: UniqueQRResult, sessionName?: string): string {
+  const [record] = toExportRecords([result], sessionName)
+  return JSON.stringify({ id: result.id, sessionId, ...record, identity: result.identity ?? null })
+}
+
+/** 再送までの待ち時間（指数バックオフ＋ジッター） */
+export function backoffDelay(attempts: number, random = Math.random()): number {
+  const delay = Math.min(BACKOFF_BASE * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX)
+  return Math.round(delay * (0.5 + random / 2))
+}
+
+// 再送しても結果が変わらないクライアントエラー（408・429以外の4xx）
+function isPermanentFailure(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 408 && status !== 429
+}
+
+export interface DeliveryStore {
+  loadPending(): Promise<Delivery[]>
+  save(delivery: Delivery): Promise<void>
+}
+
+const indexedDbStore: DeliveryStore = {
+  loadPending: loadPendingDeliveries,
+  save: saveDelivery
+}
+
+export interface ForwardQueueOptions {
+  fetch?: typeof fetch
+  clock?: Clock
+  store?: DeliveryStore
+}
+
+type Listener = (delivery: Delivery) => void
+
+export class ForwardQueue {
+  private readonly fetch: typeof fetch
+  private readonly clock: Clock
+  private readonly store: DeliveryStore
+
+  private config: ForwardingConfig = DEFAULT_FORWARDING_CONFIG
+  private listeners = new Set<Listener>()
+  private running = false
+  private flushing = false
+  private flushAgain = false
+  private timer: number | null = null
+
+  constructor({ fetch: fetchImpl, clock = systemClock, store = indexedDbStore }: ForwardQueueOptions = {}) {
+    this.fetch = fetchImpl ?? ((input, init) => fetch(input, init))
+    this.clock = clock
+    this.store = store
+  }
+
+  onChange(listener: Listener) {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  setConfig(config: ForwardingConfig) {
+    this.config = config
+    if (this.running) this.flush()
+  }
+
+  /** 送信処理を開始する（オンライン復帰時にも再送する） */
+  start() {
+    if (this.running) return
+    this.running = true
+    window.addEventListener('online', this.handleOnline)
+    this.flush()
+  }
+
+  stop() {
+    this.running = false
+    window.removeEventListener('online', this.handleOnline)
+    this.clearTimer()
+  }
+
+  /** 新しい結果を送信キューに追加する（転送が無効な場合は何もしない） */
+  async enqueue(sessionId: string, result: UniqueQRResult, sessionName?: string) {
+    if (!this.isConfigured()) return
+    const delivery: Delivery = {
+      sessionId,
+      resultId: result.id,
+      body: toForwardBody(sessionId, result, sessionName),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: this.clock.now(),
+      createdAt: new Date(this.clock.now())
+    }
+    await this.update(delivery)
+    this.flush()
+  }
+
+  /** 送信失敗になったものを再送キューに戻す */
+  async retry(delivery: Delivery) {
+    await this.update({
+      ...delivery,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: this.clock.now(),
+      lastError: undefined
+    })
+    this.flush()
+  }
+
+  /** 送信時刻を過ぎたキューを順に送信する */
+  async flush() {
+    if (!this.running) return
+    if (this.flushing) {
+      this.flushAgain = true
+      return
+    }
+    this.flushing = true
+    this.clearTimer()
+
+    try {
+      do {
+        this.flushAgain = false
+        if (!this.isConfigured() || !navigator.onLine) return
+
+        const pending = await this.store.loadPending()
+        const now = this.clock.now()
+        for (const delivery of pending.filter(item => item.nextAttemptAt <= now)) {
+          if (!this.running || !navigator.onLine) return
+          await this.send(delivery)
+        }
+      } while (this.flushAgain)
+
+      await this.scheduleNext()
+    } catch (err) {
+      logger.error('forward_error', { action: 'flush', error: err })
+    } finally {
+      this.flushing = false
+    }
+  }
+
+  private handleOnline = () => {
+    this.flush()
+  }
+
+  private isConfigured(): boolean {
+    return this.config.enabled && this.config.endpoint.trim() !== ''
+  }
+
+  private async send(delivery: Delivery) {
+    const attempts = delivery.attempts + 1
+    const controller = new AbortController()
+    const timeout = this.clock.setTimeout(() => controller.abort(), REQUEST_TIMEOUT)
+
+    let error: string
+    let permanent = false
+    try {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+      for (const header of this.config.headers) {
+        if (header.name.trim()) headers[header.name.trim()] = header.value
+      }
+      const response = await this.fetch(this.config.endpoint, {
+        method: 'POST',
+        headers,
+        body: delivery.body,
+        signal: controller.signal
+      })
+      if (response.ok) {
+        await this.update({ ...delivery, status: 'sent', attempts, lastError: undefined, sentAt: new Date(this.clock.now()) })
+        return
+      }
+      error = `HTTP ${response.status}`
+      permanent = isPermanentFailure(response.status)
+    } catch (err) {
+      error = controller.signal.aborted ? 'timeout' : err instanceof Error ? err.message : String(err)
+    } finally {
+      this.clock.clearTimeout(timeout)
+    }
+
+    const failed = permanent || attempts >= MAX_ATTEMPTS
+    logger.warn('forward_error', { resultId: delivery.resultId, attempts, error })
+    await this.update({
+      ...delivery,
+      status: failed ? 'failed' : 'pending',
+      attempts,
+      lastError: error,
+      nextAttemptAt: this.clock.now() + backoffDelay(attempts)
+    })
+  }
+
+  // 次に送信時刻が来るキューに合わせてタイマーを設定
+  private async scheduleNext() {
+    const pending = await this.store.loadPending()
+    if (pending.length === 0 || !this.running) return
+    const next = Math.min(...pending.map(delivery => delivery.nextAttemptAt))
+    this.clearTimer()
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null
+      this.flush()
+    }, Math.max(next - this.clock.now(), 0))
+  }
+
+  private async update(delivery: Delivery) {
+    await this.store.save(delivery)
+    for (const listener of this.listeners) {
+      listener(delivery)
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import type { Point, Position } from 'zxing-wasm/reader'
+
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** ビデオ座標 → 表示座標（video-wrapper内のCSSピクセル）への変換 */
+export interface DisplayTransform {
+  scaleX: number
+  scaleY: number
+  offsetX: number
+  offsetY: number
+}
+
+/** デコード用Canvasに描画したフレームとビデオ・表示座標の対応 */
+export interface FrameMapping {
+  region: Rect // Canvasに描画したビデオ上の領域
+  canvasWidth: number
+  canvasHeight: number
+  transform: DisplayTransform
+}
+
+/**
+ * object-fitに応じたビデオ→表示座標の変換を求める。
+ * coverでは上下または左右がはみ出し、containでは余白（レターボックス）ができる。
+ */
+export function getDisplayTransform(
+  videoWidth: number,
+  videoHeight: number,
+  containerWidth: number,
+  containerHeight: number,
+  objectFit: string
+): DisplayTransform {
+  let scaleX: number
+  let scaleY: number
+
+  switch (objectFit) {
+    case 'fill':
+      scaleX = containerWidth / videoWidth
+      scaleY = containerHeight / videoHeight
+      break
+    case 'none':
+      scaleX = scaleY = 1
+      break
+    case 'scale-down':
+      scaleX = scaleY = Math.min(1, containerWidth / videoWidth, containerHeight / videoHeight)
+      break
+    case 'cover':
+      scaleX = scaleY = Math.max(containerWidth / videoWidth, containerHeight / videoHeight)
+      break
+    default: // contain（video要素の既定値）
+      scaleX = scaleY = Math.min(containerWidth / videoWidth, containerHeight / videoHeight)
+  }
+
+  return {
+    scaleX,
+    scaleY,
+    offsetX: (containerWidth - videoWidth * scaleX) / 2,
+    offsetY: (containerHeight - videoHeight * scaleY) / 2
+  }
+}
+
+export function videoToDisplay(point: Point, transform: DisplayTransform): Point {
+  return {
+    x: point.x * transform.scaleX + transform.offsetX,
+    y: point.y * transform.scaleY + transform.offsetY
+  }
+}
+
+export function displayToVideo(point: Point, transform: DisplayTransform): Point {
+  return {
+    x: (point.x - transform.offsetX) / transform.scaleX,
+    y: (point.y - transform.offsetY) / transform.scaleY
+  }
+}
+
+/** 表示上の矩形（ガイド枠など）をビデオ座標に変換し、フレーム内に収める */
+export function displayRectToVideo(
+  rect: Rect,
+  transform: DisplayTransform,
+  videoWidth: number,
+  videoHeight: number
+): Rect {
+  const topLeft = displayToVideo({ x: rect.x, y: rect.y }, transform)
+  const bottomRight = displayToVideo({ x: rect.x + rect.width, y: rect.y + rect.height }, transform)
+
+  const x = Math.max(0, topLeft.x)
+  const y = Math.max(0, topLeft.y)
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(videoWidth, bottomRight.x) - x),
+    height: Math.max(0, Math.min(videoHeight, bottomRight.y) - y)
+  }
+}
+
+/** デコード結果の座標（Canvas座標）を表示座標に変換する */
+export function canvasToDisplay(point: Point, mapping: FrameMapping): Point {
+  const { region, canvasWidth, canvasHeight, transform } = mapping
+  return videoToDisplay({
+    x: region.x + point.x * (region.width / canvasWidth),
+    y: region.y + point.y * (region.height / canvasHeight)
+  }, transform)
+}
+
+/** 四隅を時計回り（左上→右上→右下→左下）の配列にする */
+export function positionToPoints(position: Position): Point[] {
+  return [position.topLeft, position.topRight, position.bottomRight, position.bottomLeft]
+}
+
+export function getPolygonBounds(points: Point[]): Rect {
+  const xs = points.map(p => p.x)
+  const ys = points.map(p => p.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
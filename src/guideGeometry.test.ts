@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { calculateGuideSize, locateInGuide, MAX_GUIDE_GRID, type GuideProfileId } from './guideGeometry'
+
+describe('calculateGuideSize', () => {
+  it('1枠のガイドを画面の中央に置く', () => {
+    const guide = calculateGuideSize(1000, 800, { profile: 'square', rows: 1, columns: 1 })
+    expect(guide.width).toBe(guide.height)
+    expect(guide.center).toEqual({ x: 500, y: 400 })
+    expect(guide.slots).toHaveLength(1)
+  })
+
+  it('縦に並べた枠も画面に収める', () => {
+    for (const [width, height] of [[360, 640], [640, 360], [1280, 720]]) {
+      for (const profile of ['card', 'square', 'label'] as GuideProfileId[]) {
+        for (let rows = 1; rows <= MAX_GUIDE_GRID; rows++) {
+          const guide = calculateGuideSize(width, height, { profile, rows, columns: 1 })
+          expect(guide.top).toBeGreaterThanOrEqual(0)
+          expect(guide.left).toBeGreaterThanOrEqual(0)
+          expect(guide.top + guide.height).toBeLessThanOrEqual(height)
+          expect(guide.left + guide.width).toBeLessThanOrEqual(width)
+        }
+      }
+    }
+  })
+
+  it('枠の縦横比を保つ', () => {
+    const guide = calculateGuideSize(360, 640, { profile: 'card', rows: 3, columns: 1 })
+    const [slot] = guide.slots
+    expect(slot.height / slot.width).toBeCloseTo(352 / 252)
+    expect(guide.slots).toHaveLength(3)
+  })
+})
+
+describe('locateInGuide', () => {
+  it('コードの中心が入っている枠の番号を返す', () => {
+    const guide = calculateGuideSize(1000, 800, { profile: 'square', rows: 1, columns: 2 })
+    const [left, right] = guide.slots
+    const at = (slot: typeof left) => ({ x: slot.left + slot.width / 2 - 5, y: slot.top + slot.height / 2 - 5, width: 10, height: 10 })
+    expect(locateInGuide(at(left), guide)).toBe(0)
+    expect(locateInGuide(at(right), guide)).toBe(1)
+    expect(locateInGuide({ x: 0, y: 0, width: 10, height: 10 }, guide)).toBeNull()
+  })
+})
@@ -0,0 +1,188 @@
+export type GuideState = 'waiting' | 'scanning' | 'success' | 'unexpected' | 'error'
+
+export type GuideProfileId = 'card' | 'square' | 'label'
+
+export interface GuideProfile {
+  id: GuideProfileId
+  aspect: { width: number; height: number } // 1枠あたりの縦横比
+  coverage: number // 画面に対するガイド全体の大きさ
+  tolerance: number // 枠の外でも枠内とみなす範囲（1枠の幅に対する割合）
+  minWidth: number // 1枠あたりの最小幅
+  maxWidth: number // 1枠あたりの最大幅
+}
+
+export const GUIDE_PROFILES: GuideProfile[] = [
+  { id: 'card', aspect: { width: 252, height: 352 }, coverage: 0.6, tolerance: 0.1, minWidth: 200, maxWidth: 400 },
+  { id: 'square', aspect: { width: 1, height: 1 }, coverage: 0.6, tolerance: 0.1, minWidth: 160, maxWidth: 360 },
+  { id: 'label', aspect: { width: 6, height: 4 }, coverage: 0.85, tolerance: 0.05, minWidth: 240, maxWidth: 640 }
+]
+
+export const MAX_GUIDE_GRID = 6
+
+/** ガイドの種類と枠の並び（行×列） */
+export interface GuideLayout {
+  profile: GuideProfileId
+  rows: number
+  columns: number
+}
+
+export const DEFAULT_GUIDE_LAYOUT: GuideLayout = {
+  profile: 'card',
+  rows: 1,
+  columns: 1
+}
+
+export interface GuideSlot {
+  index: number // 左上から行ごとに 0, 1, 2...
+  row: number
+  column: number
+  top: number
+  left: number
+  width: number
+  height: number
+}
+
+export interface GuideRegion {
+  top: number
+  left: number
+  width: number
+  height: number
+  center: { x: number; y: number }
+  slots: GuideSlot[]
+  tolerance: number // ピクセル
+}
+
+const PADDING = 20
+
+export function getGuideProfile(id: GuideProfileId): GuideProfile {
+  return GUIDE_PROFILES.find(profile => profile.id === id) ?? GUIDE_PROFILES[0]
+}
+
+export function calculateGuideSize(
+  containerWidth: number,
+  containerHeight: number,
+  layout: GuideLayout = DEFAULT_GUIDE_LAYOUT
+): GuideRegion {
+  const profile = getGuideProfile(layout.profile)
+  const rows = Math.max(1, layout.rows)
+  const columns = Math.max(1, layout.columns)
+  const ratio = (profile.aspect.height * rows) / (profile.aspect.width * columns)
+
+  // Calculate size based on screen coverage
+  let width = containerWidth * profile.coverage
+  let height = width * ratio
+
+  // Check if height exceeds container
+  if (height > containerHeight * profile.coverage) {
+    height = containerHeight * profile.coverage
+    width = height / ratio
+  }
+
+  // Apply min/max constraints（1枠あたりの幅で制限。最小幅は画面の幅を超えない）
+  const minWidth = Math.min(profile.minWidth * columns, containerWidth - PADDING * 2)
+  width = Math.max(minWidth, Math.min(profile.maxWidth * columns, width))
+  height = width * ratio
+
+  // 最小幅で広げた結果、縦に並べた枠が画面からはみ出す場合は高さに合わせて縮める
+  const maxHeight = containerHeight - PADDING * 2
+  if (height > maxHeight) {
+    height = maxHeight
+    width = height / ratio
+  }
+
+  // Calculate position (centered)
+  const left = (containerWidth - width) / 2
+  const top = (containerHeight - height) / 2
+
+  const slotWidth = width / columns
+  const slotHeight = height / rows
+  const slots: GuideSlot[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      slots.push({
+        index: row * columns + column,
+        row,
+        column,
+        top: top + row * slotHeight,
+        left: left + column * slotWidth,
+        width: slotWidth,
+        height: slotHeight
+      })
+    }
+  }
+
+  return {
+    top,
+    left,
+    width,
+    height,
+    center: { x: left + width / 2, y: top + height / 2 },
+    slots,
+    tolerance: slotWidth * profile.tolerance
+  }
+}
+
+/**
+ * コードの中心が入っている枠の番号を返す（どの枠にも入らなければ null）。
+ * 許容範囲が隣の枠と重なる場合は、中心が最も近い枠を選ぶ。
+ */
+export function locateInGuide(
+  qrBounds: { x: number; y: number; width: number; height: number },
+  guide: GuideRegion
+): number | null {
+  const qrCenter = {
+    x: qrBounds.x + qrBounds.width / 2,
+    y: qrBounds.y + qrBounds.height / 2
+  }
+
+  const tolerance = guide.tolerance
+  let nearest: { index: number; distance: number } | null = null
+  for (const slot of guide.slots) {
+    const inside =
+      qrCenter.x >= slot.left - tolerance &&
+      qrCenter.x <= slot.left + slot.width + tolerance &&
+      qrCenter.y >= slot.top - tolerance &&
+      qrCenter.y <= slot.top + slot.height + tolerance
+    if (!inside) continue
+
+    const distance = Math.hypot(
+      qrCenter.x - (slot.left + slot.width / 2),
+      qrCenter.y - (slot.top + slot.height / 2)
+    )
+    if (!nearest || distance < nearest.distance) {
+      nearest = { index: slot.index, distance }
+    }
+  }
+  return nearest?.index ?? null
+}
+
+const GUIDE_LAYOUT_KEY = 'multi-qr-scanner:guide'
+
+export function loadGuideLayout(): GuideLayout {
+  try {
+    const saved = localStorage.getItem(GUIDE_LAYOUT_KEY)
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<GuideLayout>
+      const gridSize = (value: unknown) =>
+        typeof value === 'number' && Number.isInteger(value) ? Math.min(Math.max(value, 1), MAX_GUIDE_GRID) : 1
+      return {
+        profile: GUIDE_PROFILES.some(profile => profile.id === parsed.profile)
+          ? parsed.profile!
+          : DEFAULT_GUIDE_LAYOUT.profile,
+        rows: gridSize(parsed.rows),
+        columns: gridSize(parsed.columns)
+      }
+    }
+  } catch {
+    // 壊れた設定は無視して既定値を使う
+  }
+  return DEFAULT_GUIDE_LAYOUT
+}
+
+export function saveGuideLayout(layout: GuideLayout) {
+  try {
+    localStorage.setItem(GUIDE_LAYOUT_KEY, JSON.stringify(layout))
+  } catch {
+    // プライベートブラウズ等で保存できない場合は無視
+  }
+}
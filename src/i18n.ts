@@ -0,0 +1,85 @@
+import { createContext, useContext } from 'react'
+import { MESSAGES, type Messages } from './messages'
+
+export type Locale = keyof typeof MESSAGES
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'ja', label: '日本語' },
+  { id: 'en', label: 'English' }
+]
+
+const LOCALE_KEY = 'multi-qr-scanner:locale'
+const FALLBACK_LOCALE: Locale = 'en' // 対応していない言語の利用者向け
+
+function isLocale(value: string): value is Locale {
+  return value in MESSAGES
+}
+
+/** ブラウザの言語設定から、最初に対応しているものを選ぶ */
+export function detectLocale(languages: readonly string[] = navigator.languages): Locale {
+  for (const language of languages) {
+    const primary = language.split('-')[0].toLowerCase()
+    if (isLocale(primary)) return primary
+  }
+  return FALLBACK_LOCALE
+}
+
+/** 手動で選んだ言語があればそれを、なければブラウザの言語設定を使う */
+export function loadLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY)
+    if (saved && isLocale(saved)) return saved
+  } catch {
+    // 読み込めない場合は自動判定
+  }
+  return detectLocale()
+}
+
+export function saveLocale(locale: Locale) {
+  try {
+    localStorage.setItem(LOCALE_KEY, locale)
+  } catch {
+    // プライベートブラウズ等で保存できない場合は無視
+  }
+}
+
+// 日付の書式は地域の慣習に合わせる（例: en-GB なら日/月の順）
+function resolveDateLocale(locale: Locale, languages: readonly string[]): string {
+  return languages.find(language => language.split('-')[0].toLowerCase() === locale) ?? locale
+}
+
+export interface I18n {
+  locale: Locale
+  messages: Messages
+  setLocale: (locale: Locale) => void
+  formatTime: (date: Date) => string
+  formatDateTime: (date: Date) => string
+  /** 今日なら時刻のみ、それ以外は日付と時刻 */
+  formatScanTime: (date: Date) => string
+}
+
+export function createI18n(
+  locale: Locale,
+  setLocale: (locale: Locale) => void,
+  languages: readonly string[] = typeof navigator !== 'undefined' ? navigator.languages : []
+): I18n {
+  const dateLocale = resolveDateLocale(locale, languages)
+  const timeFormat = new Intl.DateTimeFormat(dateLocale, { timeStyle: 'medium' })
+  const dateTimeFormat = new Intl.DateTimeFormat(dateLocale, { dateStyle: 'medium', timeStyle: 'medium' })
+  const isToday = (date: Date) => date.toDateString() === new Date().toDateString()
+
+  return {
+    locale,
+    messages: MESSAGES[locale],
+    setLocale,
+    formatTime: date => timeFormat.format(date),
+    formatDateTime: date => dateTimeFormat.format(date),
+    formatScanTime: date => (isToday(date) ? timeFormat : dateTimeFormat).format(date)
+  }
+}
+
+export const I18nContext = createContext<I18n>(createI18n('ja', () => {}))
+
+export function useI18n(): I18n {
+  return useContext(I18nContext)
+}
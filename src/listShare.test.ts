@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { encodeShareChunks, parseShareChunk, ShareImporter, type ShareImportProgress } from './listShare'
+
+// 1枚に数文字しか入らない大きさで分割し、日本語・絵文字が断片の境目にかかるようにする
+const CHUNK_BYTES = 20
+const READS = [
+  { text: '東京都千代田区丸の内1-1', format: 'QRCode' },
+  { text: '在庫📦ラベル', format: 'DataMatrix' },
+  { text: '4901234567894', format: 'EAN13' }
+]
+
+function createImporter() {
+  const importer = new ShareImporter()
+  const progress: ShareImportProgress[] = []
+  importer.onProgress(event => progress.push(event))
+  return { importer, progress }
+}
+
+describe('encodeShareChunks', () => {
+  it('文字の途中で切らずに、指定したバイト数以下に分割する', () => {
+    const chunks = encodeShareChunks(READS, CHUNK_BYTES)
+    const encoder = new TextEncoder()
+    const decoder = new TextDecoder()
+
+    expect(chunks.length).toBeGreaterThan(5)
+    for (const chunk of chunks) {
+      const data = parseShareChunk(chunk)!.data
+      const bytes = encoder.encode(data)
+      expect(bytes.length).toBeLessThanOrEqual(CHUNK_BYTES)
+      // サロゲートペアの片方だけが残っていれば U+FFFD に置き換わる
+      expect(decoder.decode(bytes)).toBe(data)
+    }
+  })
+})
+
+describe('ShareImporter', () => {
+  it('順不同・重複して読み取っても元の一覧に戻す', () => {
+    const chunks = encodeShareChunks(READS, CHUNK_BYTES)
+    const { importer, progress } = createImporter()
+
+    // 後ろから読み、同じ断片を毎回もう一度読む（カメラに写り続けた場合）
+    for (const chunk of [...chunks].reverse()) {
+      expect(importer.receive(chunk)).toBe(true)
+      expect(importer.receive(chunk)).toBe(true)
+    }
+
+    expect(progress.map(event => event.received)).toEqual(chunks.map((_, i) => i + 1))
+    expect(progress.at(-1)).toEqual({
+      id: parseShareChunk(chunks[0])!.id,
+      status: 'completed',
+      received: chunks.length,
+      total: chunks.length,
+      items: READS
+    })
+  })
+
+  it('取り込み済みの共有IDは二度取り込まない', () => {
+    const chunks = encodeShareChunks(READS, CHUNK_BYTES)
+    const { importer, progress } = createImporter()
+    for (const chunk of chunks) importer.receive(chunk)
+    const count = progress.length
+
+    for (const chunk of chunks) expect(importer.receive(chunk)).toBe(true)
+    expect(progress).toHaveLength(count)
+  })
+
+  it('別の共有IDの断片は混ぜずに、集めた分を破棄してやり直す', () => {
+    const chunks = encodeShareChunks(READS, CHUNK_BYTES)
+    const other = encodeShareChunks([{ text: '別の一覧', format: 'QRCode' }, { text: 'もう一件', format: 'QRCode' }], CHUNK_BYTES)
+    const { importer, progress } = createImporter()
+
+    importer.receive(chunks[0])
+    importer.receive(chunks[1])
+    importer.receive(other[1])
+    expect(progress.at(-1)).toMatchObject({ id: parseShareChunk(other[1])!.id, status: 'collecting', received: 1 })
+
+    // 元の一覧を読み直すと、別の一覧の断片を含めずに最初から集める
+    for (const chunk of chunks) importer.receive(chunk)
+    expect(progress.at(-1)).toMatchObject({ id: parseShareChunk(chunks[0])!.id, status: 'completed', items: READS })
+  })
+
+  it('共有用の形式に合わないコードは通常の結果として扱わない', () => {
+    const { importer, progress } = createImporter()
+
+    expect(importer.receive('https://example.com')).toBe(false)
+    expect(importer.receive('MQS1:abc:0/2:data')).toBe(true)
+    expect(importer.receive('MQS1:abc:3/2:data')).toBe(true)
+    expect(progress).toEqual([])
+  })
+
+  it('そろってもデータが壊れていた場合は取り込まない', () => {
+    const { importer, progress } = createImporter()
+    importer.receive('MQS1:abc:1/2:[["A",')
+    importer.receive('MQS1:abc:2/2:"QRCode"')
+
+    expect(progress.at(-1)).toMatchObject({ status: 'invalid', items: [] })
+  })
+})
@@ -0,0 +1,168 @@
+import type { ScanRead } from './scanSession'
+
+// 結果一覧をQRコードで別の端末へ渡す（ネットワークのない現場向け）
+//
+// 1枚に収まらない一覧は複数のQRコードに分割する。各コードの内容は
+//   MQS1:<共有ID>:<番号>/<枚数>:<データの断片>
+// 断片をつなげると [[text, format], ...] のJSONになる。
+// 読み取る側は順不同で集め、全枚数がそろった時点で取り込む。
+
+export const SHARE_PREFIX = 'MQS1:'
+export const SHARE_CHUNK_BYTES = 600 // 1枚あたりのデータ量（UTF-8のバイト数。スマートフォンのカメラで読める密度）
+
+const CHUNK_PATTERN = /^MQS1:([0-9a-z]+):(\d+)\/(\d+):/
+
+export interface ShareChunk {
+  id: string
+  index: number // 0始まり
+  total: number
+  data: string
+}
+
+export interface ShareImportProgress {
+  id: string
+  status: 'collecting' | 'completed' | 'invalid' // invalid はそろったがデータが壊れていた場合
+  received: number
+  total: number
+  items: ScanRead[] // completed の場合のみ
+}
+
+// コードポイント単位で数える（サロゲートペアの途中で分割しないため）
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0)!
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4
+}
+
+function splitByBytes(data: string, maxBytes: number): string[] {
+  const parts: string[] = []
+  let current = ''
+  let bytes = 0
+  for (const char of data) {
+    const length = utf8Length(char)
+    if (bytes + length > maxBytes && current) {
+      parts.push(current)
+      current = ''
+      bytes = 0
+    }
+    current += char
+    bytes += length
+  }
+  parts.push(current)
+  return parts
+}
+
+// 共有IDは内容から求める（同じ一覧を読み直しても二重に取り込まない・一覧が変われば別のIDになる）
+function shareId(data: string): string {
+  let hash = 0x811c9dc5 // FNV-1a
+  for (let i = 0; i < data.length; i++) {
+    hash = Math.imul(hash ^ data.charCodeAt(i), 0x01000193) >>> 0
+  }
+  return hash.toString(36)
+}
+
+/** 結果一覧を共有用のQRコードの内容に分割する */
+export function encodeShareChunks(
+  reads: { text: string; format?: string }[],
+  chunkBytes = SHARE_CHUNK_BYTES
+): string[] {
+  // 形式が未記録の結果はQR専用だった頃のもの
+  const data = JSON.stringify(reads.map(read => [read.text, read.format ?? 'QRCode']))
+  const id = shareId(data)
+  const parts = splitByBytes(data, chunkBytes)
+  return parts.map((part, index) => `${SHARE_PREFIX}${id}:${index + 1}/${parts.length}:${part}`)
+}
+
+export function isShareChunk(text: string): boolean {
+  return text.startsWith(SHARE_PREFIX)
+}
+
+export function parseShareChunk(text: string): ShareChunk | null {
+  const match = CHUNK_PATTERN.exec(text)
+  if (!match) return null
+  const index = Number(match[2]) - 1
+  const total = Number(match[3])
+  if (total < 1 || index < 0 || index >= total) return null
+  return { id: match[1], index, total, data: text.slice(match[0].length) }
+}
+
+function parseItems(data: string): ScanRead[] | null {
+  try {
+    const parsed: unknown = JSON.parse(data)
+    if (!Array.isArray(parsed)) return null
+    const items: ScanRead[] = []
+    for (const entry of parsed) {
+      if (!Array.isArray(entry) || typeof entry[0] !== 'string' || typeof entry[1] !== 'string') return null
+      items.push({ text: entry[0], format: entry[1] as ScanRead['format'] })
+    }
+    return items
+  } catch {
+    // 別のアプリのコードなど、形式の合わないデータは取り込まない
+    return null
+  }
+}
+
+type Listener = (progress: ShareImportProgress) => void
+
+/**
+ * 共有用のQRコードを集めて一覧に戻す。
+ * 別の共有IDのコードを読んだ場合は、それまでに集めた分を破棄してやり直す。
+ */
+export class ShareImporter {
+  private id: string | null = null
+  private parts: (string | undefined)[] = []
+  private completed = new Set<string>()
+  private listeners = new Set<Listener>()
+
+  /** 進み具合（新しい断片を受け取ったとき・そろったとき）を受け取る */
+  onProgress(listener: Listener) {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  /**
+   * 読み取ったコードを渡す。共有用のコードなら true を返す（通常の結果としては取り込まない）。
+   * カメラに写り続ける間は同じ断片が毎フレーム届くため、新しい断片のときだけ通知する。
+   */
+  receive(text: string): boolean {
+    if (!isShareChunk(text)) return false
+    const chunk = parseShareChunk(text)
+    if (!chunk || this.completed.has(chunk.id)) return true
+
+    if (chunk.id !== this.id || chunk.total !== this.parts.length) {
+      this.id = chunk.id
+      this.parts = new Array(chunk.total).fill(undefined)
+    }
+    if (this.parts[chunk.index] !== undefined) return true
+    this.parts[chunk.index] = chunk.data
+
+    const received = this.parts.filter(part => part !== undefined).length
+    if (received < chunk.total) {
+      this.emit({ id: chunk.id, status: 'collecting', received, total: chunk.total, items: [] })
+      return true
+    }
+
+    // そろった後も画面に写り続けるため、同じ共有IDは二度取り込まない
+    const items = parseItems(this.parts.join(''))
+    this.completed.add(chunk.id)
+    this.reset()
+    this.emit({
+      id: chunk.id,
+      status: items ? 'completed' : 'invalid',
+      received,
+      total: chunk.total,
+      items: items ?? []
+    })
+    return true
+  }
+
+  reset() {
+    this.id = null
+    this.parts = []
+  }
+
+  private emit(progress: ShareImportProgress) {
+    for (const listener of this.listeners) {
+      listener(progress)
+    }
+  }
+}
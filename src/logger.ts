@@ -0,0 +1,128 @@
+// アプリ内の診断ログ（リングバッファに保持し、診断パネルからJSONで書き出す）
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogEvent =
+  | 'init_start'
+  | 'init_success'
+  | 'init_error'
+  | 'permission_check'
+  | 'camera_request'
+  | 'camera_ready'
+  | 'camera_error'
+  | 'camera_control_error'
+  | 'scan_start'
+  | 'scan_stop'
+  | 'scan_result'
+  | 'scan_error'
+  | 'scan_rejected'
+  | 'timeout'
+  | 'worker_respawn'
+  | 'frame_capture'
+  | 'performance'
+  | 'image_decode_error'
+  | 'video_replay'
+  | 'regression'
+  | 'session_restore'
+  | 'storage_error'
+  | 'list_reset'
+  | 'forward_error'
+  | 'clipboard_error'
+  | 'export_error'
+  | 'service_worker_error'
+  | 'code_generate_error'
+  | 'list_import'
+
+export interface LogEntry {
+  time: string // ISO 8601
+  level: LogLevel
+  event: LogEvent
+  data?: Record<string, unknown>
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 }
+
+const DEFAULT_CAPACITY = 500
+
+// postMessageやJSON化で失われないよう、Errorを通常のオブジェクトに変換する
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack }
+  }
+  if (typeof DOMException !== 'undefined' && value instanceof DOMException) {
+    return { name: value.name, message: value.message }
+  }
+  return value
+}
+
+export class Logger {
+  private buffer: (LogEntry | undefined)[]
+  private next = 0
+  private listeners = new Set<(entry: LogEntry) => void>()
+  // 開発環境は全レベル、本番はinfo以上を記録（コンソールへはwarn以上のみ。
+  // 開発環境で VITE_VERBOSE_LOG=true の場合は全レベル）
+  private level: LogLevel = import.meta.env.DEV ? 'debug' : 'info'
+  private consoleLevel: LogLevel = import.meta.env.DEV && import.meta.env.VITE_VERBOSE_LOG === 'true' ? 'debug' : 'warn'
+
+  constructor(capacity = DEFAULT_CAPACITY) {
+    this.buffer = new Array(capacity)
+  }
+
+  setLevel(level: LogLevel) {
+    this.level = level
+  }
+
+  getLevel(): LogLevel {
+    return this.level
+  }
+
+  debug(event: LogEvent, data?: Record<string, unknown>) {
+    this.log('debug', event, data)
+  }
+
+  info(event: LogEvent, data?: Record<string, unknown>) {
+    this.log('info', event, data)
+  }
+
+  warn(event: LogEvent, data?: Record<string, unknown>) {
+    this.log('warn', event, data)
+  }
+
+  error(event: LogEvent, data?: Record<string, unknown>) {
+    this.log('error', event, data)
+  }
+
+  log(level: LogLevel, event: LogEvent, data?: Record<string, unknown>) {
+    if (LEVEL_ORDER[level] >= LEVEL_ORDER[this.consoleLevel]) {
+      const method = level === 'debug' ? 'log' : level
+      console[method]('[QR-Scanner]', event, ...(data ? [data] : []))
+    }
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.level]) return
+
+    const entry: LogEntry = { time: new Date().toISOString(), level, event }
+    if (data) {
+      entry.data = Object.fromEntries(Object.entries(data).map(([key, value]) => [key, serialize(value)]))
+    }
+    this.buffer[this.next] = entry
+    this.next = (this.next + 1) % this.buffer.length
+    this.listeners.forEach(listener => listener(entry))
+  }
+
+  /** 古い順のログ */
+  entries(): LogEntry[] {
+    return [...this.buffer.slice(this.next), ...this.buffer.slice(0, this.next)]
+      .filter((entry): entry is LogEntry => entry !== undefined)
+  }
+
+  clear() {
+    this.buffer = new Array(this.buffer.length)
+    this.next = 0
+  }
+
+  onEntry(listener: (entry: LogEntry) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+}
+
+export const logger = new Logger()
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { computeManifestProgress, parseManifest, toManifestCsv } from './manifest'
+import { DEFAULT_DEDUPE_POLICY, type DedupePolicy } from './dedupeKey'
+import type { UniqueQRResult } from './types'
+
+function result(text: string, identity?: string): UniqueQRResult {
+  const time = new Date('2024-01-01T00:00:00Z')
+  return { id: text, text, identity, firstSeen: time, lastSeen: time, count: 1 }
+}
+
+describe('parseManifest', () => {
+  it('見出しのある列を使い、空行と重複を除く', () => {
+    expect(parseManifest('\uFEFFname,code\nA,SN001\n\nB,"SN002"\nC,SN001\n')).toEqual(['SN001', 'SN002'])
+  })
+})
+
+describe('computeManifestProgress', () => {
+  it('完全一致で照合する', () => {
+    const progress = computeManifestProgress(['A', 'B'], [result('A'), result('C')], DEFAULT_DEDUPE_POLICY)
+    expect(progress).toMatchObject({ expected: 2, seen: ['A'], missing: ['B'] })
+    expect(progress.unexpected.map(r => r.text)).toEqual(['C'])
+  })
+
+  it('URL内のシリアル番号を抽出するルールでは、抽出した識別子で照合する', () => {
+    const policy: DedupePolicy = { ...DEFAULT_DEDUPE_POLICY, capturePattern: 'serial=(\\w+)' }
+    const results = [
+      result('https://example.com/?serial=SN001', 'SN001'),
+      result('https://example.com/?serial=SN999', 'SN999')
+    ]
+
+    const progress = computeManifestProgress(['SN001', 'SN002'], results, policy)
+    expect(progress).toMatchObject({ seen: ['SN001'], missing: ['SN002'] })
+    expect(progress.unexpected.map(r => r.identity)).toEqual(['SN999'])
+
+    const rows = toManifestCsv(['SN001', 'SN002'], results, policy).trim().split('\r\n').slice(1)
+    expect(rows.map(row => row.split(',').slice(0, 2).join(','))).toEqual([
+      'SN001,seen',
+      'SN002,missing',
+      'https://example.com/?serial=SN999,unexpected'
+    ])
+  })
+})
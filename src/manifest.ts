@@ -0,0 +1,113 @@
+import type { UniqueQRResult } from './types'
+import { escapeCsvField, UTF8_BOM } from './exportResults'
+import { createNormalizer, type DedupePolicy } from './dedupeKey'
+
+// 見出し行として扱う列名
+const HEADER_NAMES = ['code', 'codes', 'text', 'value', 'コード', '値']
+
+export interface ManifestProgress {
+  expected: number
+  seen: string[]
+  missing: string[]
+  unexpected: UniqueQRResult[]
+}
+
+/** CSVの1行を列に分割（ダブルクォートで囲まれた列に対応） */
+function splitCsvLine(line: string): string[] {
+  const columns: string[] = []
+  let current = ''
+  let inQuotes = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',' || char === '\t') {
+      columns.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  columns.push(current)
+  return columns
+}
+
+/**
+ * 照合リストを読み込む。1行1コードのテキスト、またはCSV/TSVに対応。
+ * CSVの場合は見出しに code/text 等があればその列、なければ1列目を使う。
+ */
+export function parseManifest(source: string): string[] {
+  const lines = source.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '')
+  if (lines.length === 0) return []
+
+  let columnIndex = 0
+  const header = splitCsvLine(lines[0]).map(column => column.trim().toLowerCase())
+  const headerIndex = header.findIndex(column => HEADER_NAMES.includes(column))
+  if (headerIndex >= 0) {
+    columnIndex = headerIndex
+    lines.shift()
+  }
+
+  const codes = lines
+    .map(line => (splitCsvLine(line)[columnIndex] ?? '').trim())
+    .filter(Boolean)
+  return Array.from(new Set(codes))
+}
+
+// 結果の重複判定に使った識別子（正規化でテキストと変わらない場合は保存していない）
+function resultIdentity(result: UniqueQRResult): string {
+  return result.identity ?? result.text
+}
+
+/**
+ * 照合リストと結果を突き合わせる。
+ * リストの各コードも重複判定ルールで正規化し、結果の識別子と比較する（URL内のシリアル番号を抽出する場合など）。
+ */
+export function computeManifestProgress(
+  manifest: string[],
+  results: UniqueQRResult[],
+  policy: DedupePolicy
+): ManifestProgress {
+  const normalize = createNormalizer(policy)
+  const expected = new Set(manifest.map(normalize))
+  const seenIdentities = new Set(results.map(resultIdentity))
+  const isSeen = (code: string) => seenIdentities.has(normalize(code))
+
+  return {
+    expected: manifest.length,
+    seen: manifest.filter(isSeen),
+    missing: manifest.filter(code => !isSeen(code)),
+    unexpected: results.filter(result => !expected.has(resultIdentity(result)))
+  }
+}
+
+/** 照合リストと進捗をCSVに変換（seen / missing / unexpected） */
+export function toManifestCsv(manifest: string[], results: UniqueQRResult[], policy: DedupePolicy): string {
+  const byIdentity = new Map(results.map(result => [resultIdentity(result), result]))
+  const normalize = createNormalizer(policy)
+  const expected = new Set(manifest.map(normalize))
+
+  const rows = [
+    ...manifest.map(code => {
+      const result = byIdentity.get(normalize(code))
+      return [code, result ? 'seen' : 'missing', String(result?.count ?? 0), result?.lastSeen.toISOString() ?? '']
+    }),
+    ...results
+      .filter(result => !expected.has(resultIdentity(result)))
+      .map(result => [result.text, 'unexpected', String(result.count), result.lastSeen.toISOString()])
+  ]
+
+  return UTF8_BOM + [
+    'code,status,count,lastSeen',
+    ...rows.map(row => row.map(escapeCsvField).join(','))
+  ].join('\r\n') + '\r\n'
+}
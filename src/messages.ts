@@ -0,0 +1,833 @@
+// 画面表示用のメッセージカタログ（日本語を基準に、英語も同じ構造で定義する）
+
+const ja = {
+  app: {
+    title: 'QRコードスキャナー',
+    scanning: 'スキャン中',
+    stopped: 'スキャン停止中',
+    collected: (count: number) => `収集済み: ${count}個`,
+    permissionDenied: 'カメラへのアクセスが拒否されています',
+    permissionHint: 'ブラウザの設定からカメラの権限を許可してください',
+    placeholder: '「開始」をタップしてスキャンを開始',
+    scanningIndicator: 'スキャン中...',
+    start: '開始',
+    initializing: '初期化中...',
+    stop: '停止',
+    reset: 'リセット',
+    guideOnlyToggle: 'ガイド領域のみスキャン/全画面スキャン切り替え',
+    guideOnly: 'ガイドのみ',
+    fullScreen: '全画面',
+    resultsTitle: (count: number) => `収集したQRコード（${count}個）`,
+    moreResults: (count: number) => `他 ${count}個（保存済み）`,
+    ready: '準備完了',
+    loading: '初期化中',
+    defaultSessionName: (date: string) => `セッション ${date}`
+  },
+  errors: {
+    wasmUnsupported: 'WebAssemblyがサポートされていません',
+    initFailed: 'QRスキャナーの初期化に失敗しました',
+    cameraPermissionRequired: 'カメラのアクセス許可が必要です',
+    cameraNotFound: 'カメラが見つかりません',
+    cameraInUse: 'カメラは他のアプリで使用中です',
+    camera: (message: string) => `カメラエラー: ${message}`,
+    unknown: '不明なエラー',
+    cameraPermissionDenied: 'カメラのアクセス許可が拒否されています。ブラウザの設定から許可してください。',
+    cameraStreamFailed: 'カメラストリームの取得に失敗しました',
+    restoreFailed: '保存済みの結果を読み込めませんでした',
+    videoLoadFailed: '動画ファイルを再生できませんでした（MP4/WebMに対応）',
+    httpsRequired: 'HTTPS接続が必要です。カメラAPIを使用するにはHTTPS経由でアクセスしてください。'
+  },
+  guide: {
+    waiting: 'カードをここに合わせる',
+    scanning: 'スキャン中...',
+    success: '認識しました！',
+    unexpected: 'リスト外のコードです',
+    error: '認識できません'
+  },
+  guideLayout: {
+    label: 'ガイド',
+    profiles: {
+      card: 'カード',
+      square: '正方形ステッカー',
+      label: '横長ラベル'
+    },
+    rows: '行',
+    columns: '列'
+  },
+  session: {
+    label: 'セッション',
+    renamePrompt: 'セッション名を入力',
+    deleteConfirm: (name: string) => `「${name}」と収集結果を削除しますか？`,
+    create: '新規',
+    rename: '名前変更',
+    delete: '削除'
+  },
+  camera: {
+    camera: 'カメラ',
+    rearAuto: '背面カメラ（自動）',
+    cameraNumber: (index: number) => `カメラ ${index}`,
+    resolution: '解像度',
+    resolutions: {
+      vga: '640×480（省電力）',
+      hd: '1280×720（標準）',
+      fhd: '1920×1080（高精細）'
+    },
+    torchOn: '💡 ライトON',
+    torchOff: '💡 ライトOFF',
+    zoom: (value: string) => `ズーム ×${value}`
+  },
+  formats: {
+    label: '読み取り形式',
+    presets: {
+      'qr': 'QRのみ',
+      'retail-1d': '小売1D（JAN/UPC）',
+      'logistics-1d': '物流1D（Code128等）',
+      'all-2d': '2Dすべて',
+      'all': 'すべて'
+    }
+  },
+  imageDrop: {
+    idle: '画像をドロップ、またはタップして選択',
+    processing: (files: number) => `${files}枚の画像を解析中...`,
+    done: (files: number, detected: number) => `${files}枚から${detected}個のコードを検出`
+  },
+  export: {
+    copy: 'コピー',
+    copied: 'コピーしました',
+    copyFailed: 'コピー失敗',
+    zip: 'サムネイル画像を含めてZIPで保存'
+  },
+  manifest: {
+    empty: '照合リストにコードが見つかりません',
+    readFailed: 'ファイルを読み込めませんでした',
+    load: '照合リストを読み込む',
+    paste: '貼り付け',
+    pastePlaceholder: '1行に1コード、またはCSVを貼り付け',
+    loadPasted: '読み込む',
+    progress: (seen: number, expected: number) => `照合済み ${seen} / ${expected}`,
+    missing: (count: number) => `未読み取り（${count}個）`,
+    unexpected: (count: number) => `リスト外（${count}個）`,
+    exportProgress: '進捗をCSV出力',
+    clearConfirm: '照合リストを解除しますか？',
+    clear: 'リスト解除'
+  },
+  payload: {
+    kinds: {
+      url: 'URL',
+      wifi: 'Wi-Fi',
+      contact: '連絡先',
+      geo: '位置情報',
+      email: 'メール',
+      phone: '電話',
+      sms: 'SMS',
+      event: '予定',
+      text: 'テキスト'
+    },
+    open: '開く',
+    security: '暗号化',
+    hidden: 'ステルス',
+    yes: 'はい',
+    copyPassword: 'パスワードをコピー',
+    copied: 'コピーしました',
+    name: '氏名',
+    organization: '所属',
+    phone: '電話',
+    email: 'メール',
+    address: '住所',
+    note: 'メモ',
+    saveVCard: '.vcfを保存',
+    coordinates: '緯度経度',
+    altitude: '高度',
+    query: '検索語',
+    openMap: '地図で開く',
+    to: '宛先',
+    subject: '件名',
+    body: '本文',
+    composeEmail: 'メールを作成',
+    number: '番号',
+    call: '発信',
+    composeSms: 'SMSを作成',
+    start: '開始',
+    end: '終了',
+    location: '場所',
+    description: '詳細',
+    addToCalendar: 'カレンダーに追加'
+  },
+  dedupe: {
+    title: '重複判定',
+    exactMatch: '完全一致',
+    rules: {
+      trim: '前後の空白を除去',
+      collapseWhitespace: '連続する空白をまとめる',
+      caseFold: '大文字・小文字を区別しない',
+      stripUrlQuery: 'URLのクエリ（?以降）を除去',
+      stripUrlFragment: 'URLのフラグメント（#以降）を除去'
+    },
+    capture: (pattern: string, group: number) => `抽出 /${pattern}/ (グループ${group})`,
+    separator: '・',
+    pattern: '識別子の抽出（正規表現）',
+    patternPlaceholder: '例: serial=(\\w+)',
+    group: 'グループ番号',
+    invalidPattern: (message: string) => `正規表現が不正です: ${message}`,
+    sample: '確認用のテキスト',
+    samplePlaceholder: '読み取り例を入力すると識別子を表示',
+    identity: '識別子',
+    applyConfirm: '重複判定ルールを変更すると、既存の結果が新しいルールでまとめ直されます。よろしいですか？',
+    resetToExact: '完全一致に戻す',
+    apply: '適用'
+  },
+  forwarding: {
+    title: 'サーバー送信',
+    enabled: '有効',
+    disabled: '無効',
+    pending: (count: number) => `送信待ち ${count}`,
+    failed: (count: number) => `失敗 ${count}`,
+    enable: '新しく読み取ったコードをPOSTで送信する',
+    endpoint: '送信先URL',
+    headers: '追加ヘッダー',
+    removeHeader: 'ヘッダーを削除',
+    addHeader: '＋ ヘッダーを追加',
+    retryFailed: (count: number) => `失敗した${count}件を再送`
+  },
+  delivery: {
+    pending: '⏳ 送信待ち',
+    sent: '✅ 送信済み',
+    failed: '⚠️ 送信失敗',
+    retryHint: '（タップで再送）'
+  },
+  settings: {
+    title: 'スキャン設定',
+    custom: 'カスタム',
+    presets: {
+      iphone: 'iPhone',
+      android: '高速なAndroid',
+      desktop: 'PCのWebカメラ'
+    },
+    fields: {
+      cooldownDuration: '同一コードのクールダウン（ミリ秒）',
+      historyTtl: 'スキャン履歴の保持時間（ミリ秒）',
+      maxRecentScans: 'スキャン履歴の最大件数',
+      maxDisplayedResults: '一覧に表示する最大件数',
+      canvasScale: 'フレームの縮小倍率',
+      decodeTimeout: 'デコードのタイムアウト（ミリ秒）',
+      maxNumberOfSymbols: '1フレームの最大読み取り数',
+      tryHarder: '精度優先（処理が遅くなります）',
+      escalate: '読み取れない場合に段階的に再試行する',
+      decodeBudget: '再試行を含めた1フレームの上限（ミリ秒）'
+    },
+    outOfRange: (min: number, max: number) => `${min}〜${max}の範囲で入力してください`,
+    ttlShorterThanCooldown: 'クールダウン以上の値にしてください',
+    budgetNotBelowTimeout: 'デコードのタイムアウトより短くしてください',
+    apply: '適用',
+    stats: {
+      title: 'デコード段階ごとの統計',
+      stage: '段階',
+      hits: '検出',
+      attempts: '試行',
+      averageTime: '平均（ミリ秒）',
+      summary: (frames: number, budgetExceeded: number) => `${frames}フレーム・時間切れ ${budgetExceeded}回`,
+      reset: '統計をリセット',
+      stages: {
+        base: '通常',
+        tryHarder: 'tryHarder',
+        fullResolution: '元の解像度',
+        contrast: 'コントラスト補正',
+        binarize: '適応的二値化',
+        inverted: '白黒反転'
+      }
+    }
+  },
+  sheet: {
+    title: 'シート読み取り',
+    enable: '1フレームに写った複数コードを行・列に並べる',
+    hint: 'シート全体が画面に入るように撮影してください（画像ファイルにも対応）',
+    empty: 'まだシートを読み取っていません',
+    summary: (rows: number, columns: number, codes: number) => `${rows}行 × ${columns}列・${codes}個`,
+    missing: (count: number) => `読み取れなかったセル ${count}個`,
+    cell: (row: number, column: number) => `${row}行${column}列`,
+    exportGrid: '表をCSV出力',
+    exportList: '行・列番号をCSV出力',
+    clear: 'クリア'
+  },
+  diagnostics: {
+    title: '診断',
+    fps: 'FPS',
+    decodeTime: 'デコード時間',
+    scanInterval: 'スキャン間隔',
+    timeouts: 'タイムアウト',
+    errors: 'エラー',
+    frames: '処理 / 破棄',
+    empty: 'ログはありません',
+    debug: '詳細なログ（debug）も記録する',
+    download: 'ログをダウンロード',
+    clear: 'ログを消去',
+    close: '閉じる'
+  },
+  feedback: {
+    title: '音と振動',
+    on: 'オン',
+    muted: '消音',
+    events: {
+      new: '新しいコード',
+      duplicate: '読み取り済み・クールダウン中',
+      unexpected: '照合リスト外のコード',
+      error: 'エラー'
+    },
+    sound: '音',
+    volume: '音量',
+    vibrate: '振動',
+    test: '試す',
+    vibrationUnsupported: 'この端末のブラウザは振動に対応していません（iPhoneなど）'
+  },
+  videoReplay: {
+    title: '動画ファイルから読み取り',
+    open: '動画ファイルを開く（MP4/WebM）',
+    play: '再生',
+    pause: '一時停止',
+    previousFrame: '前のフレーム',
+    nextFrame: '次のフレーム',
+    speed: '速度',
+    scanAllFrames: '全フレームを解析',
+    scanAllFramesHint: '先頭から1フレームずつデコードし、コードが写っていた時刻を一覧にします',
+    cancel: '中止',
+    reportSummary: (frames: number, framesWithCodes: number, codes: number, timeouts: number) =>
+      `${frames}フレーム中 ${framesWithCodes}フレームで検出・${codes}種類のコード` +
+      (timeouts > 0 ? `・タイムアウト ${timeouts}回` : ''),
+    timeRange: (first: string, last: string, frames: number) => `${first}〜${last}秒（${frames}フレーム）`
+  },
+  regression: {
+    title: '動画の回帰テスト',
+    description: '録画した動画をまとめて解析し、期待するコード（同名の .expected.txt / .expected.csv）と比べます',
+    selectFolder: 'フォルダを選択',
+    running: (current: number, total: number, name: string) => `解析中 ${current} / ${total}: ${name}`,
+    noClips: '動画ファイルが見つかりません',
+    summary: (passed: number, total: number) => `${total}件中 ${passed}件合格`,
+    passed: '合格',
+    failed: '不合格',
+    missing: (codes: string) => `未検出: ${codes}`,
+    unexpected: (codes: string) => `想定外: ${codes}`,
+    downloadReport: 'レポートをダウンロード'
+  },
+  validation: {
+    title: '検証ルール',
+    acceptAll: 'すべて受け付ける',
+    separator: '・',
+    describe: {
+      prefix: (prefix: string) => `「${prefix}」で始まる`,
+      length: (min: number | null, max: number | null) => `${min ?? ''}〜${max ?? ''}文字`,
+      jsonSchema: 'JSON Schema'
+    },
+    prefix: '先頭の文字列',
+    prefixPlaceholder: '例: INV-',
+    minLength: '最小文字数',
+    maxLength: '最大文字数',
+    invalidLength: '最小文字数が最大文字数を超えています',
+    pattern: '正規表現',
+    patternPlaceholder: '例: ^\\d{13}$',
+    invalidPattern: (message: string) => `正規表現が不正です: ${message}`,
+    checkDigit: 'チェックデジット',
+    checkDigits: {
+      none: 'なし',
+      gs1: 'GS1（モジュラス10）',
+      luhn: 'Luhn'
+    },
+    jsonSchema: 'JSON Schema（JSONのコードのみ受け付ける）',
+    jsonSchemaPlaceholder: '例: {"type": "object", "required": ["id"]}',
+    invalidSchema: (message: string) => `JSON Schemaが不正です: ${message}`,
+    schemaNotObject: 'JSONのオブジェクトで指定してください',
+    rejectAction: 'ルールに合わないコード',
+    rejectActions: {
+      list: '除外した一覧に表示',
+      drop: '破棄する'
+    },
+    sample: '確認用のテキスト',
+    samplePlaceholder: '読み取り例を入力すると判定を表示',
+    sampleAccepted: '受け付けます',
+    sampleRejected: (reason: string) => `除外します: ${reason}`,
+    hint: 'このセッションに適用されます。取り込み済みの結果は一覧に残りますが、再び読み取ると判定します',
+    clear: 'ルールを解除',
+    apply: '適用',
+    reasons: {
+      pattern: '正規表現に一致しません',
+      prefix: '先頭の文字列が違います',
+      length: '文字数が範囲外です',
+      checkDigit: 'チェックデジットが合いません',
+      notJson: 'JSONではありません',
+      schema: 'JSON Schemaに一致しません'
+    },
+    rejectedTitle: (count: number) => `除外したコード（${count}件）`,
+    clearRejected: 'クリア'
+  },
+  resultDetail: {
+    show: '詳細',
+    hide: '詳細を閉じる',
+    noThumbnail: '画像はありません（画像ファイル・共有された一覧から取り込んだ結果）',
+    format: '形式',
+    ecLevel: '誤り訂正レベル',
+    orientation: '向き',
+    points: '四隅',
+    unknown: '—'
+  },
+  codeWriter: {
+    show: 'コードを再生成',
+    hide: '閉じる',
+    generating: '生成中...',
+    failed: 'この内容ではコードを生成できません',
+    downloadSvg: 'SVGで保存',
+    downloadPng: 'PNGで保存'
+  },
+  share: {
+    title: 'リストをQRで共有',
+    summary: (count: number, pages: number) => `${count}件・${pages}枚`,
+    hint: '別の端末でこのアプリのスキャンを開始し、表示したQRコードを読み取ると一覧を取り込めます（複数枚は順不同で読み取れます）',
+    empty: '共有する結果がありません',
+    show: 'QRコードを表示',
+    hide: '閉じる',
+    generating: '生成中...',
+    failed: 'QRコードを生成できませんでした',
+    page: (current: number, total: number) => `${current} / ${total}枚`,
+    previous: '前のQRコード',
+    next: '次のQRコード',
+    play: '自動で切り替え',
+    pause: '一時停止',
+    importing: (received: number, total: number) => `共有された一覧を読み取り中: ${received} / ${total}枚`,
+    imported: (count: number) => `共有された一覧から${count}件を取り込みました`,
+    importInvalid: '共有された一覧を読み取れませんでした',
+    dismiss: '閉じる'
+  },
+  update: {
+    available: '新しいバージョンがあります',
+    apply: '更新',
+    later: '後で'
+  },
+  embed: {
+    notAllowed: 'このページからの埋め込みは許可されていません',
+    initFailed: (message: string) => `初期化エラー: ${message}`,
+    decodeFailed: 'デコードに失敗しました',
+    cameraFailed: (message: string) => `カメラを起動できません: ${message}`,
+    preparing: '準備中...',
+    start: '開始',
+    stop: '停止'
+  },
+  locale: {
+    label: '言語'
+  }
+}
+
+export type Messages = typeof ja
+
+const en: Messages = {
+  app: {
+    title: 'QR Code Scanner',
+    scanning: 'Scanning',
+    stopped: 'Stopped',
+    collected: (count) => `Collected: ${count}`,
+    permissionDenied: 'Camera access has been denied',
+    permissionHint: 'Allow camera access in your browser settings',
+    placeholder: 'Tap "Start" to begin scanning',
+    scanningIndicator: 'Scanning...',
+    start: 'Start',
+    initializing: 'Initializing...',
+    stop: 'Stop',
+    reset: 'Reset',
+    guideOnlyToggle: 'Toggle between scanning the guide area only and the full frame',
+    guideOnly: 'Guide only',
+    fullScreen: 'Full frame',
+    resultsTitle: (count) => `Collected codes (${count})`,
+    moreResults: (count) => `${count} more (saved)`,
+    ready: 'Ready',
+    loading: 'Initializing',
+    defaultSessionName: (date) => `Session ${date}`
+  },
+  errors: {
+    wasmUnsupported: 'WebAssembly is not supported',
+    initFailed: 'Failed to initialize the scanner',
+    cameraPermissionRequired: 'Camera permission is required',
+    cameraNotFound: 'No camera was found',
+    cameraInUse: 'The camera is being used by another app',
+    camera: (message) => `Camera error: ${message}`,
+    unknown: 'Unknown error',
+    cameraPermissionDenied: 'Camera permission was denied. Allow it in your browser settings.',
+    cameraStreamFailed: 'Failed to get the camera stream',
+    restoreFailed: 'Could not load saved results',
+    videoLoadFailed: 'Could not play the video file (MP4/WebM are supported)',
+    httpsRequired: 'An HTTPS connection is required. Open this page over HTTPS to use the camera.'
+  },
+  guide: {
+    waiting: 'Align the card here',
+    scanning: 'Scanning...',
+    success: 'Got it!',
+    unexpected: 'Not on the list',
+    error: 'Could not read'
+  },
+  guideLayout: {
+    label: 'Guide',
+    profiles: {
+      card: 'Card',
+      square: 'Square sticker',
+      label: 'Wide label'
+    },
+    rows: 'Rows',
+    columns: 'Columns'
+  },
+  session: {
+    label: 'Session',
+    renamePrompt: 'Session name',
+    deleteConfirm: (name) => `Delete "${name}" and its results?`,
+    create: 'New',
+    rename: 'Rename',
+    delete: 'Delete'
+  },
+  camera: {
+    camera: 'Camera',
+    rearAuto: 'Rear camera (auto)',
+    cameraNumber: (index) => `Camera ${index}`,
+    resolution: 'Resolution',
+    resolutions: {
+      vga: '640×480 (power saving)',
+      hd: '1280×720 (standard)',
+      fhd: '1920×1080 (high detail)'
+    },
+    torchOn: '💡 Light on',
+    torchOff: '💡 Light off',
+    zoom: (value) => `Zoom ×${value}`
+  },
+  formats: {
+    label: 'Formats',
+    presets: {
+      'qr': 'QR only',
+      'retail-1d': 'Retail 1D (EAN/UPC)',
+      'logistics-1d': 'Logistics 1D (Code 128 etc.)',
+      'all-2d': 'All 2D',
+      'all': 'All'
+    }
+  },
+  imageDrop: {
+    idle: 'Drop images here or tap to choose',
+    processing: (files) => `Analyzing ${files} image${files === 1 ? '' : 's'}...`,
+    done: (files, detected) => `Found ${detected} code${detected === 1 ? '' : 's'} in ${files} image${files === 1 ? '' : 's'}`
+  },
+  export: {
+    copy: 'Copy',
+    copied: 'Copied',
+    copyFailed: 'Copy failed',
+    zip: 'Save as ZIP including thumbnails'
+  },
+  manifest: {
+    empty: 'No codes found in the checklist',
+    readFailed: 'Could not read the file',
+    load: 'Load checklist',
+    paste: 'Paste',
+    pastePlaceholder: 'One code per line, or paste CSV',
+    loadPasted: 'Load',
+    progress: (seen, expected) => `Checked ${seen} / ${expected}`,
+    missing: (count) => `Not scanned (${count})`,
+    unexpected: (count) => `Not on the list (${count})`,
+    exportProgress: 'Export progress as CSV',
+    clearConfirm: 'Remove the checklist?',
+    clear: 'Remove list'
+  },
+  payload: {
+    kinds: {
+      url: 'URL',
+      wifi: 'Wi-Fi',
+      contact: 'Contact',
+      geo: 'Location',
+      email: 'Email',
+      phone: 'Phone',
+      sms: 'SMS',
+      event: 'Event',
+      text: 'Text'
+    },
+    open: 'Open',
+    security: 'Security',
+    hidden: 'Hidden',
+    yes: 'Yes',
+    copyPassword: 'Copy password',
+    copied: 'Copied',
+    name: 'Name',
+    organization: 'Organization',
+    phone: 'Phone',
+    email: 'Email',
+    address: 'Address',
+    note: 'Note',
+    saveVCard: 'Save .vcf',
+    coordinates: 'Coordinates',
+    altitude: 'Altitude',
+    query: 'Query',
+    openMap: 'Open in Maps',
+    to: 'To',
+    subject: 'Subject',
+    body: 'Body',
+    composeEmail: 'Compose email',
+    number: 'Number',
+    call: 'Call',
+    composeSms: 'Compose SMS',
+    start: 'Start',
+    end: 'End',
+    location: 'Location',
+    description: 'Details',
+    addToCalendar: 'Add to calendar'
+  },
+  dedupe: {
+    title: 'Duplicates',
+    exactMatch: 'Exact match',
+    rules: {
+      trim: 'Trim leading/trailing whitespace',
+      collapseWhitespace: 'Collapse repeated whitespace',
+      caseFold: 'Ignore letter case',
+      stripUrlQuery: 'Strip URL query (after ?)',
+      stripUrlFragment: 'Strip URL fragment (after #)'
+    },
+    capture: (pattern, group) => `extract /${pattern}/ (group ${group})`,
+    separator: ', ',
+    pattern: 'Identifier pattern (regular expression)',
+    patternPlaceholder: 'e.g. serial=(\\w+)',
+    group: 'Group number',
+    invalidPattern: (message) => `Invalid regular expression: ${message}`,
+    sample: 'Test text',
+    samplePlaceholder: 'Enter a sample scan to see its identifier',
+    identity: 'Identifier',
+    applyConfirm: 'Changing the duplicate rules will re-merge existing results under the new rules. Continue?',
+    resetToExact: 'Reset to exact match',
+    apply: 'Apply'
+  },
+  forwarding: {
+    title: 'Server upload',
+    enabled: 'on',
+    disabled: 'off',
+    pending: (count) => `${count} pending`,
+    failed: (count) => `${count} failed`,
+    enable: 'POST newly scanned codes to a server',
+    endpoint: 'Endpoint URL',
+    headers: 'Extra headers',
+    removeHeader: 'Remove header',
+    addHeader: '+ Add header',
+    retryFailed: (count) => `Retry ${count} failed`
+  },
+  delivery: {
+    pending: '⏳ Pending',
+    sent: '✅ Sent',
+    failed: '⚠️ Failed',
+    retryHint: ' (tap to retry)'
+  },
+  settings: {
+    title: 'Scan settings',
+    custom: 'Custom',
+    presets: {
+      iphone: 'iPhone',
+      android: 'Fast Android',
+      desktop: 'Desktop webcam'
+    },
+    fields: {
+      cooldownDuration: 'Same-code cooldown (ms)',
+      historyTtl: 'Scan history lifetime (ms)',
+      maxRecentScans: 'Scan history size',
+      maxDisplayedResults: 'Max results shown in the list',
+      canvasScale: 'Frame scale',
+      decodeTimeout: 'Decode timeout (ms)',
+      maxNumberOfSymbols: 'Max codes per frame',
+      tryHarder: 'Prefer accuracy (slower)',
+      escalate: 'Retry hard-to-read frames with heavier settings',
+      decodeBudget: 'Per-frame time budget including retries (ms)'
+    },
+    outOfRange: (min: number, max: number) => `Enter a value between ${min} and ${max}`,
+    ttlShorterThanCooldown: 'Must be at least the cooldown',
+    budgetNotBelowTimeout: 'Must be shorter than the decode timeout',
+    apply: 'Apply',
+    stats: {
+      title: 'Decode stage statistics',
+      stage: 'Stage',
+      hits: 'Hits',
+      attempts: 'Attempts',
+      averageTime: 'Avg (ms)',
+      summary: (frames: number, budgetExceeded: number) => `${frames} frames, ${budgetExceeded} over budget`,
+      reset: 'Reset statistics',
+      stages: {
+        base: 'Standard',
+        tryHarder: 'tryHarder',
+        fullResolution: 'Full resolution',
+        contrast: 'Contrast stretch',
+        binarize: 'Adaptive binarization',
+        inverted: 'Inverted'
+      }
+    }
+  },
+  sheet: {
+    title: 'Sheet capture',
+    enable: 'Arrange codes in one frame into rows and columns',
+    hint: 'Fit the whole sheet in the frame (image files work too)',
+    empty: 'No sheet captured yet',
+    summary: (rows, columns, codes) => `${rows} × ${columns} grid · ${codes} codes`,
+    missing: (count) => `Unread cells (${count})`,
+    cell: (row, column) => `Row ${row}, column ${column}`,
+    exportGrid: 'Export grid as CSV',
+    exportList: 'Export row/column list as CSV',
+    clear: 'Clear'
+  },
+  diagnostics: {
+    title: 'Diagnostics',
+    fps: 'FPS',
+    decodeTime: 'Decode time',
+    scanInterval: 'Scan interval',
+    timeouts: 'Timeouts',
+    errors: 'Errors',
+    frames: 'Processed / dropped',
+    empty: 'No log entries',
+    debug: 'Also record debug logs',
+    download: 'Download log',
+    clear: 'Clear log',
+    close: 'Close'
+  },
+  feedback: {
+    title: 'Sound & vibration',
+    on: 'On',
+    muted: 'Muted',
+    events: {
+      new: 'New code',
+      duplicate: 'Already scanned / cooldown',
+      unexpected: 'Code not on the checklist',
+      error: 'Error'
+    },
+    sound: 'Sound',
+    volume: 'Volume',
+    vibrate: 'Vibrate',
+    test: 'Test',
+    vibrationUnsupported: "This browser doesn't support vibration (e.g. iPhone)"
+  },
+  videoReplay: {
+    title: 'Scan from a video file',
+    open: 'Open video file (MP4/WebM)',
+    play: 'Play',
+    pause: 'Pause',
+    previousFrame: 'Previous frame',
+    nextFrame: 'Next frame',
+    speed: 'Speed',
+    scanAllFrames: 'Decode every frame',
+    scanAllFramesHint: 'Decodes the video frame by frame from the start and lists when each code appeared',
+    cancel: 'Cancel',
+    reportSummary: (frames, framesWithCodes, codes, timeouts) =>
+      `Codes in ${framesWithCodes} of ${frames} frames · ${codes} distinct codes` +
+      (timeouts > 0 ? ` · ${timeouts} timeouts` : ''),
+    timeRange: (first, last, frames) => `${first}–${last}s (${frames} frames)`
+  },
+  regression: {
+    title: 'Video regression check',
+    description: 'Decodes recorded clips in bulk and compares them with the expected codes (a matching .expected.txt / .expected.csv)',
+    selectFolder: 'Select folder',
+    running: (current, total, name) => `Decoding ${current} / ${total}: ${name}`,
+    noClips: 'No video files found',
+    summary: (passed, total) => `${passed} of ${total} passed`,
+    passed: 'Pass',
+    failed: 'Fail',
+    missing: (codes) => `Missing: ${codes}`,
+    unexpected: (codes) => `Unexpected: ${codes}`,
+    downloadReport: 'Download report'
+  },
+  validation: {
+    title: 'Validation',
+    acceptAll: 'Accept everything',
+    separator: ', ',
+    describe: {
+      prefix: (prefix) => `starts with "${prefix}"`,
+      length: (min, max) => `${min ?? ''}–${max ?? ''} chars`,
+      jsonSchema: 'JSON Schema'
+    },
+    prefix: 'Prefix',
+    prefixPlaceholder: 'e.g. INV-',
+    minLength: 'Min length',
+    maxLength: 'Max length',
+    invalidLength: 'Min length is greater than max length',
+    pattern: 'Regular expression',
+    patternPlaceholder: 'e.g. ^\\d{13}$',
+    invalidPattern: (message) => `Invalid regular expression: ${message}`,
+    checkDigit: 'Check digit',
+    checkDigits: {
+      none: 'None',
+      gs1: 'GS1 (mod 10)',
+      luhn: 'Luhn'
+    },
+    jsonSchema: 'JSON Schema (accept JSON codes only)',
+    jsonSchemaPlaceholder: 'e.g. {"type": "object", "required": ["id"]}',
+    invalidSchema: (message) => `Invalid JSON Schema: ${message}`,
+    schemaNotObject: 'must be a JSON object',
+    rejectAction: 'Codes that fail',
+    rejectActions: {
+      list: 'Show in rejected list',
+      drop: 'Drop'
+    },
+    sample: 'Test text',
+    samplePlaceholder: 'Enter a sample scan to see the result',
+    sampleAccepted: 'Accepted',
+    sampleRejected: (reason) => `Rejected: ${reason}`,
+    hint: 'Applies to this session. Results already collected stay in the list, but are checked when scanned again',
+    clear: 'Clear rules',
+    apply: 'Apply',
+    reasons: {
+      pattern: 'Does not match the regular expression',
+      prefix: 'Wrong prefix',
+      length: 'Length out of range',
+      checkDigit: 'Check digit mismatch',
+      notJson: 'Not JSON',
+      schema: 'Does not match the JSON Schema'
+    },
+    rejectedTitle: (count) => `Rejected codes (${count})`,
+    clearRejected: 'Clear'
+  },
+  resultDetail: {
+    show: 'Details',
+    hide: 'Hide details',
+    noThumbnail: 'No image (results from image files or shared lists)',
+    format: 'Format',
+    ecLevel: 'EC level',
+    orientation: 'Orientation',
+    points: 'Corners',
+    unknown: '—'
+  },
+  codeWriter: {
+    show: 'Regenerate code',
+    hide: 'Close',
+    generating: 'Generating...',
+    failed: 'A code cannot be generated from this content',
+    downloadSvg: 'Save as SVG',
+    downloadPng: 'Save as PNG'
+  },
+  share: {
+    title: 'Share list as QR',
+    summary: (count, pages) => `${count} items · ${pages} ${pages === 1 ? 'code' : 'codes'}`,
+    hint: 'Start scanning in this app on another device and scan the codes shown here to import the list (multiple codes can be scanned in any order)',
+    empty: 'No results to share',
+    show: 'Show QR codes',
+    hide: 'Close',
+    generating: 'Generating...',
+    failed: 'Could not generate the QR codes',
+    page: (current, total) => `${current} / ${total}`,
+    previous: 'Previous code',
+    next: 'Next code',
+    play: 'Auto-advance',
+    pause: 'Pause',
+    importing: (received, total) => `Reading shared list: ${received} / ${total} codes`,
+    imported: (count) => `Imported ${count} ${count === 1 ? 'item' : 'items'} from a shared list`,
+    importInvalid: 'Could not read the shared list',
+    dismiss: 'Close'
+  },
+  update: {
+    available: 'A new version is available',
+    apply: 'Update',
+    later: 'Later'
+  },
+  embed: {
+    notAllowed: 'Embedding from this page is not allowed',
+    initFailed: (message) => `Initialization error: ${message}`,
+    decodeFailed: 'Decoding failed',
+    cameraFailed: (message) => `Could not start the camera: ${message}`,
+    preparing: 'Preparing...',
+    start: 'Start',
+    stop: 'Stop'
+  },
+  locale: {
+    label: 'Language'
+  }
+}
+
+export const MESSAGES = { ja, en }
@@ -0,0 +1,276 @@
+import { describe, expect, it } from 'vitest'
+import {
+  parseGeo,
+  parseICalDate,
+  parseMailto,
+  parseMecard,
+  parsePayload,
+  parseSms,
+  parseTel,
+  parseUrl,
+  parseVCard,
+  parseVEvent,
+  parseWifi,
+  type PayloadParser
+} from './payload'
+
+describe('parseWifi', () => {
+  it('SSID・暗号化方式・パスワード・ステルスを読み取る', () => {
+    expect(parseWifi('WIFI:S:Office;T:WPA;P:secret123;H:true;;')).toEqual({
+      kind: 'wifi',
+      ssid: 'Office',
+      security: 'WPA',
+      password: 'secret123',
+      hidden: true
+    })
+  })
+
+  it('値の中のエスケープ（\\; \\, \\: \\\\ \\"）を戻す', () => {
+    const wifi = parseWifi('WIFI:T:WPA;S:My\\;Net\\,5G;P:pa\\:ss\\\\word\\";;')
+    expect(wifi).toMatchObject({ ssid: 'My;Net,5G', password: 'pa:ss\\word"' })
+  })
+
+  it('パスワードなし・ステルス未指定', () => {
+    expect(parseWifi('WIFI:S:Guest;T:nopass;;')).toMatchObject({ password: null, hidden: false })
+  })
+
+  it('SSIDがない場合は対象外', () => {
+    expect(parseWifi('WIFI:T:WPA;P:secret;;')).toBeNull()
+    expect(parseWifi('S:Office;T:WPA;;')).toBeNull()
+  })
+})
+
+describe('parseMecard', () => {
+  it('氏名（姓,名）・複数の電話番号・エスケープした値を読み取る', () => {
+    const contact = parseMecard(
+      'MECARD:N:Yamada,Taro;ORG:ACME;TEL:0312345678;TEL:09012345678;EMAIL:taro@example.com;' +
+      'ADR:Chiyoda\\, Tokyo;URL:https\\://example.com;NOTE:memo\\; here;;'
+    )
+    expect(contact).toEqual({
+      kind: 'contact',
+      name: 'Yamada Taro',
+      organization: 'ACME',
+      phones: ['0312345678', '09012345678'],
+      emails: ['taro@example.com'],
+      address: 'Chiyoda, Tokyo',
+      url: 'https://example.com',
+      note: 'memo; here'
+    })
+  })
+
+  it('項目がない場合は null・空の配列', () => {
+    expect(parseMecard('MECARD:TEL:0312345678;;')).toMatchObject({ name: null, emails: [], url: null })
+  })
+})
+
+describe('parseVCard', () => {
+  it('FN・ORG・TEL・ADR・折り返したNOTEを読み取る', () => {
+    const contact = parseVCard([
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'FN:Taro Yamada',
+      'N:Yamada;Taro;;;',
+      'ORG:ACME;Sales',
+      'TEL;TYPE=CELL:090-1234-5678',
+      'EMAIL;TYPE=WORK:taro@example.com',
+      'ADR;TYPE=WORK:;;1-2-3 Chiyoda;Tokyo;;100-0001;Japan',
+      'URL:https://example.com',
+      'NOTE:first line\\nsecond',
+      '  line',
+      'END:VCARD'
+    ].join('\r\n'))
+    expect(contact).toEqual({
+      kind: 'contact',
+      name: 'Taro Yamada',
+      organization: 'ACME',
+      phones: ['090-1234-5678'],
+      emails: ['taro@example.com'],
+      address: '1-2-3 Chiyoda Tokyo 100-0001 Japan',
+      url: 'https://example.com',
+      note: 'first line\nsecond line'
+    })
+  })
+
+  it('FNがない場合はNの「名 姓」を使う', () => {
+    expect(parseVCard('BEGIN:VCARD\nN:Yamada;Taro;;;\nEND:VCARD')).toMatchObject({ name: 'Taro Yamada' })
+  })
+
+  it('BEGIN:VCARDで始まらない場合は対象外', () => {
+    expect(parseVCard('FN:Taro Yamada')).toBeNull()
+  })
+})
+
+describe('parseGeo', () => {
+  it('緯度・経度・高度・検索語を読み取る', () => {
+    expect(parseGeo('geo:35.6812,139.7671,40?q=Tokyo%20Station')).toEqual({
+      kind: 'geo',
+      latitude: 35.6812,
+      longitude: 139.7671,
+      altitude: 40,
+      query: 'Tokyo Station'
+    })
+  })
+
+  it('パラメータ付き・高度なし', () => {
+    expect(parseGeo('geo:-33.8688,151.2093;u=35')).toMatchObject({ latitude: -33.8688, altitude: null, query: null })
+  })
+
+  it('範囲外の座標は対象外', () => {
+    expect(parseGeo('geo:91,0')).toBeNull()
+    expect(parseGeo('geo:0,181')).toBeNull()
+  })
+})
+
+describe('parseMailto', () => {
+  it('mailto: の宛先・件名・本文を読み取る', () => {
+    expect(parseMailto('mailto:taro@example.com?subject=Hello%20World&body=Line+1')).toEqual({
+      kind: 'email',
+      to: 'taro@example.com',
+      subject: 'Hello World',
+      body: 'Line 1'
+    })
+  })
+
+  it('MATMSG形式', () => {
+    expect(parseMailto('MATMSG:TO:taro@example.com;SUB:Hi;BODY:Text\\; more;;')).toEqual({
+      kind: 'email',
+      to: 'taro@example.com',
+      subject: 'Hi',
+      body: 'Text; more'
+    })
+  })
+
+  it('件名・本文なし', () => {
+    expect(parseMailto('mailto:taro@example.com')).toMatchObject({ subject: null, body: null })
+  })
+})
+
+describe('parseTel', () => {
+  it('記号を含む番号を読み取る', () => {
+    expect(parseTel('tel:+81-3-1234-5678')).toEqual({ kind: 'phone', number: '+81-3-1234-5678' })
+  })
+
+  it('数字以外を含む場合は対象外', () => {
+    expect(parseTel('tel:abc')).toBeNull()
+  })
+})
+
+describe('parseSms', () => {
+  it('SMSTO形式（本文のコロンはそのまま）', () => {
+    expect(parseSms('SMSTO:+819012345678:Meet at 10:30')).toEqual({
+      kind: 'sms',
+      number: '+819012345678',
+      message: 'Meet at 10:30'
+    })
+    expect(parseSms('SMSTO:+819012345678')).toMatchObject({ message: null })
+  })
+
+  it('sms: 形式の本文はクエリから読み取る', () => {
+    expect(parseSms('sms:+819012345678?body=Hi%20there')).toEqual({
+      kind: 'sms',
+      number: '+819012345678',
+      message: 'Hi there'
+    })
+  })
+})
+
+describe('parseVEvent', () => {
+  const event = [
+    'BEGIN:VEVENT',
+    'SUMMARY:Weekly\\, sync',
+    'DTSTART:20240101T090000Z',
+    'DTEND:20240101T100000Z',
+    'LOCATION:Room 1',
+    'DESCRIPTION:Agenda\\nNotes',
+    'END:VEVENT'
+  ].join('\n')
+
+  it('VEVENT単体を読み取り、VCALENDARで包んだicsを作る', () => {
+    const parsed = parseVEvent(event)
+    expect(parsed).toMatchObject({
+      kind: 'event',
+      summary: 'Weekly, sync',
+      start: new Date(Date.UTC(2024, 0, 1, 9)),
+      end: new Date(Date.UTC(2024, 0, 1, 10)),
+      location: 'Room 1',
+      description: 'Agenda\nNotes'
+    })
+    expect(parsed?.kind === 'event' && parsed.ics).toBe([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//multi-qr-scanner//EN',
+      event.replace(/\n/g, '\r\n'),
+      'END:VCALENDAR'
+    ].join('\r\n'))
+  })
+
+  it('VCALENDARで包まれている場合はそのままicsにする', () => {
+    const calendar = `BEGIN:VCALENDAR\nVERSION:2.0\n${event}\nEND:VCALENDAR`
+    const parsed = parseVEvent(calendar)
+    expect(parsed).toMatchObject({ kind: 'event', summary: 'Weekly, sync', ics: calendar })
+  })
+
+  it('END:VEVENTがなくても読み取る', () => {
+    expect(parseVEvent('BEGIN:VEVENT\nSUMMARY:Open')).toMatchObject({ summary: 'Open', start: null, end: null })
+  })
+
+  it('本文の途中に BEGIN:VEVENT を含むだけのテキストは対象外', () => {
+    expect(parseVEvent('Paste this: BEGIN:VEVENT\nSUMMARY:x\nEND:VEVENT')).toBeNull()
+    expect(parseVEvent('https://example.com/?ics=BEGIN:VEVENT')).toBeNull()
+  })
+})
+
+describe('parseICalDate', () => {
+  it('UTC・ローカル時刻・日付のみ', () => {
+    expect(parseICalDate('20240315T123045Z')).toEqual(new Date(Date.UTC(2024, 2, 15, 12, 30, 45)))
+    expect(parseICalDate('20240315T1230')).toEqual(new Date(2024, 2, 15, 12, 30))
+    expect(parseICalDate('20240315')).toEqual(new Date(2024, 2, 15))
+    expect(parseICalDate('2024-03-15')).toBeNull()
+  })
+})
+
+describe('parseUrl', () => {
+  it('http(s)のURLを正規化する', () => {
+    expect(parseUrl(' https://Example.com/path?q=1 ')).toEqual({ kind: 'url', url: 'https://example.com/path?q=1' })
+  })
+
+  it('空白を含むもの・http(s)以外は対象外', () => {
+    expect(parseUrl('https://example.com/a b')).toBeNull()
+    expect(parseUrl('ftp://example.com/file')).toBeNull()
+  })
+})
+
+describe('parsePayload', () => {
+  it('種類ごとに振り分け、どれにも当てはまらない場合はテキストにする', () => {
+    expect(parsePayload('WIFI:S:Office;;').kind).toBe('wifi')
+    expect(parsePayload('MECARD:N:Yamada;;').kind).toBe('contact')
+    expect(parsePayload('BEGIN:VCARD\nFN:Taro\nEND:VCARD').kind).toBe('contact')
+    expect(parsePayload('BEGIN:VEVENT\nSUMMARY:x\nEND:VEVENT').kind).toBe('event')
+    expect(parsePayload('geo:35,139').kind).toBe('geo')
+    expect(parsePayload('mailto:taro@example.com').kind).toBe('email')
+    expect(parsePayload('tel:0312345678').kind).toBe('phone')
+    expect(parsePayload('SMSTO:0312345678:hi').kind).toBe('sms')
+    expect(parsePayload('https://example.com').kind).toBe('url')
+    expect(parsePayload('4901234567894')).toEqual({ kind: 'text', text: '4901234567894' })
+  })
+
+  it('先に並んだパーサーを優先する', () => {
+    // WIFIのパスワードにURLを含んでも、URLより先に判定するWi-Fiとして扱う
+    expect(parsePayload('WIFI:S:Office;P:https\\://example.com;;').kind).toBe('wifi')
+    // 本文にVEVENTを含むだけのURLはイベントではなくURL
+    expect(parsePayload('https://example.com/?ics=BEGIN:VEVENT').kind).toBe('url')
+  })
+
+  it('先頭に追加したパーサーが既定のパーサーより優先される', () => {
+    const calls: string[] = []
+    const inventory: PayloadParser = text => {
+      calls.push(text)
+      return /^INV-/.test(text) ? { kind: 'text', text: `在庫 ${text.slice(4)}` } : null
+    }
+    const parsers = [inventory, parseUrl]
+
+    expect(parsePayload('INV-0001', parsers)).toEqual({ kind: 'text', text: '在庫 0001' })
+    expect(parsePayload('https://example.com', parsers).kind).toBe('url')
+    expect(calls).toEqual(['INV-0001', 'https://example.com'])
+  })
+})
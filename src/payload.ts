@@ -0,0 +1,359 @@
+// QRコードのペイロードを種類ごとに解析する（DOM非依存）
+
+export interface UrlPayload {
+  kind: 'url'
+  url: string
+}
+
+export interface WifiPayload {
+  kind: 'wifi'
+  ssid: string
+  security: string | null // WPA / WEP / nopass など
+  password: string | null
+  hidden: boolean
+}
+
+export interface ContactPayload {
+  kind: 'contact'
+  name: string | null
+  organization: string | null
+  phones: string[]
+  emails: string[]
+  address: string | null
+  url: string | null
+  note: string | null
+}
+
+export interface GeoPayload {
+  kind: 'geo'
+  latitude: number
+  longitude: number
+  altitude: number | null
+  query: string | null
+}
+
+export interface EmailPayload {
+  kind: 'email'
+  to: string
+  subject: string | null
+  body: string | null
+}
+
+export interface PhonePayload {
+  kind: 'phone'
+  number: string
+}
+
+export interface SmsPayload {
+  kind: 'sms'
+  number: string
+  message: string | null
+}
+
+export interface EventPayload {
+  kind: 'event'
+  summary: string | null
+  start: Date | null
+  end: Date | null
+  location: string | null
+  description: string | null
+  ics: string // VCALENDARで包んだiCalendarテキスト
+}
+
+export interface TextPayload {
+  kind: 'text'
+  text: string
+}
+
+export type ParsedPayload =
+  | UrlPayload
+  | WifiPayload
+  | ContactPayload
+  | GeoPayload
+  | EmailPayload
+  | PhonePayload
+  | SmsPayload
+  | EventPayload
+  | TextPayload
+
+/** 対応しない入力には null を返すパーサー */
+export type PayloadParser = (text: string) => ParsedPayload | null
+
+/**
+ * MECARD / WIFI形式の「KEY:value;KEY:value;;」を分解する。
+ * 値の中の \; \, \: \\ はエスケープとして扱う。
+ */
+function parseSemicolonFields(body: string): Array<[string, string]> {
+  const fields: Array<[string, string]> = []
+  let current = ''
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i]
+    if (char === '\\' && i + 1 < body.length) {
+      current += char + body[++i]
+    } else if (char === ';') {
+      if (current) fields.push(splitField(current))
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current) fields.push(splitField(current))
+  return fields
+}
+
+function splitField(field: string): [string, string] {
+  // キー部分にはエスケープが含まれないため、最初の未エスケープのコロンで分割
+  const index = field.indexOf(':')
+  if (index < 0) return [field.toUpperCase(), '']
+  return [field.slice(0, index).toUpperCase(), unescapeField(field.slice(index + 1))]
+}
+
+function unescapeField(value: string): string {
+  return value.replace(/\\([\\;,:"])/g, '$1')
+}
+
+function decodeQueryValue(value: string | null): string | null {
+  if (value === null) return null
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '))
+  } catch {
+    return value
+  }
+}
+
+function parseQuery(query: string): Map<string, string> {
+  const params = new Map<string, string>()
+  for (const pair of query.split('&')) {
+    if (!pair) continue
+    const [key, ...rest] = pair.split('=')
+    params.set(key.toLowerCase(), decodeQueryValue(rest.join('=')) ?? '')
+  }
+  return params
+}
+
+export const parseUrl: PayloadParser = (text) => {
+  const trimmed = text.trim()
+  if (!/^https?:\/\/\S+$/i.test(trimmed)) return null
+  try {
+    return { kind: 'url', url: new URL(trimmed).href }
+  } catch {
+    return null
+  }
+}
+
+export const parseWifi: PayloadParser = (text) => {
+  if (!/^WIFI:/i.test(text)) return null
+  const fields = new Map(parseSemicolonFields(text.slice(5)))
+  const ssid = fields.get('S')
+  if (ssid === undefined) return null
+  return {
+    kind: 'wifi',
+    ssid,
+    security: fields.get('T') || null,
+    password: fields.get('P') || null,
+    hidden: fields.get('H')?.toLowerCase() === 'true'
+  }
+}
+
+export const parseMecard: PayloadParser = (text) => {
+  if (!/^MECARD:/i.test(text)) return null
+  const fields = parseSemicolonFields(text.slice(7))
+  const values = (key: string) => fields.filter(([k]) => k === key).map(([, v]) => v).filter(Boolean)
+  const [rawName] = values('N')
+  // MECARDの氏名は「姓,名」
+  const name = rawName ? rawName.split(',').map(part => part.trim()).filter(Boolean).join(' ') : null
+  return {
+    kind: 'contact',
+    name,
+    organization: values('ORG')[0] ?? null,
+    phones: values('TEL'),
+    emails: values('EMAIL'),
+    address: values('ADR')[0] ?? null,
+    url: values('URL')[0] ?? null,
+    note: values('NOTE')[0] ?? null
+  }
+}
+
+/** vCard / iCalendar の行を展開（折り返し行を連結）し、名前・パラメータ・値に分解する */
+function parseContentLines(text: string): Array<{ name: string; params: string; value: string }> {
+  const unfolded = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '')
+  return unfolded.split('\n').flatMap(line => {
+    const index = line.indexOf(':')
+    if (index < 0) return []
+    const [name, ...params] = line.slice(0, index).split(';')
+    return [{ name: name.toUpperCase(), params: params.join(';'), value: line.slice(index + 1) }]
+  })
+}
+
+function unescapeContentValue(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([\\;,])/g, '$1')
+}
+
+export const parseVCard: PayloadParser = (text) => {
+  if (!/^BEGIN:VCARD/i.test(text.trim())) return null
+  const lines = parseContentLines(text.trim())
+  const values = (name: string) => lines.filter(line => line.name === name).map(line => line.value)
+
+  const formattedName = values('FN')[0]
+  const structuredName = values('N')[0]
+  const name = formattedName
+    ? unescapeContentValue(formattedName)
+    : structuredName
+      ? structuredName.split(';').slice(0, 2).reverse().filter(Boolean).join(' ')
+      : null
+  const address = values('ADR')[0]
+
+  return {
+    kind: 'contact',
+    name,
+    organization: values('ORG')[0] ? unescapeContentValue(values('ORG')[0].split(';')[0]) : null,
+    phones: values('TEL'),
+    emails: values('EMAIL'),
+    address: address
+      ? address.split(';').map(unescapeContentValue).filter(Boolean).join(' ')
+      : null,
+    url: values('URL')[0] ?? null,
+    note: values('NOTE')[0] ? unescapeContentValue(values('NOTE')[0]) : null
+  }
+}
+
+export const parseGeo: PayloadParser = (text) => {
+  const match = /^geo:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)(?:,(-?\d+(?:\.\d+)?))?(?:;[^?]*)?(?:\?(.*))?$/i.exec(text.trim())
+  if (!match) return null
+  const latitude = Number(match[1])
+  const longitude = Number(match[2])
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null
+  return {
+    kind: 'geo',
+    latitude,
+    longitude,
+    altitude: match[3] !== undefined ? Number(match[3]) : null,
+    query: match[4] ? parseQuery(match[4]).get('q') ?? null : null
+  }
+}
+
+export const parseMailto: PayloadParser = (text) => {
+  const trimmed = text.trim()
+  if (/^mailto:/i.test(trimmed)) {
+    const [address, query = ''] = trimmed.slice(7).split('?')
+    const params = parseQuery(query)
+    return {
+      kind: 'email',
+      to: decodeQueryValue(address) ?? '',
+      subject: params.get('subject') ?? null,
+      body: params.get('body') ?? null
+    }
+  }
+  // docomo形式（MATMSG:TO:...;SUB:...;BODY:...;;）
+  if (/^MATMSG:/i.test(trimmed)) {
+    const fields = new Map(parseSemicolonFields(trimmed.slice(7)))
+    return {
+      kind: 'email',
+      to: fields.get('TO') ?? '',
+      subject: fields.get('SUB') || null,
+      body: fields.get('BODY') || null
+    }
+  }
+  return null
+}
+
+export const parseTel: PayloadParser = (text) => {
+  const match = /^tel:([+\d\-().\s]+)$/i.exec(text.trim())
+  return match ? { kind: 'phone', number: match[1].trim() } : null
+}
+
+export const parseSms: PayloadParser = (text) => {
+  const trimmed = text.trim()
+  // SMSTO:番号:本文
+  const smsto = /^SMSTO:([^:]*)(?::([\s\S]*))?$/i.exec(trimmed)
+  if (smsto) {
+    return { kind: 'sms', number: smsto[1], message: smsto[2] || null }
+  }
+  // sms:番号?body=本文
+  const sms = /^sms:([^?]*)(?:\?(.*))?$/i.exec(trimmed)
+  if (sms) {
+    return { kind: 'sms', number: sms[1], message: sms[2] ? parseQuery(sms[2]).get('body') ?? null : null }
+  }
+  return null
+}
+
+/** iCalendarの日時（20240101T090000Z / 20240101T090000 / 20240101）を解釈 */
+export function parseICalDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim())
+  if (!match) return null
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match
+  const args = [Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)] as const
+  return utc ? new Date(Date.UTC(...args)) : new Date(...args)
+}
+
+export const parseVEvent: PayloadParser = (text) => {
+  const trimmed = text.trim()
+  // 先頭がVEVENT、またはVCALENDARで包んだVEVENTのみ（本文に文字列を含むだけのテキストは対象外）
+  const start = /^BEGIN:VEVENT/i.test(trimmed)
+    ? 0
+    : /^BEGIN:VCALENDAR/i.test(trimmed) ? trimmed.search(/^BEGIN:VEVENT/im) : -1
+  if (start < 0) return null
+  const endMatch = /END:VEVENT/i.exec(trimmed.slice(start))
+  const eventText = (endMatch
+    ? trimmed.slice(start, start + endMatch.index + endMatch[0].length)
+    : trimmed.slice(start) + '\nEND:VEVENT'
+  ).replace(/\r?\n/g, '\r\n')
+
+  const lines = parseContentLines(eventText)
+  const value = (name: string) => lines.find(line => line.name === name)?.value ?? null
+  const dtstart = value('DTSTART')
+  const dtend = value('DTEND')
+
+  return {
+    kind: 'event',
+    summary: value('SUMMARY') && unescapeContentValue(value('SUMMARY')!),
+    start: dtstart ? parseICalDate(dtstart) : null,
+    end: dtend ? parseICalDate(dtend) : null,
+    location: value('LOCATION') && unescapeContentValue(value('LOCATION')!),
+    description: value('DESCRIPTION') && unescapeContentValue(value('DESCRIPTION')!),
+    ics: /^BEGIN:VCALENDAR/i.test(trimmed)
+      ? trimmed
+      : ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//multi-qr-scanner//EN', eventText, 'END:VCALENDAR'].join('\r\n')
+  }
+}
+
+// 判定順に並べた既定のパーサー（社内形式は先頭に追加する）
+export const DEFAULT_PAYLOAD_PARSERS: PayloadParser[] = [
+  parseWifi,
+  parseMecard,
+  parseVCard,
+  parseVEvent,
+  parseGeo,
+  parseMailto,
+  parseTel,
+  parseSms,
+  parseUrl
+]
+
+export function parsePayload(text: string, parsers: PayloadParser[] = DEFAULT_PAYLOAD_PARSERS): ParsedPayload {
+  for (const parser of parsers) {
+    const parsed = parser(text)
+    if (parsed) return parsed
+  }
+  return { kind: 'text', text }
+}
+
+function escapeVCardValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([;,])/g, '\\$1')
+}
+
+/** 連絡先をvCard 3.0テキストに変換（.vcfダウンロード用） */
+export function toVCard(contact: ContactPayload): string {
+  const lines = ['BEGIN:VCARD', 'VERSION:3.0']
+  const name = contact.name ?? contact.organization ?? ''
+  lines.push(`FN:${escapeVCardValue(name)}`)
+  lines.push(`N:${escapeVCardValue(name)};;;;`)
+  if (contact.organization) lines.push(`ORG:${escapeVCardValue(contact.organization)}`)
+  contact.phones.forEach(phone => lines.push(`TEL:${phone}`))
+  contact.emails.forEach(email => lines.push(`EMAIL:${email}`))
+  if (contact.address) lines.push(`ADR:;;${escapeVCardValue(contact.address)};;;;`)
+  if (contact.url) lines.push(`URL:${contact.url}`)
+  if (contact.note) lines.push(`NOTE:${escapeVCardValue(contact.note)}`)
+  lines.push('END:VCARD')
+  return lines.join('\r\n') + '\r\n'
+}
@@ -0,0 +1,13 @@
+import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import './index.css'
+import LocaleProvider from './LocaleProvider.tsx'
+import RegressionRunner from './RegressionRunner.tsx'
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <LocaleProvider>
+      <RegressionRunner />
+    </LocaleProvider>
+  </StrictMode>,
+)
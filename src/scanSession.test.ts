@@ -0,0 +1,289 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { ReadResult } from 'zxing-wasm/reader'
+import { ScanSession, type Clock, type DetectEvent, type DuplicateEvent, type ScanFrame } from './scanSession'
+import type { GuideRegion } from './guideGeometry'
+import { DEFAULT_VALIDATION_RULES } from './validation'
+
+// 手動で進める時計（タイマーは時刻を進めたときに実行する）
+function createFakeClock(start = 100000) {
+  let now = start
+  let nextHandle = 1
+  const timers = new Map<number, { at: number; callback: () => void }>()
+
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: (callback, ms) => {
+      const handle = nextHandle++
+      timers.set(handle, { at: now + ms, callback })
+      return handle
+    },
+    clearTimeout: handle => { timers.delete(handle) }
+  }
+
+  function advance(ms: number) {
+    now += ms
+    for (const [handle, timer] of Array.from(timers.entries()).sort((a, b) => a[1].at - b[1].at)) {
+      if (timer.at > now) continue
+      timers.delete(handle)
+      timer.callback()
+    }
+  }
+
+  return { clock, advance }
+}
+
+// 中心が (x, y) のコードの読み取り結果
+function read(text: string, x = 50, y = 50, format = 'QRCode'): ReadResult {
+  return {
+    text,
+    format,
+    position: {
+      topLeft: { x: x - 10, y: y - 10 },
+      topRight: { x: x + 10, y: y - 10 },
+      bottomRight: { x: x + 10, y: y + 10 },
+      bottomLeft: { x: x - 10, y: y + 10 }
+    }
+  } as ReadResult
+}
+
+// 左上 100x100 の1枠のガイド
+const GUIDE: GuideRegion = {
+  top: 0,
+  left: 0,
+  width: 100,
+  height: 100,
+  center: { x: 50, y: 50 },
+  slots: [{ index: 0, row: 0, column: 0, top: 0, left: 0, width: 100, height: 100 }],
+  tolerance: 0
+}
+
+const FRAME: ScanFrame = {
+  image: {} as ImageData,
+  guide: GUIDE,
+  toDisplay: point => point
+}
+
+// フレームごとの読み取り結果を順に返すデコーダーで、セッションと記録用の配列を作る
+function createSession(frames: ReadResult[][] = [], config = {}) {
+  const { clock, advance } = createFakeClock()
+  const queue = [...frames]
+  const session = new ScanSession({
+    decoder: async () => queue.shift() ?? [],
+    clock,
+    config: { cooldownDuration: 3000, historyTtl: 10000, maxRecentScans: 20, ...config }
+  })
+  const detected: DetectEvent[] = []
+  const duplicates: DuplicateEvent[] = []
+  session.onDetect(event => detected.push(event))
+  session.onDuplicate(event => duplicates.push(event))
+  return { session, advance, detected, duplicates }
+}
+
+function counts(session: ScanSession): Record<string, number> {
+  return Object.fromEntries(Array.from(session.getResults().values()).map(result => [result.text, result.count]))
+}
+
+describe('ScanSession', () => {
+  describe('重複排除', () => {
+    it('同じコードは1件にまとめ、回数を加算する', () => {
+      const { session, advance, detected } = createSession()
+      session.addResult(read('A'))
+      advance(5000)
+      session.addResult(read('A'))
+
+      expect(counts(session)).toEqual({ A: 2 })
+      expect(detected.map(event => event.isNew)).toEqual([true, false])
+    })
+
+    it('同じテキストでもフォーマットが異なれば別の結果にする', () => {
+      const { session } = createSession()
+      session.addResult(read('4901234567894', 50, 50, 'EAN13'))
+      session.addResult(read('4901234567894', 50, 50, 'Code128'))
+
+      expect(session.getResults().size).toBe(2)
+    })
+
+    it('重複判定ルールで同じ識別子になる結果を統合する', () => {
+      const { session, advance } = createSession()
+      session.addResult(read('https://example.com/item/1?ref=a'))
+      advance(5000)
+      session.addResult(read('https://example.com/item/1?ref=b'))
+      expect(session.getResults().size).toBe(2)
+
+      session.setDedupePolicy({ ...session.policy, stripUrlQuery: true })
+      const [result] = session.getResults().values()
+      expect(session.getResults().size).toBe(1)
+      expect(result.count).toBe(2)
+      expect(result.identity).toBe('https://example.com/item/1')
+    })
+  })
+
+  describe('クールダウン', () => {
+    it('クールダウン中の再検出は取り込まず、残り時間を通知する', () => {
+      const { session, advance, duplicates } = createSession()
+      expect(session.addResult(read('A'))).toBe(true)
+      advance(1000)
+      expect(session.addResult(read('A'))).toBe(false)
+
+      expect(counts(session)).toEqual({ A: 1 })
+      expect(duplicates).toHaveLength(1)
+      expect(duplicates[0].remainingCooldown).toBe(2000)
+    })
+
+    it('クールダウンが過ぎたら再度取り込む', () => {
+      const { session, advance } = createSession()
+      session.addResult(read('A'))
+      advance(3000)
+      expect(session.addResult(read('A'))).toBe(true)
+      expect(counts(session)).toEqual({ A: 2 })
+    })
+
+    it('画像ファイル・共有された一覧からの取り込みはクールダウンの対象外', () => {
+      const { session } = createSession()
+      session.addResult(read('A'))
+      expect(session.addResult(read('A'), { sourceFile: 'label.jpg' })).toBe(true)
+      expect(session.addResult(read('A'), { imported: true })).toBe(true)
+      expect(counts(session)).toEqual({ A: 3 })
+    })
+  })
+
+  describe('スキャン履歴のTTL', () => {
+    it('TTLを過ぎた履歴は削除され、クールダウンも解除される', () => {
+      const { session, advance } = createSession([], { cooldownDuration: 5000, historyTtl: 2000 })
+      session.addResult(read('A'))
+      advance(2500)
+      session.pruneHistory()
+
+      expect(session.addResult(read('A'))).toBe(true)
+      expect(counts(session)).toEqual({ A: 2 })
+    })
+
+    it('TTL内の履歴は残る', () => {
+      const { session, advance } = createSession([], { cooldownDuration: 5000, historyTtl: 2000 })
+      session.addResult(read('A'))
+      advance(1500)
+      session.pruneHistory()
+
+      expect(session.addResult(read('A'))).toBe(false)
+    })
+  })
+
+  describe('スキャン履歴の上限', () => {
+    it('上限を超えると最も古い履歴から削除する', () => {
+      const { session, advance } = createSession([], { maxRecentScans: 2 })
+      session.addResult(read('A'))
+      advance(100)
+      session.addResult(read('B'))
+      advance(100)
+      session.addResult(read('C'))
+      advance(100)
+
+      // A は履歴から押し出されたためクールダウン中でも取り込まれる
+      expect(session.addResult(read('A'))).toBe(true)
+      expect(session.addResult(read('C'))).toBe(false)
+      expect(counts(session)).toEqual({ A: 2, B: 1, C: 1 })
+    })
+  })
+
+  describe('検証ルール', () => {
+    it('ルールを設定する前に取り込んだコードも、以降の読み取りでは除外する', () => {
+      const { session, advance, duplicates } = createSession()
+      const rejected: string[] = []
+      session.onReject(event => rejected.push(event.read.text))
+
+      session.addResult(read('https://ad.example.com'))
+      session.setValidationRules({ ...DEFAULT_VALIDATION_RULES, prefix: 'INV-' })
+      advance(100)
+      expect(session.addResult(read('https://ad.example.com'))).toBe(false)
+      advance(100)
+      // クールダウン中は重複ではなく除外として扱い、通知は初回のみ
+      expect(session.addResult(read('https://ad.example.com'))).toBe(false)
+
+      expect(rejected).toEqual(['https://ad.example.com'])
+      expect(duplicates).toHaveLength(0)
+      expect(counts(session)).toEqual({ 'https://ad.example.com': 1 })
+      expect(session.getRejected().map(scan => scan.count)).toEqual([1])
+    })
+  })
+
+  describe('照合リスト', () => {
+    it('重複判定ルールで抽出した識別子で照合する', () => {
+      const { session, detected } = createSession()
+      session.setDedupePolicy({ ...session.policy, capturePattern: 'serial=(\\w+)' })
+      session.setExpectedCodes(['SN001', 'SN002'])
+
+      session.addResult(read('https://example.com/?serial=SN001'))
+      session.addResult(read('https://example.com/?serial=SN999'))
+
+      expect(detected.map(event => event.unexpected)).toEqual([false, true])
+    })
+  })
+
+  describe('フレームの再生', () => {
+    it('読み取り結果の列を順に処理し、ガイド内のコードを取り込む', async () => {
+      const { session, advance, detected } = createSession([
+        [read('A')],
+        [read('A'), read('B')],
+        [],
+        [read('A'), read('B')]
+      ])
+
+      const states: string[] = []
+      for (let i = 0; i < 4; i++) {
+        const outcome = await session.processFrame(FRAME)
+        states.push(outcome.detections.map(detection => `${detection.read.text}:${detection.state}`).join(','))
+        advance(1000)
+      }
+
+      expect(states).toEqual(['A:new', 'A:cooldown,B:new', '', 'A:new,B:cooldown'])
+      expect(detected.map(event => event.result.text)).toEqual(['A', 'B', 'A'])
+      expect(counts(session)).toEqual({ A: 2, B: 1 })
+    })
+
+    it('ガイド外のコードはガイド内の検出から一定時間が過ぎるまで取り込まない', async () => {
+      const { session, advance } = createSession([
+        [read('A')],
+        [read('B', 300, 300)],
+        [read('B', 300, 300)]
+      ], { outsideGuideDelay: 1000 })
+
+      await session.processFrame(FRAME)
+      advance(500)
+      const early = await session.processFrame(FRAME)
+      advance(1000)
+      await session.processFrame(FRAME)
+
+      expect(early.detections[0].state).toBe('outside')
+      expect(counts(session)).toEqual({ A: 1, B: 1 })
+    })
+
+    it('フレームの取得で例外が起きてもスキャンループを続ける', async () => {
+      const { session, advance, detected } = createSession([[read('A')]])
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+      let calls = 0
+      session.start(() => {
+        if (calls++ === 0) throw new Error('video is not ready')
+        return FRAME
+      })
+
+      advance(0)
+      advance(session.scanInterval)
+      await new Promise(resolve => setTimeout(resolve))
+      session.stop()
+
+      expect(calls).toBe(2)
+      expect(detected.map(event => event.result.text)).toEqual(['A'])
+      expect(consoleError).toHaveBeenCalledTimes(1)
+      consoleError.mockRestore()
+    })
+
+    it('デコーダーがフレームを破棄した場合は何もしない', async () => {
+      const { clock } = createFakeClock()
+      const session = new ScanSession({ decoder: async () => null, clock })
+
+      const outcome = await session.processFrame(FRAME)
+      expect(outcome.status).toBe('dropped')
+      expect(session.getResults().size).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,626 @@
+import type { Point, ReadResult } from 'zxing-wasm/reader'
+import { locateInGuide, type GuideRegion, type GuideState } from './guideGeometry'
+import { getPolygonBounds, positionToPoints } from './frameGeometry'
+import { DECODE_TIMEOUT_MESSAGE } from './decoderClient'
+import { createNormalizer, DEFAULT_DEDUPE_POLICY, dedupeKey, type DedupePolicy } from './dedupeKey'
+import { createValidator, type CodeValidator, type RejectReason, type ValidationRules } from './validation'
+import type { RejectedScan, ResultThumbnail, UniqueQRResult } from './types'
+import { logger } from './logger'
+
+// スキャンエンジン（React非依存）。クールダウン・重複排除・ガイド判定・スキャン間隔の調整を担う
+
+export interface Clock {
+  now(): number
+  setTimeout(callback: () => void, ms: number): number
+  clearTimeout(handle: number): void
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (handle) => window.clearTimeout(handle)
+}
+
+/** 画像をデコードする。処理中でフレームを破棄した場合は null を返す */
+export type ScanDecoder = (image: ImageData) => Promise<ReadResult[] | null>
+
+/** 1フレーム分の入力。toDisplay はデコード結果の座標を表示座標へ変換する */
+export interface ScanFrame {
+  image: ImageData
+  guide: GuideRegion | null
+  toDisplay: (point: Point) => Point
+}
+
+/** フレームを取得する。ビデオの準備ができていなければ null */
+export type FrameSource = () => ScanFrame | null
+
+export type DetectionState = 'new' | 'cooldown' | 'outside' | 'rejected'
+
+export interface FrameDetection {
+  read: ReadResult
+  points: Point[] // 表示座標の四隅
+  inGuide: boolean
+  slot: number | null // 複数枠のガイドで検出した枠の番号
+  state: DetectionState
+}
+
+export interface FrameOutcome {
+  status: 'dropped' | 'empty' | 'detected' | 'timeout' | 'error'
+  detections: FrameDetection[]
+  processingTime: number
+}
+
+// 位置・向き・誤り訂正レベルはデコード結果にのみある（共有された一覧からの取り込みにはない）
+export type ScanRead = Pick<ReadResult, 'text' | 'format'> & Partial<Pick<ReadResult, 'position' | 'orientation' | 'ecLevel'>>
+
+export interface DetectEvent {
+  result: UniqueQRResult
+  read: ScanRead
+  isNew: boolean // 初回検出か（falseは既存結果のカウント加算）
+  unexpected: boolean // 照合リスト外か
+  slot: number | null // 検出したガイド枠の番号（画像ファイル・ガイド外は null）
+}
+
+export interface RejectEvent {
+  read: ScanRead
+  reason: RejectReason
+  rejected: RejectedScan | null // 破棄する設定の場合は null
+  slot: number | null
+}
+
+export interface DuplicateEvent {
+  id: string
+  read: ScanRead
+  remainingCooldown: number
+}
+
+export interface ScanSessionConfig {
+  cooldownDuration: number // 同一コードのクールダウン時間（ミリ秒）
+  historyTtl: number // スキャン履歴の保持時間（ミリ秒）
+  maxRecentScans: number // 最近のスキャン履歴の最大件数
+  outsideGuideDelay: number // ガイド外のコードを取り込むまでの待ち時間（ミリ秒）
+  scanIntervalMin: number
+  scanIntervalMax: number
+  scanIntervalDefault: number
+  successHoldDuration: number // 検出後にスキャン間隔を長くしておく時間（ミリ秒）
+  frameRetryDelay: number // フレーム未取得時の再試行間隔（ミリ秒）
+}
+
+export const DEFAULT_SCAN_SESSION_CONFIG: ScanSessionConfig = {
+  cooldownDuration: 3000,
+  historyTtl: 10000,
+  maxRecentScans: 20,
+  outsideGuideDelay: 1000,
+  scanIntervalMin: 200, // iPhone最適化: 100→200
+  scanIntervalMax: 500,
+  scanIntervalDefault: 300, // iPhone最適化: 200→300
+  successHoldDuration: 2000,
+  frameRetryDelay: 16
+}
+
+// ガイド枠の状態表示時間（ミリ秒）
+const STATE_DURATIONS: Partial<Record<GuideState, number>> = {
+  success: 300,
+  unexpected: 600,
+  error: 1000
+}
+
+export interface ScanSessionOptions {
+  decoder: ScanDecoder
+  clock?: Clock
+  config?: Partial<ScanSessionConfig>
+}
+
+export interface AddResultOptions {
+  sourceFile?: string // 画像ファイルからの読み取り（クールダウン対象外）
+  slot?: number | null // 検出したガイド枠の番号
+  imported?: boolean // 共有された一覧からの取り込み（クールダウン対象外）
+}
+
+type Listener<T> = (event: T) => void
+
+type AddOutcome = 'added' | 'cooldown' | 'rejected'
+
+// 重複判定ルールの変更で同じキーになった結果を1件にまとめる
+function mergeResults(a: UniqueQRResult, b: UniqueQRResult): UniqueQRResult {
+  const [earlier, later] = a.firstSeen <= b.firstSeen ? [a, b] : [b, a]
+  return {
+    ...earlier,
+    lastSeen: a.lastSeen >= b.lastSeen ? a.lastSeen : b.lastSeen,
+    count: a.count + b.count,
+    sourceFile: later.sourceFile ?? earlier.sourceFile,
+    thumbnail: earlier.thumbnail ?? later.thumbnail
+  }
+}
+
+export class ScanSession {
+  private config: ScanSessionConfig
+  private readonly decoder: ScanDecoder
+  private readonly clock: Clock
+
+  private results = new Map<string, UniqueQRResult>()
+  private recentScans = new Map<string, number>()
+  private expectedCodes: string[] | null = null
+  private expectedIdentities: Set<string> | null = null // 照合リストを重複判定ルールで正規化したもの
+  private validator: CodeValidator | null = null
+  private rejectAction: ValidationRules['rejectAction'] = 'list'
+  private rejected = new Map<string, RejectedScan>()
+  private dedupePolicy: DedupePolicy = DEFAULT_DEDUPE_POLICY
+  private normalize = createNormalizer(DEFAULT_DEDUPE_POLICY) // 読み取りごとに正規表現をコンパイルしないため
+  private lastScanTime = 0
+  private state: GuideState = 'waiting'
+  private interval: number
+
+  private running = false
+  private generation = 0
+  private frameSource: FrameSource | null = null
+  private loopTimer: number | null = null
+  private stateTimer: number | null = null
+  private intervalTimer: number | null = null
+
+  private detectListeners = new Set<Listener<DetectEvent>>()
+  private duplicateListeners = new Set<Listener<DuplicateEvent>>()
+  private rejectListeners = new Set<Listener<RejectEvent>>()
+  private stateListeners = new Set<Listener<GuideState>>()
+  private frameListeners = new Set<Listener<FrameOutcome>>()
+
+  constructor({ decoder, clock = systemClock, config }: ScanSessionOptions) {
+    this.decoder = decoder
+    this.clock = clock
+    this.config = { ...DEFAULT_SCAN_SESSION_CONFIG, ...config }
+    this.interval = this.config.scanIntervalDefault
+  }
+
+  onDetect(listener: Listener<DetectEvent>) {
+    this.detectListeners.add(listener)
+    return () => { this.detectListeners.delete(listener) }
+  }
+
+  onDuplicate(listener: Listener<DuplicateEvent>) {
+    this.duplicateListeners.add(listener)
+    return () => { this.duplicateListeners.delete(listener) }
+  }
+
+  onReject(listener: Listener<RejectEvent>) {
+    this.rejectListeners.add(listener)
+    return () => { this.rejectListeners.delete(listener) }
+  }
+
+  onStateChange(listener: Listener<GuideState>) {
+    this.stateListeners.add(listener)
+    return () => { this.stateListeners.delete(listener) }
+  }
+
+  onFrame(listener: Listener<FrameOutcome>) {
+    this.frameListeners.add(listener)
+    return () => { this.frameListeners.delete(listener) }
+  }
+
+  get guideState(): GuideState {
+    return this.state
+  }
+
+  get scanInterval(): number {
+    return this.interval
+  }
+
+  get isRunning(): boolean {
+    return this.running
+  }
+
+  get policy(): DedupePolicy {
+    return this.dedupePolicy
+  }
+
+  /** 設定を変更する（スキャン中は次のフレームから反映） */
+  updateConfig(changes: Partial<ScanSessionConfig>) {
+    this.config = { ...this.config, ...changes }
+    this.interval = Math.min(Math.max(this.interval, this.config.scanIntervalMin), this.config.scanIntervalMax)
+    this.pruneHistory()
+  }
+
+  getResults(): Map<string, UniqueQRResult> {
+    return new Map(this.results)
+  }
+
+  /** 検証ルールに合わず取り込まなかったコード（新しい順） */
+  getRejected(): RejectedScan[] {
+    return Array.from(this.rejected.values()).sort((a, b) => b.lastSeen.getTime() - a.lastSeen.getTime())
+  }
+
+  clearRejected() {
+    this.rejected.clear()
+  }
+
+  /** 保存済みの結果を読み込む（セッション切り替え時） */
+  load(results: Iterable<UniqueQRResult>) {
+    this.results = this.rekey(results)
+    this.recentScans.clear()
+    this.rejected.clear()
+  }
+
+  /** 重複判定ルールを変更する。既存の結果は新しいキーで統合し直す */
+  setDedupePolicy(policy: DedupePolicy) {
+    this.dedupePolicy = policy
+    this.normalize = createNormalizer(policy)
+    this.results = this.rekey(this.results.values())
+    this.recentScans.clear()
+    this.updateExpectedIdentities()
+  }
+
+  /** 現在の重複判定ルールでの識別子とキー */
+  identify({ text, format }: { text: string; format?: string }): { id: string; identity: string } {
+    const identity = this.normalize(text)
+    return { id: dedupeKey(identity, format), identity }
+  }
+
+  reset() {
+    this.results.clear()
+    this.recentScans.clear()
+    this.rejected.clear()
+  }
+
+  /**
+   * 検証ルールを設定する。取り込み済みの結果は一覧に残すが、
+   * 以降に読み取ったコードは取り込み済みでもルールに合わなければ除外する。
+   */
+  setValidationRules(rules: ValidationRules) {
+    this.validator = createValidator(rules)
+    this.rejectAction = rules.rejectAction
+    this.recentScans.clear()
+  }
+
+  /** 照合リストを設定する（null で解除）。照合は重複判定ルールで正規化した識別子で行う */
+  setExpectedCodes(codes: Iterable<string> | null) {
+    this.expectedCodes = codes ? Array.from(codes) : null
+    this.updateExpectedIdentities()
+  }
+
+  /**
+   * 結果を追加する（重複排除・クールダウン・検証ルール）。
+   * クールダウン中・検証ルールに合わないため取り込まなかった場合は false を返す。
+   */
+  addResult(read: ScanRead, options: AddResultOptions = {}): boolean {
+    return this.accept(read, options) === 'added'
+  }
+
+  /**
+   * 結果にサムネイルを付ける（検出後に非同期で作成するため）。
+   * 作成中に結果が削除・統合された場合は false を返す。
+   */
+  attachThumbnail(id: string, thumbnail: ResultThumbnail): boolean {
+    const result = this.results.get(id)
+    if (!result) return false
+    this.results.set(id, { ...result, thumbnail })
+    return true
+  }
+
+  /** TTLを過ぎたスキャン履歴を削除する */
+  pruneHistory(now = this.clock.now()) {
+    for (const [key, time] of this.recentScans.entries()) {
+      if (now - time > this.config.historyTtl) {
+        this.recentScans.delete(key)
+      }
+    }
+  }
+
+  /** 1フレームをデコードし、ガイド内外の判定と結果の取り込みを行う */
+  async processFrame(frame: ScanFrame): Promise<FrameOutcome> {
+    const startTime = this.clock.now()
+    let outcome: FrameOutcome
+
+    try {
+      const reads = await this.decoder(frame.image)
+      if (reads === null) {
+        // デコード処理中のためフレームを破棄
+        outcome = { status: 'dropped', detections: [], processingTime: 0 }
+      } else if (reads.length === 0) {
+        if (this.state === 'success') {
+          this.setState('scanning')
+        }
+        outcome = { status: 'empty', detections: [], processingTime: this.clock.now() - startTime }
+      } else {
+        outcome = {
+          status: 'detected',
+          detections: this.handleReads(reads, frame),
+          processingTime: this.clock.now() - startTime
+        }
+      }
+    } catch (err) {
+      const processingTime = this.clock.now() - startTime
+      if (err instanceof Error && err.message === DECODE_TIMEOUT_MESSAGE) {
+        // タイムアウトの場合はエラー状態にしない
+        logger.warn('timeout', { interval: this.interval })
+        outcome = { status: 'timeout', detections: [], processingTime }
+      } else {
+        logger.error('scan_error', { error: err })
+        this.flashState('error')
+        outcome = { status: 'error', detections: [], processingTime }
+      }
+    }
+
+    if (outcome.status !== 'dropped') {
+      this.adjustInterval(outcome.processingTime)
+    }
+    this.emit(this.frameListeners, outcome)
+    return outcome
+  }
+
+  /** フレーム取得元を指定してスキャンループを開始する */
+  start(frameSource: FrameSource, initialDelay = 0) {
+    if (this.running) return
+    this.running = true
+    this.frameSource = frameSource
+    this.generation++
+    this.setState('scanning')
+    this.schedule(initialDelay, this.generation)
+  }
+
+  stop() {
+    this.running = false
+    this.generation++
+    this.frameSource = null
+    this.clearTimer('loopTimer')
+    this.clearTimer('stateTimer')
+    this.setState('waiting')
+  }
+
+  private accept(read: ScanRead, { sourceFile, slot = null, imported = false }: AddResultOptions = {}): AddOutcome {
+    const { id, identity } = this.identify(read)
+    const now = this.clock.now()
+    const isFromFile = sourceFile !== undefined || imported
+
+    // 検証ルールは重複・クールダウンより先に判定する（ルールを設定する前に取り込んだコードも除外する）
+    const reason = this.validator?.(read.text) ?? null
+
+    // 同一コードのクールダウンチェック（画像ファイル・共有された一覧からの取り込みは対象外）
+    const lastSeen = this.recentScans.get(id)
+    if (!isFromFile && lastSeen !== undefined && now - lastSeen < this.config.cooldownDuration) {
+      // 除外したコードが写り続ける間は除外として扱う（通知は初回のみ）
+      if (reason) return 'rejected'
+      this.emit(this.duplicateListeners, {
+        id,
+        read,
+        remainingCooldown: this.config.cooldownDuration - (now - lastSeen)
+      })
+      return 'cooldown'
+    }
+
+    if (!isFromFile) {
+      this.pruneHistory(now)
+      this.recentScans.set(id, now)
+
+      // メモリ制限
+      while (this.recentScans.size > this.config.maxRecentScans) {
+        const oldestKey = Array.from(this.recentScans.entries())
+          .sort((a, b) => a[1] - b[1])[0][0]
+        this.recentScans.delete(oldestKey)
+      }
+    }
+
+    const nowDate = new Date(now)
+    if (reason) {
+      this.reject(id, read, reason, slot, nowDate)
+      return 'rejected'
+    }
+
+    const existing = this.results.get(id)
+    const result: UniqueQRResult = existing
+      ? {
+          ...existing,
+          lastSeen: nowDate,
+          count: existing.count + 1,
+          sourceFile: sourceFile ?? existing.sourceFile
+        }
+      : {
+          id,
+          text: read.text,
+          format: read.format,
+          firstSeen: nowDate,
+          lastSeen: nowDate,
+          count: 1,
+          sourceFile,
+          identity: identity !== read.text ? identity : undefined,
+          points: read.position && positionToPoints(read.position),
+          orientation: read.orientation,
+          ecLevel: read.ecLevel || undefined
+        }
+    this.results.set(id, result)
+
+    this.emit(this.detectListeners, {
+      result,
+      read,
+      isNew: !existing,
+      unexpected: this.isUnexpected(read.text),
+      slot
+    })
+    return 'added'
+  }
+
+  // 検証ルールに合わないコードを除外した一覧に記録する（破棄する設定の場合は通知のみ）
+  private reject(id: string, read: ScanRead, reason: RejectReason, slot: number | null, now: Date) {
+    let rejected: RejectedScan | null = null
+    if (this.rejectAction === 'list') {
+      const existing = this.rejected.get(id)
+      rejected = existing
+        ? { ...existing, reason, lastSeen: now, count: existing.count + 1 }
+        : { id, text: read.text, format: read.format, reason, firstSeen: now, lastSeen: now, count: 1 }
+      this.rejected.set(id, rejected)
+    }
+    logger.info('scan_rejected', {
+      rule: reason.rule,
+      detail: reason.detail,
+      dropped: rejected === null,
+      format: read.format
+    })
+    this.emit(this.rejectListeners, { read, reason, rejected, slot })
+  }
+
+  private handleReads(reads: ReadResult[], frame: ScanFrame): FrameDetection[] {
+    // コードを領域内外で分類（表示座標で判定）
+    const classified = reads.map(read => {
+      const points = positionToPoints(read.position).map(frame.toDisplay)
+      const slot = frame.guide !== null ? locateInGuide(getPolygonBounds(points), frame.guide) : null
+      return { read, points, inGuide: slot !== null, slot }
+    })
+    const inGuide = classified.filter(detection => detection.inGuide)
+    const outGuide = classified.filter(detection => !detection.inGuide)
+
+    // 領域内を優先して処理
+    const now = this.clock.now()
+    const added = new Set<ReadResult>()
+    const rejected = new Set<ReadResult>()
+    let hasUnexpected = false
+
+    if (inGuide.length > 0) {
+      for (const { read, slot } of inGuide) {
+        const outcome = this.accept(read, { slot })
+        if (outcome === 'added') {
+          added.add(read)
+          hasUnexpected ||= this.isUnexpected(read.text)
+        } else if (outcome === 'rejected') {
+          rejected.add(read)
+        }
+      }
+
+      if (rejected.size > 0) {
+        // 検証ルールに合わないコードが写っている間は、取り込めたコードがあってもエラー表示にする
+        this.flashState('error')
+      } else if (added.size > 0) {
+        // 照合リスト外のコードは別の表示で知らせる
+        this.flashState(hasUnexpected ? 'unexpected' : 'success')
+      }
+      if (added.size > 0) {
+        this.lastScanTime = now
+        this.holdInterval()
+      }
+    } else if (now - this.lastScanTime > this.config.outsideGuideDelay) {
+      // 領域外は一定時間経過後に処理
+      for (const { read } of outGuide) {
+        if (this.accept(read) === 'rejected') rejected.add(read)
+      }
+    }
+
+    // クールダウン中の再検出は毎フレーム出るため、取り込んだ場合のみ通常のログに残す
+    // 内容（Wi-Fiのパスワード・トークンなど）は診断ログの書き出しに含めないため、件数と形式のみ記録する
+    logger.log(added.size > 0 ? 'info' : 'debug', 'scan_result', {
+      inGuide: inGuide.length,
+      outGuide: outGuide.length,
+      added: added.size,
+      rejected: rejected.size,
+      formats: reads.map(r => r.format)
+    })
+
+    return classified.map(detection => ({
+      ...detection,
+      state: rejected.has(detection.read)
+        ? 'rejected'
+        : !detection.inGuide ? 'outside' : added.has(detection.read) ? 'new' : 'cooldown'
+    }))
+  }
+
+  // キーが変わらない結果は同じオブジェクトのまま残す（保存時の差分検出のため）
+  private rekey(results: Iterable<UniqueQRResult>): Map<string, UniqueQRResult> {
+    const rekeyed = new Map<string, UniqueQRResult>()
+    for (const result of results) {
+      const { id, identity } = this.identify(result)
+      const normalized = identity !== result.text ? identity : undefined
+      const current = result.id === id && result.identity === normalized
+        ? result
+        : { ...result, id, identity: normalized }
+      const existing = rekeyed.get(id)
+      rekeyed.set(id, existing ? mergeResults(existing, current) : current)
+    }
+    return rekeyed
+  }
+
+  private updateExpectedIdentities() {
+    this.expectedIdentities = this.expectedCodes
+      ? new Set(this.expectedCodes.map(this.normalize))
+      : null
+  }
+
+  private isUnexpected(text: string): boolean {
+    return this.expectedIdentities !== null && !this.expectedIdentities.has(this.normalize(text))
+  }
+
+  private schedule(delay: number, generation: number) {
+    this.clearTimer('loopTimer')
+    this.loopTimer = this.clock.setTimeout(() => {
+      this.loopTimer = null
+      this.tick(generation)
+    }, delay)
+  }
+
+  private async tick(generation: number) {
+    if (!this.running || generation !== this.generation || !this.frameSource) return
+
+    let delay = this.interval
+    try {
+      const frame = this.frameSource()
+      if (!frame) {
+        delay = this.config.frameRetryDelay
+        return
+      }
+      await this.processFrame(frame)
+      this.pruneHistory()
+      delay = this.interval
+    } catch (err) {
+      // フレームの取得・リスナーの例外でループを止めない
+      logger.error('scan_error', { error: err })
+    } finally {
+      // 停止・再開された場合は古いループを終了
+      if (this.running && generation === this.generation) {
+        this.schedule(delay, generation)
+      }
+    }
+  }
+
+  // 処理時間に応じて動的にスキャン間隔を調整
+  private adjustInterval(processingTime: number) {
+    if (processingTime > 100) {
+      this.interval = Math.min(this.interval + 50, this.config.scanIntervalMax)
+    } else if (processingTime < 50) {
+      this.interval = Math.max(this.interval - 25, this.config.scanIntervalMin)
+    }
+  }
+
+  // 成功時はしばらくスキャン間隔を長くする
+  private holdInterval() {
+    this.interval = this.config.scanIntervalMax
+    this.clearTimer('intervalTimer')
+    this.intervalTimer = this.clock.setTimeout(() => {
+      this.intervalTimer = null
+      this.interval = this.config.scanIntervalDefault
+    }, this.config.successHoldDuration)
+  }
+
+  private flashState(state: GuideState) {
+    this.setState(state)
+    this.clearTimer('stateTimer')
+    this.stateTimer = this.clock.setTimeout(() => {
+      this.stateTimer = null
+      if (this.running) this.setState('scanning')
+    }, STATE_DURATIONS[state] ?? 0)
+  }
+
+  private setState(state: GuideState) {
+    if (this.state === state) return
+    this.state = state
+    this.emit(this.stateListeners, state)
+  }
+
+  private clearTimer(name: 'loopTimer' | 'stateTimer' | 'intervalTimer') {
+    const handle = this[name]
+    if (handle !== null) {
+      this.clock.clearTimeout(handle)
+      this[name] = null
+    }
+  }
+
+  private emit<T>(listeners: Set<Listener<T>>, event: T) {
+    for (const listener of listeners) {
+      listener(event)
+    }
+  }
+}
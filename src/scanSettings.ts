@@ -0,0 +1,186 @@
+import type { ScanSessionConfig } from './scanSession'
+import type { DecodeStrategy } from './decodeStrategy'
+
+// スキャンの調整値（端末ごとに最適な値が異なるため、画面から変更できるようにする）
+
+export interface ScanSettings {
+  cooldownDuration: number // 同一コードのクールダウン時間（ミリ秒）
+  historyTtl: number // スキャン履歴の保持時間（ミリ秒）
+  maxRecentScans: number // 最近のスキャン履歴の最大件数
+  maxDisplayedResults: number // 一覧に描画する結果の最大件数（保存件数は無制限）
+  canvasScale: number // デコード前にフレームを縮小する倍率
+  decodeTimeout: number // readBarcodesのタイムアウト（ミリ秒）
+  maxNumberOfSymbols: number // 1フレームから読み取る最大コード数
+  tryHarder: boolean // 精度優先（処理は遅くなる）
+  escalate: boolean // 読み取れないフレームを段階的に重い設定で再試行する
+  decodeBudget: number // 再試行を含めた1フレームの処理時間の上限（ミリ秒）
+}
+
+export type BooleanSettingKey = 'tryHarder' | 'escalate'
+export type NumericSettingKey = Exclude<keyof ScanSettings, BooleanSettingKey>
+
+export interface SettingRange {
+  min: number
+  max: number
+  step: number
+}
+
+export const SETTING_RANGES: Record<NumericSettingKey, SettingRange> = {
+  cooldownDuration: { min: 500, max: 10000, step: 100 },
+  historyTtl: { min: 1000, max: 60000, step: 1000 },
+  maxRecentScans: { min: 1, max: 200, step: 1 },
+  maxDisplayedResults: { min: 10, max: 500, step: 10 },
+  canvasScale: { min: 0.2, max: 1, step: 0.05 },
+  decodeTimeout: { min: 500, max: 10000, step: 100 },
+  maxNumberOfSymbols: { min: 1, max: 8, step: 1 },
+  decodeBudget: { min: 50, max: 2000, step: 10 }
+}
+
+export type ScanSettingsPresetId = 'iphone' | 'android' | 'desktop'
+
+export interface ScanSettingsPreset {
+  id: ScanSettingsPresetId
+  settings: ScanSettings
+}
+
+export const SCAN_SETTINGS_PRESETS: ScanSettingsPreset[] = [
+  {
+    id: 'iphone',
+    settings: {
+      cooldownDuration: 3000,
+      historyTtl: 10000,
+      maxRecentScans: 20,
+      maxDisplayedResults: 50,
+      canvasScale: 0.5, // iPhone最適化: 0.4→0.5でエラー回避
+      decodeTimeout: 3000, // iPhone最適化: 1000→3000
+      maxNumberOfSymbols: 1, // iPhone最適化: 2→1に削減
+      tryHarder: false, // true→falseで処理速度優先
+      escalate: false, // 元の解像度での再試行は負荷が高いため無効
+      decodeBudget: 150
+    }
+  },
+  {
+    id: 'android',
+    settings: {
+      cooldownDuration: 2000,
+      historyTtl: 10000,
+      maxRecentScans: 50,
+      maxDisplayedResults: 50,
+      canvasScale: 0.75,
+      decodeTimeout: 1500,
+      maxNumberOfSymbols: 4,
+      tryHarder: false,
+      escalate: true,
+      decodeBudget: 150
+    }
+  },
+  {
+    id: 'desktop',
+    settings: {
+      cooldownDuration: 2000,
+      historyTtl: 10000,
+      maxRecentScans: 100,
+      maxDisplayedResults: 50,
+      canvasScale: 1, // Webカメラは解像度が低いため縮小しない
+      decodeTimeout: 2000,
+      maxNumberOfSymbols: 4,
+      tryHarder: true,
+      escalate: true,
+      decodeBudget: 250
+    }
+  }
+]
+
+export const DEFAULT_SCAN_SETTINGS: ScanSettings = SCAN_SETTINGS_PRESETS[0].settings
+
+export type ScanSettingsError = 'outOfRange' | 'ttlShorterThanCooldown' | 'budgetNotBelowTimeout'
+
+/** 不正な項目とその理由を返す（空なら有効） */
+export function validateScanSettings(settings: ScanSettings): Partial<Record<keyof ScanSettings, ScanSettingsError>> {
+  const errors: Partial<Record<keyof ScanSettings, ScanSettingsError>> = {}
+  for (const key of Object.keys(SETTING_RANGES) as NumericSettingKey[]) {
+    const { min, max, step } = SETTING_RANGES[key]
+    const value = settings[key]
+    // 件数・ミリ秒の項目は整数のみ
+    if (!Number.isFinite(value) || value < min || value > max || (step >= 1 && !Number.isInteger(value))) {
+      errors[key] = 'outOfRange'
+    }
+  }
+  // 履歴がクールダウンより先に消えると、クールダウン中のコードも再び取り込まれてしまう
+  if (!errors.historyTtl && !errors.cooldownDuration && settings.historyTtl < settings.cooldownDuration) {
+    errors.historyTtl = 'ttlShorterThanCooldown'
+  }
+  // 上限に達する前にタイムアウトすると、ワーカーごと再起動されてしまう
+  if (!errors.decodeBudget && !errors.decodeTimeout && settings.decodeBudget >= settings.decodeTimeout) {
+    errors.decodeBudget = 'budgetNotBelowTimeout'
+  }
+  return errors
+}
+
+/** 保存値などの不完全な設定を、範囲内に収めた有効な設定にする */
+export function sanitizeScanSettings(value: Partial<ScanSettings>): ScanSettings {
+  const settings = { ...DEFAULT_SCAN_SETTINGS }
+  for (const key of Object.keys(SETTING_RANGES) as NumericSettingKey[]) {
+    const { min, max, step } = SETTING_RANGES[key]
+    const raw = value[key]
+    if (typeof raw === 'number' && Number.isFinite(raw)) {
+      settings[key] = Math.min(Math.max(step >= 1 ? Math.round(raw) : raw, min), max)
+    }
+  }
+  for (const key of ['tryHarder', 'escalate'] as BooleanSettingKey[]) {
+    const raw = value[key]
+    if (typeof raw === 'boolean') settings[key] = raw
+  }
+  settings.historyTtl = Math.max(settings.historyTtl, settings.cooldownDuration)
+  settings.decodeBudget = Math.min(settings.decodeBudget, settings.decodeTimeout - SETTING_RANGES.decodeBudget.step)
+  return settings
+}
+
+/** 設定と一致するプリセット（手動で変更した場合は null） */
+export function matchScanSettingsPreset(settings: ScanSettings): ScanSettingsPresetId | null {
+  const preset = SCAN_SETTINGS_PRESETS.find(preset =>
+    (Object.keys(preset.settings) as (keyof ScanSettings)[]).every(key => preset.settings[key] === settings[key])
+  )
+  return preset?.id ?? null
+}
+
+/** ScanSessionに渡す設定値 */
+export function toScanSessionConfig(settings: ScanSettings): Partial<ScanSessionConfig> {
+  return {
+    cooldownDuration: settings.cooldownDuration,
+    historyTtl: settings.historyTtl,
+    maxRecentScans: settings.maxRecentScans
+  }
+}
+
+/**
+ * フレームの取得倍率とデコード戦略。
+ * 再試行する場合は元の解像度で取得し、最初の段階だけワーカー側で縮小する。
+ */
+export function toDecodePlan(settings: ScanSettings): { captureScale: number; strategy: DecodeStrategy } {
+  return settings.escalate
+    ? { captureScale: 1, strategy: { scale: settings.canvasScale, escalate: true, budget: settings.decodeBudget } }
+    : { captureScale: settings.canvasScale, strategy: { scale: 1, escalate: false, budget: settings.decodeBudget } }
+}
+
+const SCAN_SETTINGS_KEY = 'multi-qr-scanner:settings'
+
+export function loadScanSettings(): ScanSettings {
+  try {
+    const saved = localStorage.getItem(SCAN_SETTINGS_KEY)
+    if (saved) {
+      return sanitizeScanSettings(JSON.parse(saved) as Partial<ScanSettings>)
+    }
+  } catch {
+    // 壊れた設定は無視して既定値を使う
+  }
+  return DEFAULT_SCAN_SETTINGS
+}
+
+export function saveScanSettings(settings: ScanSettings) {
+  try {
+    localStorage.setItem(SCAN_SETTINGS_KEY, JSON.stringify(settings))
+  } catch {
+    // プライベートブラウズ等で保存できない場合は無視
+  }
+}
@@ -0,0 +1,179 @@
+import type { Delivery, SavedSession, UniqueQRResult } from './types'
+
+const DB_NAME = 'multi-qr-scanner'
+const DB_VERSION = 2
+const SESSION_STORE = 'sessions'
+const RESULT_STORE = 'results'
+const DELIVERY_STORE = 'deliveries' // v2: サーバー送信キュー
+const ACTIVE_SESSION_KEY = 'multi-qr-scanner:active-session'
+
+interface StoredResult {
+  sessionId: string
+  result: UniqueQRResult
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' })
+        }
+        if (!db.objectStoreNames.contains(RESULT_STORE)) {
+          const results = db.createObjectStore(RESULT_STORE, { keyPath: ['sessionId', 'result.id'] })
+          results.createIndex('sessionId', 'sessionId')
+        }
+        if (!db.objectStoreNames.contains(DELIVERY_STORE)) {
+          const deliveries = db.createObjectStore(DELIVERY_STORE, { keyPath: ['sessionId', 'resultId'] })
+          deliveries.createIndex('sessionId', 'sessionId')
+          deliveries.createIndex('status', 'status')
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+// IDBRequestをPromise化
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+function createSessionId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
+export async function listSessions(): Promise<SavedSession[]> {
+  const db = await openDatabase()
+  const sessions = await promisify<SavedSession[]>(
+    db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll()
+  )
+  return sessions.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+export async function createSession(name: string): Promise<SavedSession> {
+  const db = await openDatabase()
+  const session: SavedSession = { id: createSessionId(), name, createdAt: new Date() }
+  const tx = db.transaction(SESSION_STORE, 'readwrite')
+  tx.objectStore(SESSION_STORE).add(session)
+  await transactionDone(tx)
+  return session
+}
+
+export async function updateSession(id: string, changes: Partial<Omit<SavedSession, 'id'>>): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(SESSION_STORE, 'readwrite')
+  const store = tx.objectStore(SESSION_STORE)
+  const session = await promisify<SavedSession | undefined>(store.get(id))
+  if (session) {
+    store.put({ ...session, ...changes })
+  }
+  await transactionDone(tx)
+}
+
+export function renameSession(id: string, name: string): Promise<void> {
+  return updateSession(id, { name })
+}
+
+/** セッションと、そのセッションに属する結果・送信キューをすべて削除する */
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction([SESSION_STORE, RESULT_STORE, DELIVERY_STORE], 'readwrite')
+  tx.objectStore(SESSION_STORE).delete(id)
+  deleteResultsIn(tx.objectStore(RESULT_STORE), id)
+  deleteResultsIn(tx.objectStore(DELIVERY_STORE), id)
+  await transactionDone(tx)
+}
+
+export async function loadResults(sessionId: string): Promise<UniqueQRResult[]> {
+  const db = await openDatabase()
+  const stored = await promisify<StoredResult[]>(
+    db.transaction(RESULT_STORE).objectStore(RESULT_STORE).index('sessionId').getAll(sessionId)
+  )
+  return stored.map(record => record.result)
+}
+
+export async function saveResults(sessionId: string, results: UniqueQRResult[]): Promise<void> {
+  if (results.length === 0) return
+  const db = await openDatabase()
+  const tx = db.transaction(RESULT_STORE, 'readwrite')
+  const store = tx.objectStore(RESULT_STORE)
+  for (const result of results) {
+    const record: StoredResult = { sessionId, result }
+    store.put(record)
+  }
+  await transactionDone(tx)
+}
+
+export async function clearResults(sessionId: string): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(RESULT_STORE, 'readwrite')
+  deleteResultsIn(tx.objectStore(RESULT_STORE), sessionId)
+  await transactionDone(tx)
+}
+
+export async function loadDeliveries(sessionId: string): Promise<Delivery[]> {
+  const db = await openDatabase()
+  return promisify<Delivery[]>(
+    db.transaction(DELIVERY_STORE).objectStore(DELIVERY_STORE).index('sessionId').getAll(sessionId)
+  )
+}
+
+/** 全セッションの未送信（再送待ち）のキューを読み込む */
+export async function loadPendingDeliveries(): Promise<Delivery[]> {
+  const db = await openDatabase()
+  return promisify<Delivery[]>(
+    db.transaction(DELIVERY_STORE).objectStore(DELIVERY_STORE).index('status').getAll('pending')
+  )
+}
+
+export async function saveDelivery(delivery: Delivery): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(DELIVERY_STORE, 'readwrite')
+  tx.objectStore(DELIVERY_STORE).put(delivery)
+  await transactionDone(tx)
+}
+
+// キーの先頭がセッションIDのストアから、そのセッションのレコードを削除
+function deleteResultsIn(store: IDBObjectStore, sessionId: string) {
+  const range = IDBKeyRange.bound([sessionId], [sessionId, []])
+  store.delete(range)
+}
+
+export function getActiveSessionId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_SESSION_KEY)
+  } catch {
+    return null
+  }
+}
+
+export function setActiveSessionId(id: string) {
+  try {
+    localStorage.setItem(ACTIVE_SESSION_KEY, id)
+  } catch {
+    // プライベートブラウズ等で保存できない場合は無視
+  }
+}
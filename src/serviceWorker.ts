@@ -0,0 +1,71 @@
+import { logger } from './logger'
+
+// Service Workerの登録と更新検知（本番ビルドのみ。開発時はHMRと競合するため登録しない）
+
+/**
+ * Service Workerを登録し、新しいビルドが待機状態になったら onUpdateAvailable を呼ぶ。
+ * 渡される applyUpdate を実行すると新しいワーカーを有効化してページを再読み込みする。
+ * 戻り値の関数でイベント購読を解除する。
+ */
+export function registerServiceWorker(onUpdateAvailable: (applyUpdate: () => void) => void): () => void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return () => {}
+  }
+
+  let disposed = false
+  let updateRequested = false
+  let registration: ServiceWorkerRegistration | null = null
+
+  const notify = (worker: ServiceWorker) => {
+    if (disposed) return
+    onUpdateAvailable(() => {
+      updateRequested = true
+      worker.postMessage({ type: 'SKIP_WAITING' })
+    })
+  }
+
+  // 初回インストール時の clients.claim() でも発火するため、更新を選んだ場合のみ再読み込みする
+  const handleControllerChange = () => {
+    if (updateRequested) {
+      window.location.reload()
+    }
+  }
+
+  // 開いたままの端末でも新しいビルドに気付けるよう、画面復帰時に更新を確認する
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      registration?.update().catch(err => {
+        logger.warn('service_worker_error', { action: 'update', error: err })
+      })
+    }
+  }
+
+  navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange)
+  document.addEventListener('visibilitychange', handleVisibilityChange)
+
+  navigator.serviceWorker.register('/sw.js', { updateViaCache: 'none' })
+    .then(reg => {
+      registration = reg
+      if (reg.waiting && navigator.serviceWorker.controller) {
+        notify(reg.waiting)
+      }
+      reg.addEventListener('updatefound', () => {
+        const installing = reg.installing
+        installing?.addEventListener('statechange', () => {
+          // 既存のワーカーが制御中の場合のみ「更新」（初回はそのままオフライン対応完了）
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+            notify(installing)
+          }
+        })
+      })
+    })
+    .catch(err => {
+      logger.error('service_worker_error', { action: 'register', error: err })
+    })
+
+  return () => {
+    disposed = true
+    navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange)
+    document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import type { Point } from 'zxing-wasm/reader'
+import { arrangeSheet, findMissingCells, type SheetCode, type SheetGrid } from './sheetLayout'
+
+// 中心が center・一辺 size で、angle（ラジアン）だけ回転したコード
+function code(text: string, center: Point, size = 40, angle = 0): SheetCode {
+  const corners = [[-1, -1], [1, -1], [1, 1], [-1, 1]]
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  return {
+    text,
+    format: 'QRCode',
+    points: corners.map(([x, y]) => ({
+      x: center.x + (x * cos - y * sin) * size / 2,
+      y: center.y + (x * sin + y * cos) * size / 2
+    }))
+  }
+}
+
+// 「行-列」のラベルを行→列の順に並べた表
+function layout(grid: SheetGrid): string[][] {
+  const rows = Array.from({ length: grid.rows }, () => Array<string>(grid.columns).fill(''))
+  for (const cell of grid.cells) rows[cell.row][cell.column] = cell.text
+  return rows
+}
+
+// 読み取り順がシートの並びと無関係になるよう入れ替える
+function shuffle<T>(items: T[]): T[] {
+  return items.map((item, i) => ({ item, key: (i * 7919) % items.length }))
+    .sort((a, b) => a.key - b.key)
+    .map(entry => entry.item)
+}
+
+describe('arrangeSheet', () => {
+  it('斜めから撮影して台形に歪んだシートを行・列に並べる', () => {
+    // 奥（上）の行ほど小さく間隔も狭く写り、全体が8°傾いている
+    const tilt = 8 * Math.PI / 180
+    const codes: SheetCode[] = []
+    for (let row = 0; row < 3; row++) {
+      const scale = 0.8 + row * 0.05
+      for (let column = 0; column < 4; column++) {
+        const x = 300 + (column - 1.5) * 100 * scale
+        const y = 100 + row * 90
+        codes.push(code(`${row + 1}-${column + 1}`, {
+          x: 300 + (x - 300) * Math.cos(tilt) - (y - 200) * Math.sin(tilt),
+          y: 200 + (x - 300) * Math.sin(tilt) + (y - 200) * Math.cos(tilt)
+        }, 50 * scale, tilt))
+      }
+    }
+
+    const grid = arrangeSheet(shuffle(codes))
+    expect(layout(grid)).toEqual([
+      ['1-1', '1-2', '1-3', '1-4'],
+      ['2-1', '2-2', '2-3', '2-4'],
+      ['3-1', '3-2', '3-3', '3-4']
+    ])
+    expect(grid.cells.map(cell => cell.text)).toEqual(codes.map(c => c.text))
+  })
+
+  it('90°回転したシートは写った向きの行・列で並べる', () => {
+    // 印刷上は2行×3列のシートを時計回りに90°回転して撮影すると、3行×2列に写る
+    const codes: SheetCode[] = []
+    for (let row = 0; row < 2; row++) {
+      for (let column = 0; column < 3; column++) {
+        codes.push(code(`${row + 1}-${column + 1}`, { x: 300 - row * 100, y: 100 + column * 100 }, 40, Math.PI / 2))
+      }
+    }
+
+    expect(layout(arrangeSheet(shuffle(codes)))).toEqual([
+      ['2-1', '1-1'],
+      ['2-2', '1-2'],
+      ['2-3', '1-3']
+    ])
+  })
+
+  it('90°回転して貼られたコードが混ざっていても同じ行・列に揃える', () => {
+    const codes = [
+      code('1-1', { x: 100, y: 100 }),
+      code('1-2', { x: 200, y: 100 }, 40, Math.PI / 2),
+      code('2-1', { x: 100, y: 200 }, 40, -Math.PI / 2),
+      code('2-2', { x: 200, y: 200 }, 40, Math.PI)
+    ]
+
+    expect(layout(arrangeSheet(shuffle(codes)))).toEqual([
+      ['1-1', '1-2'],
+      ['2-1', '2-2']
+    ])
+  })
+
+  it('最終行が途中までのシートは、欠けたセルを空にして列を揃える', () => {
+    const codes: SheetCode[] = []
+    for (let i = 0; i < 8; i++) {
+      const row = Math.floor(i / 3)
+      const column = i % 3
+      codes.push(code(`${row + 1}-${column + 1}`, { x: 100 + column * 100, y: 100 + row * 100 }))
+    }
+
+    const grid = arrangeSheet(shuffle(codes))
+    expect(layout(grid)).toEqual([
+      ['1-1', '1-2', '1-3'],
+      ['2-1', '2-2', '2-3'],
+      ['3-1', '3-2', '']
+    ])
+    expect(findMissingCells(grid)).toEqual([{ row: 2, column: 2 }])
+  })
+
+  it('四隅のそろっていないコードは除き、何もなければ空の表にする', () => {
+    expect(arrangeSheet([{ text: 'A', format: 'Code128', points: [] }])).toEqual({ rows: 0, columns: 0, cells: [] })
+  })
+})
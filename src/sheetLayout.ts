@@ -0,0 +1,200 @@
+import type { Point } from 'zxing-wasm/reader'
+import { escapeCsvField, UTF8_BOM } from './exportResults'
+
+// 1フレームに写ったシート上のコードを、印刷された並び（行・列）に整列する
+
+export interface SheetCode {
+  text: string
+  format: string
+  points: Point[] // 四隅（左上・右上・右下・左下の順）
+}
+
+export interface SheetCell extends SheetCode {
+  row: number
+  column: number
+}
+
+export interface SheetGrid {
+  rows: number
+  columns: number
+  cells: SheetCell[] // 行→列の順
+}
+
+interface Placement {
+  code: SheetCode
+  center: Point
+  along: Point // コード自身の横方向（単位ベクトル）
+  across: Point // コード自身の縦方向（単位ベクトル）
+  width: number
+  height: number
+}
+
+const dot = (a: Point, b: Point) => a.x * b.x + a.y * b.y
+const subtract = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y })
+
+/**
+ * シート全体の傾き（ラジアン）。
+ * 90°回転して貼られたコードが混ざっていても揃うよう、上辺の角度を4倍して平均する。
+ */
+function sheetAngle(codes: SheetCode[]): number {
+  let sin = 0
+  let cos = 0
+  for (const { points: [topLeft, topRight] } of codes) {
+    const angle = Math.atan2(topRight.y - topLeft.y, topRight.x - topLeft.x)
+    sin += Math.sin(angle * 4)
+    cos += Math.cos(angle * 4)
+  }
+  return Math.atan2(sin, cos) / 4
+}
+
+function place(code: SheetCode, angle: number): Placement {
+  const [topLeft, topRight] = code.points
+  // コードごとの向きをシートの向きに最も近い90°単位に合わせる（遠近による局所的な傾きは残す）
+  let local = Math.atan2(topRight.y - topLeft.y, topRight.x - topLeft.x) - angle
+  local -= Math.round(local / (Math.PI / 2)) * (Math.PI / 2)
+  const along = { x: Math.cos(angle + local), y: Math.sin(angle + local) }
+  const across = { x: -along.y, y: along.x }
+
+  const center = {
+    x: code.points.reduce((sum, point) => sum + point.x, 0) / code.points.length,
+    y: code.points.reduce((sum, point) => sum + point.y, 0) / code.points.length
+  }
+  const extent = (axis: Point) => {
+    const values = code.points.map(point => dot(point, axis))
+    return Math.max(...values) - Math.min(...values)
+  }
+  const width = Math.max(extent(along), 1)
+  // 1次元バーコードは位置が線になることがあるため、高さに下限を設ける
+  const height = Math.max(extent(across), width * 0.25)
+  return { code, center, along, across, width, height }
+}
+
+/**
+ * 各コードから指定方向で最も近い隣のコードを探す。
+ * 間に読み取れなかったコードがあっても、同じ並びにあれば飛ばして繋ぐ。
+ */
+function nearestNeighbor(
+  placements: Placement[],
+  index: number,
+  direction: 'along' | 'across'
+): number | null {
+  const from = placements[index]
+  const axis = from[direction]
+  const side = direction === 'along' ? from.across : from.along
+  // 隣の並びと混ざらないよう、ずれはコードの大きさの半分まで
+  const limit = (direction === 'along' ? from.height : from.width) / 2
+  const minStep = (direction === 'along' ? from.width : from.height) / 2
+
+  let nearest: { index: number; distance: number } | null = null
+  for (let i = 0; i < placements.length; i++) {
+    if (i === index) continue
+    const offset = subtract(placements[i].center, from.center)
+    const distance = dot(offset, axis)
+    if (distance < minStep || Math.abs(dot(offset, side)) > limit) continue
+    if (!nearest || distance < nearest.distance) {
+      nearest = { index: i, distance }
+    }
+  }
+  return nearest?.index ?? null
+}
+
+/** 隣同士の繋がりをたどってグループ番号を振る（Union-Find） */
+function groupLinks(count: number, links: [number, number][]): number[] {
+  const parent = Array.from({ length: count }, (_, i) => i)
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+  for (const [a, b] of links) {
+    parent[find(a)] = find(b)
+  }
+  return parent.map((_, i) => find(i))
+}
+
+/** グループを軸上の平均位置で並べ、0始まりの番号に振り直す */
+function rankGroups(placements: Placement[], groups: number[], axis: Point): number[] {
+  const positions = new Map<number, number[]>()
+  groups.forEach((group, i) => {
+    const list = positions.get(group) ?? []
+    list.push(dot(placements[i].center, axis))
+    positions.set(group, list)
+  })
+  const order = Array.from(positions.entries())
+    .map(([group, values]) => ({ group, mean: values.reduce((sum, value) => sum + value, 0) / values.length }))
+    .sort((a, b) => a.mean - b.mean)
+    .map(entry => entry.group)
+  return groups.map(group => order.indexOf(group))
+}
+
+/**
+ * コードの位置から行・列を求める。
+ * 各コード自身の向きで右隣・下隣を探して繋ぐため、斜めから撮影した台形の歪みにも追従する。
+ */
+export function arrangeSheet(codes: SheetCode[]): SheetGrid {
+  const valid = codes.filter(code => code.points.length === 4)
+  if (valid.length === 0) return { rows: 0, columns: 0, cells: [] }
+
+  const angle = sheetAngle(valid)
+  const placements = valid.map(code => place(code, angle))
+
+  const rowLinks: [number, number][] = []
+  const columnLinks: [number, number][] = []
+  placements.forEach((_, i) => {
+    const right = nearestNeighbor(placements, i, 'along')
+    if (right !== null) rowLinks.push([i, right])
+    const below = nearestNeighbor(placements, i, 'across')
+    if (below !== null) columnLinks.push([i, below])
+  })
+
+  const sheetAlong = { x: Math.cos(angle), y: Math.sin(angle) }
+  const sheetAcross = { x: -sheetAlong.y, y: sheetAlong.x }
+  const rows = rankGroups(placements, groupLinks(placements.length, rowLinks), sheetAcross)
+  const columns = rankGroups(placements, groupLinks(placements.length, columnLinks), sheetAlong)
+
+  const cells = placements
+    .map((placement, i) => ({ ...placement.code, row: rows[i], column: columns[i] }))
+    .sort((a, b) => a.row - b.row || a.column - b.column)
+
+  return {
+    rows: Math.max(...rows) + 1,
+    columns: Math.max(...columns) + 1,
+    cells
+  }
+}
+
+/** 行×列の表に並べ替える（読み取れなかったセルは空配列） */
+export function toSheetMatrix(grid: SheetGrid): SheetCell[][][] {
+  const matrix = Array.from({ length: grid.rows }, () =>
+    Array.from({ length: grid.columns }, (): SheetCell[] => [])
+  )
+  for (const cell of grid.cells) {
+    matrix[cell.row][cell.column].push(cell)
+  }
+  return matrix
+}
+
+/** 読み取れなかったセルの位置 */
+export function findMissingCells(grid: SheetGrid): { row: number; column: number }[] {
+  return toSheetMatrix(grid).flatMap((cells, row) =>
+    cells.flatMap((cell, column) => (cell.length === 0 ? [{ row, column }] : []))
+  )
+}
+
+/** シートと同じ並びのCSV（空欄は読み取れなかったセル） */
+export function toSheetGridCsv(grid: SheetGrid): string {
+  const rows = toSheetMatrix(grid).map(cells =>
+    cells.map(cell => escapeCsvField(cell.map(code => code.text).join('\n'))).join(',')
+  )
+  return UTF8_BOM + rows.join('\r\n') + '\r\n'
+}
+
+/** コードごとの行・列番号（1始まり）のCSV */
+export function toSheetListCsv(grid: SheetGrid): string {
+  const rows = grid.cells.map(cell =>
+    [cell.row + 1, cell.column + 1, cell.text, cell.format].map(escapeCsvField).join(',')
+  )
+  return UTF8_BOM + ['row,column,text,format', ...rows].join('\r\n') + '\r\n'
+}
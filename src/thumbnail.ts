@@ -0,0 +1,54 @@
+import type { Point } from 'zxing-wasm/reader'
+import { getPolygonBounds } from './frameGeometry'
+import type { ResultThumbnail } from './types'
+
+// 新規検出時のフレームからコードの周辺を切り抜いた小さな画像（読み取り結果が正しいかを後から確認するため）
+
+export const THUMBNAIL_MAX_SIZE = 160 // 長辺のピクセル数
+const THUMBNAIL_MARGIN = 0.25 // コードの周囲に含める余白（コードの長辺に対する割合）
+const THUMBNAIL_QUALITY = 0.7
+
+function toBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, type, THUMBNAIL_QUALITY))
+}
+
+/**
+ * フレームを描画したCanvasから、四隅の周辺を切り抜いてサムネイルにする。
+ * Canvasは次のフレームで上書きされるため、切り抜きは呼び出し時に同期的に行い、圧縮だけを非同期で行う。
+ */
+export async function cropThumbnail(source: HTMLCanvasElement, points: Point[]): Promise<ResultThumbnail | null> {
+  const bounds = getPolygonBounds(points)
+  const margin = Math.max(bounds.width, bounds.height) * THUMBNAIL_MARGIN
+  const x = Math.max(0, Math.floor(bounds.x - margin))
+  const y = Math.max(0, Math.floor(bounds.y - margin))
+  const width = Math.min(source.width, Math.ceil(bounds.x + bounds.width + margin)) - x
+  const height = Math.min(source.height, Math.ceil(bounds.y + bounds.height + margin)) - y
+  if (width <= 0 || height <= 0) return null
+
+  const scale = Math.min(1, THUMBNAIL_MAX_SIZE / Math.max(width, height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width * scale))
+  canvas.height = Math.max(1, Math.round(height * scale))
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+  ctx.drawImage(source, x, y, width, height, 0, 0, canvas.width, canvas.height)
+
+  // WebPに未対応のブラウザ（古いSafari）はPNGを返すため、その場合はJPEGにする
+  let image = await toBlob(canvas, 'image/webp')
+  if (image?.type !== 'image/webp') {
+    image = await toBlob(canvas, 'image/jpeg')
+  }
+  if (!image) return null
+
+  return {
+    image,
+    width: canvas.width,
+    height: canvas.height,
+    points: points.map(point => ({ x: (point.x - x) * scale, y: (point.y - y) * scale }))
+  }
+}
+
+/** ZIPに入れる際の拡張子 */
+export function thumbnailExtension(thumbnail: ResultThumbnail): string {
+  return thumbnail.image.type === 'image/webp' ? 'webp' : 'jpg'
+}
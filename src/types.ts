@@ -0,0 +1,61 @@
+import type { Point } from 'zxing-wasm/reader'
+import type { DedupePolicy } from './dedupeKey'
+import type { RejectReason, ValidationRules } from './validation'
+
+/** 新規検出時のフレームから切り抜いたコード周辺の画像 */
+export interface ResultThumbnail {
+  image: Blob // WebP（未対応のブラウザではJPEG）
+  width: number
+  height: number
+  points: Point[] // サムネイル上のコードの四隅
+}
+
+export interface UniqueQRResult {
+  id: string
+  text: string
+  firstSeen: Date
+  lastSeen: Date
+  count: number
+  format?: string
+  sourceFile?: string // 画像ファイルから読み取った場合のファイル名
+  identity?: string // 重複判定に使った識別子（正規化でテキストと異なる場合のみ）
+  points?: Point[] // 初回検出時のフレーム上の四隅（共有された一覧から取り込んだ結果にはない）
+  orientation?: number // 初回検出時のコードの向き（度）
+  ecLevel?: string // 誤り訂正レベル（QRコードなど対応する形式のみ）
+  thumbnail?: ResultThumbnail // カメラ・動画の結果のみ（画像ファイルは元のファイルで確認できる）
+}
+
+/** 検証ルールに合わず取り込まなかったコード（保存はせず、セッションを開いている間だけ表示する） */
+export interface RejectedScan {
+  id: string
+  text: string
+  format?: string
+  reason: RejectReason
+  firstSeen: Date
+  lastSeen: Date
+  count: number
+}
+
+export interface SavedSession {
+  id: string
+  name: string
+  createdAt: Date
+  manifest?: string[] // 照合リスト（チェックリストモード）
+  dedupePolicy?: DedupePolicy // 重複判定ルール（未設定は完全一致）
+  validation?: ValidationRules // 検証ルール（未設定はすべて受け付ける）
+}
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed'
+
+/** サーバーへの送信キュー（1結果につき1件） */
+export interface Delivery {
+  sessionId: string
+  resultId: string
+  body: string // 送信するJSON
+  status: DeliveryStatus
+  attempts: number
+  nextAttemptAt: number // 次回送信時刻（エポックミリ秒）
+  lastError?: string
+  createdAt: Date
+  sentAt?: Date
+}
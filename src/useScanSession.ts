@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { GuideState } from './guideGeometry'
+import {
+  ScanSession,
+  type FrameDetection,
+  type FrameSource,
+  type ScanDecoder,
+  type ScanSessionConfig
+} from './scanSession'
+import type { DedupePolicy } from './dedupeKey'
+import type { RejectedScan, ResultThumbnail, UniqueQRResult } from './types'
+
+/** ScanSessionをReactの状態として扱うための薄いラッパー */
+export function useScanSession(decoder: ScanDecoder, config?: Partial<ScanSessionConfig>) {
+  // デコーダー（読み取り形式など）の変更はセッションを作り直さずに反映する
+  const decoderRef = useRef(decoder)
+  useEffect(() => {
+    decoderRef.current = decoder
+  }, [decoder])
+
+  const [session] = useState(() => new ScanSession({
+    decoder: image => decoderRef.current(image),
+    config
+  }))
+  const [results, setResults] = useState<Map<string, UniqueQRResult>>(() => session.getResults())
+  const [guideState, setGuideState] = useState<GuideState>(session.guideState)
+  const [detections, setDetections] = useState<FrameDetection[]>([])
+  const [rejected, setRejected] = useState<RejectedScan[]>(() => session.getRejected())
+
+  useEffect(() => {
+    const unsubscribes = [
+      session.onDetect(() => setResults(session.getResults())),
+      session.onReject(() => setRejected(session.getRejected())),
+      session.onStateChange(setGuideState),
+      session.onFrame(outcome => {
+        if (outcome.status !== 'dropped') {
+          setDetections(outcome.detections)
+        }
+      })
+    ]
+    return () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe())
+      session.stop()
+    }
+  }, [session])
+
+  const start = useCallback((frameSource: FrameSource, initialDelay?: number) => {
+    session.start(frameSource, initialDelay)
+  }, [session])
+
+  const stop = useCallback(() => {
+    session.stop()
+    setDetections([])
+  }, [session])
+
+  const loadResults = useCallback((saved: Iterable<UniqueQRResult>) => {
+    session.load(saved)
+    setResults(session.getResults())
+    setRejected(session.getRejected())
+  }, [session])
+
+  const resetResults = useCallback(() => {
+    session.reset()
+    setResults(session.getResults())
+    setRejected(session.getRejected())
+  }, [session])
+
+  const clearRejected = useCallback(() => {
+    session.clearRejected()
+    setRejected(session.getRejected())
+  }, [session])
+
+  const setDedupePolicy = useCallback((policy: DedupePolicy) => {
+    session.setDedupePolicy(policy)
+    setResults(session.getResults())
+  }, [session])
+
+  const attachThumbnail = useCallback((id: string, thumbnail: ResultThumbnail) => {
+    if (session.attachThumbnail(id, thumbnail)) {
+      setResults(session.getResults())
+    }
+  }, [session])
+
+  return {
+    session,
+    results,
+    rejected,
+    guideState,
+    detections,
+    start,
+    stop,
+    loadResults,
+    resetResults,
+    setDedupePolicy,
+    attachThumbnail,
+    clearRejected
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createValidator,
+  DEFAULT_VALIDATION_RULES,
+  isValidGs1CheckDigit,
+  isValidLuhn,
+  parseJsonSchema,
+  validateJsonSchema,
+  type ValidationRules
+} from './validation'
+import { MESSAGES } from './messages'
+
+function validate(rules: Partial<ValidationRules>, text: string) {
+  return createValidator({ ...DEFAULT_VALIDATION_RULES, ...rules })?.(text) ?? null
+}
+
+describe('createValidator', () => {
+  it('ルールがなければ検証しない', () => {
+    expect(createValidator(DEFAULT_VALIDATION_RULES)).toBeNull()
+  })
+
+  it('先頭の文字列・文字数・正規表現で判定する', () => {
+    expect(validate({ prefix: 'INV-' }, 'INV-001')).toBeNull()
+    expect(validate({ prefix: 'INV-' }, 'https://ad.example.com')).toEqual({ rule: 'prefix' })
+    expect(validate({ minLength: 3, maxLength: 5 }, 'ab')).toEqual({ rule: 'length', detail: '2' })
+    expect(validate({ minLength: 3, maxLength: 5 }, 'あいう')).toBeNull()
+    expect(validate({ pattern: '^\\d{13}$' }, '4901234567894')).toBeNull()
+    expect(validate({ pattern: '^\\d{13}$' }, 'ABC')).toEqual({ rule: 'pattern' })
+  })
+
+  it('チェックデジットで判定する', () => {
+    expect(validate({ checkDigit: 'gs1' }, '4901234567894')).toBeNull()
+    expect(validate({ checkDigit: 'gs1' }, '4901234567890')).toEqual({ rule: 'checkDigit' })
+    expect(validate({ checkDigit: 'luhn' }, '4111111111111111')).toBeNull()
+    expect(validate({ checkDigit: 'luhn' }, '4111111111111112')).toEqual({ rule: 'checkDigit' })
+  })
+
+  it('JSON Schemaを設定するとJSON以外は除外する', () => {
+    const jsonSchema = '{"type": "object", "required": ["id"], "properties": {"id": {"type": "integer"}}}'
+    expect(validate({ jsonSchema }, '{"id": 1}')).toBeNull()
+    expect(validate({ jsonSchema }, 'plain text')).toEqual({ rule: 'notJson' })
+    expect(validate({ jsonSchema }, '{"id": "1"}')).toEqual({ rule: 'schema', detail: '/id: type' })
+  })
+})
+
+describe('チェックデジット', () => {
+  it('GS1（GTIN-8/13/14）', () => {
+    expect(isValidGs1CheckDigit('96385074')).toBe(true)
+    expect(isValidGs1CheckDigit('10614141000415')).toBe(true)
+    expect(isValidGs1CheckDigit('10614141000416')).toBe(false)
+    expect(isValidGs1CheckDigit('ABC')).toBe(false)
+  })
+
+  it('Luhn', () => {
+    expect(isValidLuhn('79927398713')).toBe(true)
+    expect(isValidLuhn('79927398710')).toBe(false)
+  })
+})
+
+describe('parseJsonSchema', () => {
+  const labels = MESSAGES.ja.validation
+
+  it('オブジェクト以外は表示用のメッセージを返す', () => {
+    expect(parseJsonSchema('', labels)).toBeNull()
+    expect(parseJsonSchema('{"type": "string"}', labels)).toEqual({ type: 'string' })
+    expect(parseJsonSchema('[1]', labels)).toBe(labels.schemaNotObject)
+    expect(typeof parseJsonSchema('{', labels)).toBe('string')
+  })
+})
+
+describe('validateJsonSchema', () => {
+  it('入れ子の配列・追加のプロパティ', () => {
+    const schema = {
+      type: 'object',
+      properties: { items: { type: 'array', minItems: 1, items: { type: 'string', pattern: '^SN' } } },
+      additionalProperties: false
+    }
+    expect(validateJsonSchema({ items: ['SN1'] }, schema)).toBeNull()
+    expect(validateJsonSchema({ items: [] }, schema)).toBe('/items: minItems')
+    expect(validateJsonSchema({ items: ['X1'] }, schema)).toBe('/items/0: pattern')
+    expect(validateJsonSchema({ items: ['SN1'], extra: 1 }, schema)).toBe('/extra: additionalProperties')
+  })
+
+  it('required は継承したプロパティでは満たさない', () => {
+    expect(validateJsonSchema({}, { type: 'object', required: ['toString'] })).toBe('/toString: required')
+    expect(validateJsonSchema({ toString: 'x' }, { type: 'object', required: ['toString'] })).toBeNull()
+  })
+
+  it('properties にないキーは継承したプロパティ名でも追加のプロパティとして扱う', () => {
+    const schema = { type: 'object', properties: {}, additionalProperties: false }
+    expect(validateJsonSchema(JSON.parse('{"constructor":1}'), schema)).toBe('/constructor: additionalProperties')
+    expect(validateJsonSchema(JSON.parse('{"__proto__":1}'), schema)).toBe('/__proto__: additionalProperties')
+  })
+})
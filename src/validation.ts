@@ -0,0 +1,219 @@
+import type { Messages } from './messages'
+import { compileCapturePattern } from './dedupeKey'
+
+// 読み取ったコードの検証ルール（広告・他社のラベル・Wi-Fiステッカーなどの混入を防ぐ。DOM非依存）
+
+export type CheckDigit = 'none' | 'gs1' | 'luhn'
+export type RejectAction = 'list' | 'drop' // 除外した一覧に表示する / 破棄する
+
+export interface ValidationRules {
+  pattern: string // 正規表現（空の場合は使わない）。一致するコードのみ受け付ける
+  prefix: string // 先頭の文字列（空の場合は使わない）
+  minLength: number | null
+  maxLength: number | null
+  checkDigit: CheckDigit // 末尾のチェックデジット（数字のみのコード）
+  jsonSchema: string // JSON Schema（空の場合は使わない）。設定するとJSON以外のコードは受け付けない
+  rejectAction: RejectAction
+}
+
+export const DEFAULT_VALIDATION_RULES: ValidationRules = {
+  pattern: '',
+  prefix: '',
+  minLength: null,
+  maxLength: null,
+  checkDigit: 'none',
+  jsonSchema: '',
+  rejectAction: 'list'
+}
+
+export type ValidationRule = 'pattern' | 'prefix' | 'length' | 'checkDigit' | 'notJson' | 'schema'
+
+export interface RejectReason {
+  rule: ValidationRule
+  detail?: string // JSON Schemaで一致しなかった箇所など
+}
+
+export type CodeValidator = (text: string) => RejectReason | null
+
+/** 除外の理由を表示用の文字列にする */
+export function formatRejectReason(reason: RejectReason, messages: Messages['validation']): string {
+  const label = messages.reasons[reason.rule]
+  return reason.detail ? `${label} (${reason.detail})` : label
+}
+
+export function hasValidationRules(rules: ValidationRules): boolean {
+  return rules.pattern !== '' ||
+    rules.prefix !== '' ||
+    rules.minLength !== null ||
+    rules.maxLength !== null ||
+    rules.checkDigit !== 'none' ||
+    rules.jsonSchema.trim() !== ''
+}
+
+// JSONのオブジェクトであればJSON Schemaとして返す（構文エラーは例外になる）
+function readJsonSchema(schema: string): JsonSchema | null {
+  const parsed: unknown = JSON.parse(schema)
+  return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed as JsonSchema : null
+}
+
+/** JSON Schemaを読み込む。不正な場合は表示用のエラーメッセージを返す */
+export function parseJsonSchema(schema: string, messages: Messages['validation']): JsonSchema | string | null {
+  if (!schema.trim()) return null
+  try {
+    return readJsonSchema(schema) ?? messages.schemaNotObject
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err)
+  }
+}
+
+/** GS1のチェックデジット（モジュラス10・ウェイト3-1。GTIN・SSCCなど） */
+export function isValidGs1CheckDigit(digits: string): boolean {
+  if (!/^\d{2,}$/.test(digits)) return false
+  let sum = 0
+  for (let i = digits.length - 2, weight = 3; i >= 0; i--, weight = 4 - weight) {
+    sum += Number(digits[i]) * weight
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1])
+}
+
+/** Luhnのチェックデジット（クレジットカード番号・IMEIなど） */
+export function isValidLuhn(digits: string): boolean {
+  if (!/^\d{2,}$/.test(digits)) return false
+  let sum = 0
+  for (let i = digits.length - 1, double = false; i >= 0; i--, double = !double) {
+    let digit = Number(digits[i])
+    if (double) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+// JSON Schemaの主なキーワードのみ対応（type・enum・const・数値と文字列と配列の範囲・pattern・properties・required・additionalProperties・items）
+export interface JsonSchema {
+  type?: string | string[]
+  enum?: unknown[]
+  const?: unknown
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  minItems?: number
+  maxItems?: number
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  if (type === 'integer') return Number.isInteger(value)
+  return jsonType(value) === type
+}
+
+/**
+ * JSON Schemaで検証し、最初に一致しなかった箇所（"/items/0: type" の形式）を返す。
+ * 一致した場合は null。
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = ''): string | null {
+  const at = (keyword: string) => `${path || '/'}: ${keyword}`
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(type => matchesType(value, type))) return at('type')
+  }
+  if (schema.enum && !schema.enum.some(candidate => JSON.stringify(candidate) === JSON.stringify(value))) {
+    return at('enum')
+  }
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) return at('const')
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) return at('minimum')
+    if (schema.maximum !== undefined && value > schema.maximum) return at('maximum')
+  }
+  if (typeof value === 'string') {
+    const length = Array.from(value).length
+    if (schema.minLength !== undefined && length < schema.minLength) return at('minLength')
+    if (schema.maxLength !== undefined && length > schema.maxLength) return at('maxLength')
+    if (schema.pattern !== undefined) {
+      const pattern = compileCapturePattern(schema.pattern)
+      if (pattern instanceof RegExp && !pattern.test(value)) return at('pattern')
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) return at('minItems')
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) return at('maxItems')
+    if (schema.items) {
+      for (const [index, item] of value.entries()) {
+        const error = validateJsonSchema(item, schema.items, `${path}/${index}`)
+        if (error) return error
+      }
+    }
+  }
+  if (jsonType(value) === 'object') {
+    const object = value as Record<string, unknown>
+    for (const key of schema.required ?? []) {
+      if (!Object.hasOwn(object, key)) return `${path}/${key}: required`
+    }
+    for (const [key, child] of Object.entries(object)) {
+      // toString・constructor などObjectのプロパティ名をスキーマと取り違えない
+      const childSchema = schema.properties && Object.hasOwn(schema.properties, key) ? schema.properties[key] : undefined
+      if (childSchema) {
+        const error = validateJsonSchema(child, childSchema, `${path}/${key}`)
+        if (error) return error
+      } else if (schema.additionalProperties === false) {
+        return `${path}/${key}: additionalProperties`
+      } else if (typeof schema.additionalProperties === 'object') {
+        const error = validateJsonSchema(child, schema.additionalProperties, `${path}/${key}`)
+        if (error) return error
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * 検証ルールから検証関数を作る（コードごとに正規表現やスキーマを読み直さないため）。
+ * 不正な正規表現・スキーマは無視する（設定画面で適用前に弾く）。
+ */
+export function createValidator(rules: ValidationRules): CodeValidator | null {
+  if (!hasValidationRules(rules)) return null
+  const pattern = compileCapturePattern(rules.pattern)
+  let schema: JsonSchema | null = null
+  try {
+    if (rules.jsonSchema.trim()) schema = readJsonSchema(rules.jsonSchema)
+  } catch {
+    // 設定画面で適用前に弾くため、ここでは無視する
+  }
+
+  return text => {
+    if (rules.prefix && !text.startsWith(rules.prefix)) return { rule: 'prefix' }
+    const length = Array.from(text).length
+    if ((rules.minLength !== null && length < rules.minLength) || (rules.maxLength !== null && length > rules.maxLength)) {
+      return { rule: 'length', detail: String(length) }
+    }
+    if (pattern instanceof RegExp && !pattern.test(text)) return { rule: 'pattern' }
+    if (rules.checkDigit === 'gs1' && !isValidGs1CheckDigit(text)) return { rule: 'checkDigit' }
+    if (rules.checkDigit === 'luhn' && !isValidLuhn(text)) return { rule: 'checkDigit' }
+    if (schema !== null) {
+      let value: unknown
+      try {
+        value = JSON.parse(text)
+      } catch {
+        return { rule: 'notJson' }
+      }
+      const error = validateJsonSchema(value, schema)
+      if (error) return { rule: 'schema', detail: error }
+    }
+    return null
+  }
+}
@@ -0,0 +1,83 @@
+import { calculateGuideSize, type GuideLayout } from './guideGeometry'
+import {
+  canvasToDisplay,
+  displayRectToVideo,
+  getDisplayTransform,
+  type FrameMapping
+} from './frameGeometry'
+import type { ScanFrame } from './scanSession'
+import { logger } from './logger'
+
+export interface CaptureOptions {
+  video: HTMLVideoElement | null
+  canvas: HTMLCanvasElement
+  container: HTMLElement | null // ビデオとガイド枠を重ねて表示している要素
+  focusGuideOnly: boolean // ガイド領域のみスキャン
+  scale: number // Canvas描画スケール
+  guideLayout?: GuideLayout // ガイドの種類と枠の並び
+}
+
+/**
+ * ビデオの現在フレームをCanvasに描画し、デコード用の入力を作る。
+ * ビデオの準備ができていなければ null を返す。
+ */
+export function captureVideoFrame({ video, canvas, container, focusGuideOnly, scale, guideLayout }: CaptureOptions): ScanFrame | null {
+  const ctx = canvas.getContext('2d')
+
+  if (!video || !ctx || video.readyState !== video.HAVE_ENOUGH_DATA) {
+    return null
+  }
+
+  // ビデオ→表示座標の変換（object-fitによるはみ出し・余白を考慮）
+  const transform = getDisplayTransform(
+    video.videoWidth,
+    video.videoHeight,
+    container?.clientWidth ?? video.videoWidth,
+    container?.clientHeight ?? video.videoHeight,
+    getComputedStyle(video).objectFit
+  )
+  const guideRegion = container
+    ? calculateGuideSize(container.clientWidth, container.clientHeight, guideLayout)
+    : null
+
+  // ガイド領域のみスキャンする場合は、ガイド枠に対応するビデオ領域だけを切り出す
+  if (focusGuideOnly && !guideRegion && import.meta.env.DEV) {
+    logger.warn('frame_capture', { reason: 'Guide-only mode requires a container element' })
+  }
+  const region = focusGuideOnly && guideRegion
+    ? displayRectToVideo(
+        { x: guideRegion.left, y: guideRegion.top, width: guideRegion.width, height: guideRegion.height },
+        transform,
+        video.videoWidth,
+        video.videoHeight
+      )
+    : { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight }
+
+  // Canvas設定（解像度を下げてパフォーマンス向上）
+  canvas.width = Math.floor(region.width * scale)
+  canvas.height = Math.floor(region.height * scale)
+
+  if (canvas.width === 0 || canvas.height === 0) {
+    logger.warn('frame_capture', { reason: 'Canvas size is 0' })
+    return null
+  }
+
+  const mapping: FrameMapping = {
+    region,
+    canvasWidth: canvas.width,
+    canvasHeight: canvas.height,
+    transform
+  }
+
+  ctx.drawImage(
+    video,
+    region.x, region.y, region.width, region.height,
+    0, 0, canvas.width, canvas.height
+  )
+
+  return {
+    image: ctx.getImageData(0, 0, canvas.width, canvas.height),
+    guide: guideRegion,
+    toDisplay: point => canvasToDisplay(point, mapping)
+  }
+}
@@ -0,0 +1,262 @@
+import type { ReadResult } from 'zxing-wasm/reader'
+import { escapeCsvField, UTF8_BOM } from './exportResults'
+import { DECODE_TIMEOUT_MESSAGE } from './decoderClient'
+
+// 録画した動画ファイルからの読み取り（現場の不具合の再現・回帰確認用）
+
+export const DEFAULT_FRAME_RATE = 30 // 動画のフレームレートが分からない場合に使う値
+export const PLAYBACK_RATES = [0.25, 0.5, 1, 2]
+export const VIDEO_FILE_ACCEPT = 'video/mp4,video/webm,.mp4,.webm,.mov'
+
+export interface VideoCodeOccurrence {
+  text: string
+  format: string
+  firstTime: number // 秒
+  lastTime: number
+  frames: number // 写っていたフレーム数
+  timestamps: number[]
+}
+
+export interface VideoScanReport {
+  source: string // ファイル名またはURL
+  duration: number // 秒
+  frameRate: number
+  frames: number // デコードしたフレーム数
+  framesWithCodes: number
+  timeouts: number
+  codes: VideoCodeOccurrence[] // 最初に写った順
+}
+
+export type VideoFrameDecoder = (image: ImageData) => Promise<ReadResult[]>
+
+export interface VideoScanOptions {
+  frameRate?: number
+  signal?: AbortSignal
+  onProgress?: (time: number, duration: number) => void
+}
+
+// シーク中に読み込みが解除（emptied）された場合やエラーで待ち続けないようにする
+// （読み込み開始時は直前のソースの emptied が届くことがあるため対象外）
+function waitForEvent(target: HTMLMediaElement, event: 'loadeddata' | 'seeked'): Promise<void> {
+  const failures = event === 'seeked' ? ['error', 'emptied'] : ['error']
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent)
+      failures.forEach(failure => target.removeEventListener(failure, onError))
+    }
+    const onEvent = () => {
+      cleanup()
+      resolve()
+    }
+    const onError = () => {
+      cleanup()
+      reject(target.error ?? new Error(`Video ${event} failed`))
+    }
+    target.addEventListener(event, onEvent)
+    failures.forEach(failure => target.addEventListener(failure, onError))
+  })
+}
+
+/**
+ * 動画ファイル（またはURL）をビデオ要素に読み込む。
+ * 戻り値の関数で読み込みを解除する（Blobの場合はURLも解放する）。
+ */
+export async function loadVideo(video: HTMLVideoElement, source: Blob | string): Promise<() => void> {
+  const url = typeof source === 'string' ? source : URL.createObjectURL(source)
+  const release = () => {
+    video.removeAttribute('src')
+    video.load()
+    if (typeof source !== 'string') URL.revokeObjectURL(url)
+  }
+
+  video.srcObject = null
+  video.muted = true
+  video.playsInline = true
+  const loaded = waitForEvent(video, 'loadeddata')
+  video.src = url
+  try {
+    await loaded
+  } catch (err) {
+    release()
+    throw err
+  }
+  return release
+}
+
+export async function seekVideo(video: HTMLVideoElement, time: number) {
+  const seeked = waitForEvent(video, 'seeked')
+  video.currentTime = time
+  await seeked
+}
+
+/** 一時停止して1フレーム進める・戻す */
+export async function stepVideoFrame(video: HTMLVideoElement, direction: 1 | -1, frameRate = DEFAULT_FRAME_RATE) {
+  video.pause()
+  const time = Math.min(Math.max(video.currentTime + direction / frameRate, 0), video.duration)
+  await seekVideo(video, time)
+}
+
+function drawFullFrame(video: HTMLVideoElement, canvas: HTMLCanvasElement): ImageData | null {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx || video.videoWidth === 0 || video.videoHeight === 0) return null
+  canvas.width = video.videoWidth
+  canvas.height = video.videoHeight
+  ctx.drawImage(video, 0, 0)
+  return ctx.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+/**
+ * 動画を先頭から1フレームずつシークして全フレームをデコードし、
+ * どのコードがどの時刻に写っていたかをまとめる。
+ */
+export async function scanVideoFrames(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  source: string,
+  decode: VideoFrameDecoder,
+  { frameRate = DEFAULT_FRAME_RATE, signal, onProgress }: VideoScanOptions = {}
+): Promise<VideoScanReport> {
+  video.pause()
+  const duration = video.duration
+  const occurrences = new Map<string, VideoCodeOccurrence>()
+  let frames = 0
+  let framesWithCodes = 0
+  let timeouts = 0
+
+  // 浮動小数の誤差で最後のフレームを飛ばさないよう、フレーム番号から時刻を求める
+  const frameCount = Math.max(1, Math.floor(duration * frameRate))
+  for (let index = 0; index < frameCount; index++) {
+    signal?.throwIfAborted()
+    const time = index / frameRate
+    await seekVideo(video, time)
+    onProgress?.(time, duration)
+
+    const image = drawFullFrame(video, canvas)
+    if (!image) continue
+    frames++
+
+    let reads: ReadResult[]
+    try {
+      reads = await decode(image)
+    } catch (err) {
+      // タイムアウトしたフレームは数えて続行（ワーカーは再起動される）
+      if (err instanceof Error && err.message === DECODE_TIMEOUT_MESSAGE) {
+        timeouts++
+        continue
+      }
+      throw err
+    }
+    if (reads.length > 0) framesWithCodes++
+
+    const timestamp = Math.round(time * 1000) / 1000
+    for (const read of reads) {
+      const key = `${read.format}\u0000${read.text}`
+      const occurrence = occurrences.get(key)
+      if (occurrence) {
+        occurrence.lastTime = timestamp
+        occurrence.frames++
+        occurrence.timestamps.push(timestamp)
+      } else {
+        occurrences.set(key, {
+          text: read.text,
+          format: read.format,
+          firstTime: timestamp,
+          lastTime: timestamp,
+          frames: 1,
+          timestamps: [timestamp]
+        })
+      }
+    }
+  }
+
+  return {
+    source,
+    duration,
+    frameRate,
+    frames,
+    framesWithCodes,
+    timeouts,
+    codes: Array.from(occurrences.values())
+  }
+}
+
+/** コードごとに写っていた時刻をCSVにする（timestampsは空白区切り） */
+export function toVideoReportCsv(report: VideoScanReport): string {
+  const rows = report.codes.map(code =>
+    [code.text, code.format, code.firstTime, code.lastTime, code.frames, code.timestamps.join(' ')]
+      .map(escapeCsvField)
+      .join(',')
+  )
+  return UTF8_BOM + ['text,format,firstTime,lastTime,frames,timestamps', ...rows].join('\r\n') + '\r\n'
+}
+
+export interface RegressionResult {
+  source: string
+  passed: boolean
+  expected: number
+  missing: string[] // 期待したのに読み取れなかったコード
+  unexpected: string[] // 期待していないコード
+  report: VideoScanReport | null // 動画を読み込めなかった場合は null
+  error?: string
+}
+
+/** 期待するコードの一覧と比べる（期待値がない場合は1つでも読めれば合格） */
+export function checkVideoReport(report: VideoScanReport, expected: string[] | null): RegressionResult {
+  const found = new Set(report.codes.map(code => code.text))
+  const missing = expected ? expected.filter(code => !found.has(code)) : []
+  const expectedSet = new Set(expected ?? [])
+  const unexpected = expected ? Array.from(found).filter(code => !expectedSet.has(code)) : []
+  return {
+    source: report.source,
+    passed: expected ? missing.length === 0 && unexpected.length === 0 : found.size > 0,
+    expected: expected?.length ?? 0,
+    missing,
+    unexpected,
+    report
+  }
+}
+
+export interface RegressionSummary {
+  generatedAt: string
+  passed: boolean
+  total: number
+  passedCount: number
+  clips: RegressionResult[]
+}
+
+export function summarizeRegression(results: RegressionResult[]): RegressionSummary {
+  const passedCount = results.filter(result => result.passed).length
+  return {
+    generatedAt: new Date().toISOString(),
+    passed: results.length > 0 && passedCount === results.length,
+    total: results.length,
+    passedCount,
+    clips: results
+  }
+}
+
+const VIDEO_EXTENSIONS = /\.(mp4|webm|mov)$/i
+const EXPECTED_SUFFIXES = ['.expected.txt', '.expected.csv']
+
+export interface RegressionClip<T> {
+  name: string
+  video: T
+  expected: T | null // 期待するコードの一覧（照合リストと同じ形式）
+}
+
+/**
+ * フォルダ内のファイルから動画と期待値のファイル（clip.webm → clip.expected.txt）を組にする。
+ * ブラウザのFileとスクリプトのファイル名の両方で使えるよう、名前の取り出し方を受け取る。
+ */
+export function pairRegressionClips<T>(files: T[], nameOf: (file: T) => string): RegressionClip<T>[] {
+  const byName = new Map(files.map(file => [nameOf(file), file]))
+  return files
+    .filter(file => VIDEO_EXTENSIONS.test(nameOf(file)))
+    .map(video => {
+      const name = nameOf(video)
+      const base = name.replace(VIDEO_EXTENSIONS, '')
+      const expectedName = EXPECTED_SUFFIXES.map(suffix => base + suffix).find(candidate => byName.has(candidate))
+      return { name, video, expected: expectedName ? byName.get(expectedName)! : null }
+    })
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
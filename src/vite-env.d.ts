@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 埋め込みモードで親ページとして許可するオリジン（カンマ区切り）
+  readonly VITE_EMBED_ALLOWED_ORIGINS?: string
+  // 'true' の場合、開発環境でdebug・infoのログもコンソールに出す
+  readonly VITE_VERBOSE_LOG?: string
+}
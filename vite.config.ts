@@ -1,9 +1,79 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Service Workerでプリキャッシュするpublic配下のファイル
+const PUBLIC_PRECACHE_FILES = ['zxing_reader.wasm', 'zxing_writer.wasm', 'manifest.webmanifest', 'icon.svg', 'vite.svg']
+
+// FNV-1a（キャッシュ名のバージョン用。暗号強度は不要）
+function fnv1a(hash: number, data: string | Uint8Array) {
+  for (let i = 0; i < data.length; i++) {
+    const unit = typeof data === 'string' ? data.charCodeAt(i) : data[i]
+    hash = Math.imul(hash ^ unit, 0x01000193) >>> 0
+  }
+  return hash
+}
+
+// ビルド成果物（ハッシュ付きファイル名）からプリキャッシュ一覧を生成する
+// 内容が変わるとService Workerの更新として検知され、画面に更新プロンプトが出る
+// （public/zxing_reader.wasm・zxing_writer.wasm はzxing-wasmの更新時にチャンクと一緒に変わる）
+function precacheManifest(): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      let hash = 0x811c9dc5
+      // _headers 等のホスティング設定ファイルは配信されないため除外
+      const assets = Object.keys(bundle)
+        .filter(fileName => !fileName.endsWith('.map') && !fileName.startsWith('_'))
+      for (const fileName of assets) {
+        const output = bundle[fileName]
+        hash = fnv1a(hash, fileName)
+        hash = fnv1a(hash, output.type === 'chunk' ? output.code : output.source)
+      }
+
+      const urls = Array.from(new Set(['/index.html', ...assets, ...PUBLIC_PRECACHE_FILES].map(
+        fileName => (fileName.startsWith('/') ? fileName : `/${fileName}`)
+      )))
+      const manifest = { version: hash.toString(16).padStart(8, '0'), urls }
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.js',
+        source: `self.__PRECACHE = ${JSON.stringify(manifest, null, 2)}\n`
+      })
+    }
+  }
+}
+
+// public/_headers の埋め込みページ用 frame-ancestors に許可オリジンを差し込む
+// （アプリ側の postMessage の許可リストと同じ VITE_EMBED_ALLOWED_ORIGINS を使う）
+function embedHeaders(allowedOrigins: string): Plugin {
+  let publicDir = ''
+  return {
+    name: 'embed-headers',
+    apply: 'build',
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+    async generateBundle() {
+      const template = await this.fs.readFile(`${publicDir}/_headers`, { encoding: 'utf8' })
+      const origins = allowedOrigins.split(',').map(origin => origin.trim()).filter(Boolean)
+      this.emitFile({
+        type: 'asset',
+        fileName: '_headers',
+        source: template.replace('%EMBED_ALLOWED_ORIGINS%', origins.join(' '))
+      })
+    }
+  }
+}
+
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => ({
+  plugins: [
+    react(),
+    embedHeaders(loadEnv(mode, '.').VITE_EMBED_ALLOWED_ORIGINS ?? ''),
+    precacheManifest()
+  ],
   server: {
     host: '0.0.0.0',
     port: 5173,
@@ -21,15 +91,20 @@ export default defineConfig({
     // WebAssemblyファイルの処理
     assetsInlineLimit: 0,
     rollupOptions: {
-      output: {
-        manualChunks: {
-          'zxing-wasm': ['zxing-wasm']
-        }
+      // 通常画面・埋め込み用（iframe）画面・動画の回帰テスト画面
+      input: {
+        main: 'index.html',
+        embed: 'embed.html',
+        regression: 'regression.html'
       }
     }
   },
+  worker: {
+    // デコーダーワーカーからzxing-wasmを読み込むためESモジュール形式で出力
+    format: 'es'
+  },
   optimizeDeps: {
     // zxing-wasmの事前バンドル
-    include: ['zxing-wasm/reader']
+    include: ['zxing-wasm/reader', 'zxing-wasm/writer']
   }
-})
\ No newline at end of file
+}))